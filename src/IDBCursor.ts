@@ -5,6 +5,7 @@ import { encodeKey, compareKeys, valueToKey, decodeKey } from './keys.ts';
 import { deserialize } from './structured-clone.ts';
 // queueTask not imported directly; we use transaction._queueRequestCallback
 import type { IDBValidKey } from './types.ts';
+import type { StorageReader, CursorSeek } from './storage-backend.ts';
 
 const decodeKeyFromBuffer = decodeKey;
 
@@ -19,7 +20,6 @@ export interface CursorState {
   // For object store cursors
   storeId: number;
   dbName: string;
-  backend: any; // SQLiteBackend
   // For index cursors
   indexId?: number;
   // Range
@@ -133,7 +133,7 @@ export class IDBCursor {
     this._state.request._readyState = 'pending';
     this._state.transaction._pendingRequestCount++;
 
-    this._iterateCursor(key !== undefined ? valueToKey(key) as IDBValidKey : undefined);
+    txn._runOperation(() => this._iterateCursor(key !== undefined ? valueToKey(key) as IDBValidKey : undefined));
   }
 
   advance(count: number): void {
@@ -173,7 +173,7 @@ export class IDBCursor {
     this._state.request._readyState = 'pending';
     this._state.transaction._pendingRequestCount++;
 
-    this._iterateCursorAdvance(count);
+    txn._runOperation(() => this._iterateCursorAdvance(count));
   }
 
   update(...args: any[]): any {
@@ -322,7 +322,7 @@ export class IDBCursor {
     this._state.request._readyState = 'pending';
     this._state.transaction._pendingRequestCount++;
 
-    this._iterateCursorContinuePrimaryKey(validKey, validPK);
+    this._state.transaction._runOperation(() => this._iterateCursorContinuePrimaryKey(validKey, validPK));
   }
 
   /** Fire the cursor result asynchronously, setting flags in the event callback */
@@ -344,267 +344,104 @@ export class IDBCursor {
 
   /** Internal: iterate cursor to next position */
   _iterateCursor(targetKey?: IDBValidKey): void {
-    const { sourceType, direction, request, transaction } = this._state;
     const encodedTarget = targetKey !== undefined ? encodeKey(targetKey) : undefined;
 
-    if (sourceType === 'objectStore') {
+    if (this._state.sourceType === 'objectStore') {
       this._iterateObjectStoreCursor(encodedTarget);
     } else {
       this._iterateIndexCursor(encodedTarget);
     }
   }
 
-  _iterateObjectStoreCursor(encodedTarget?: Uint8Array): void {
-    const { backend, dbName, storeId, direction, request, transaction } = this._state;
-    const isReverse = direction === 'prev' || direction === 'prevunique';
+  _iterateObjectStoreCursor(encodedTarget?: Uint8Array, skip: number = 0): void {
+    const { dbName, storeId, direction } = this._state;
+    const backend: StorageReader = this._state.transaction._reader;
+
+    // Seek onto the target key if given, otherwise just past the current position
+    const seek: CursorSeek = encodedTarget !== undefined
+      ? { key: encodedTarget, primaryKey: null, inclusive: true }
+      : { key: this._position!, primaryKey: null, inclusive: false };
 
-    // Get all records in range
-    const records = backend.getRecordsForCursor(
+    const found = backend.getNextRecordForCursor(
       dbName, storeId,
       this._state.lower, this._state.upper,
       this._state.lowerOpen, this._state.upperOpen,
-      direction
+      direction, seek, skip
     );
-
-    // Find the next record after current position
-    let found: { key: Buffer; value: Buffer } | null = null;
-    for (const record of records) {
-      if (this._position !== null) {
-        const cmp = Buffer.compare(record.key, Buffer.from(this._position));
-        if (isReverse ? cmp >= 0 : cmp <= 0) {
-          // If we have a target key, check if this record comes after the current position
-          // but before or at the target
-          continue;
-        }
-      }
-      if (encodedTarget !== undefined) {
-        const cmp = Buffer.compare(record.key, Buffer.from(encodedTarget));
-        if (isReverse ? cmp > 0 : cmp < 0) {
-          continue;
-        }
-      }
-      found = record;
-      break;
-    }
-
-    if (found) {
-      this._position = new Uint8Array(found.key);
-      this._objectStorePosition = new Uint8Array(found.key);
-      this._key = decodeKeyFromBuffer(found.key);
-      this._primaryKey = this._key;
-      if (!this._state.keyOnly) {
-        this._value = deserialize(found.value);
-      }
-    } else {
-      this._key = undefined;
-      this._primaryKey = undefined;
-      this._value = undefined;
-    }
+    this._setRecord(found);
     this._fireResult(!!found);
   }
 
-  _iterateIndexCursor(encodedTarget?: Uint8Array): void {
-    const { backend, dbName, storeId, direction, request, transaction, indexId } = this._state;
-    const isReverse = direction === 'prev' || direction === 'prevunique';
+  _iterateIndexCursor(encodedTarget?: Uint8Array, skip: number = 0): void {
+    const { dbName, storeId, direction, indexId } = this._state;
+    const backend: StorageReader = this._state.transaction._reader;
     const isUnique = direction === 'nextunique' || direction === 'prevunique';
 
-    const entries = backend.getIndexEntriesForCursor(
+    // Seek onto the target key if given. Otherwise move past the current
+    // position: past the whole index key for unique directions, or past the
+    // (index key, primary key) pair for non-unique ones.
+    let seek: CursorSeek;
+    if (encodedTarget !== undefined) {
+      seek = { key: encodedTarget, primaryKey: null, inclusive: true };
+    } else if (isUnique) {
+      seek = { key: this._position!, primaryKey: null, inclusive: false };
+    } else {
+      seek = { key: this._position!, primaryKey: this._objectStorePosition!, inclusive: false };
+    }
+
+    const found = backend.getNextIndexEntryForCursor(
       dbName, indexId!, storeId,
       this._state.lower, this._state.upper,
       this._state.lowerOpen, this._state.upperOpen,
-      direction
+      direction, seek, skip
     );
-
-    let found: { index_key: Buffer; primary_key: Buffer; value: Buffer } | null = null;
-    let lastSeenIndexKey: Buffer | null = null;
-
-    for (const entry of entries) {
-      if (this._position !== null) {
-        const indexCmp = Buffer.compare(entry.index_key, Buffer.from(this._position));
-
-        if (isUnique) {
-          // For unique directions, skip entries with same index key as current position
-          if (indexCmp === 0) continue;
-          if (isReverse ? indexCmp > 0 : indexCmp < 0) continue;
-        } else {
-          // For non-unique, compare index key, then primary key
-          if (isReverse) {
-            if (indexCmp > 0) continue;
-            if (indexCmp === 0) {
-              const pkCmp = Buffer.compare(entry.primary_key, Buffer.from(this._objectStorePosition!));
-              if (pkCmp >= 0) continue;
-            }
-          } else {
-            if (indexCmp < 0) continue;
-            if (indexCmp === 0) {
-              const pkCmp = Buffer.compare(entry.primary_key, Buffer.from(this._objectStorePosition!));
-              if (pkCmp <= 0) continue;
-            }
-          }
-        }
-      }
-
-      if (encodedTarget !== undefined) {
-        const cmp = Buffer.compare(entry.index_key, Buffer.from(encodedTarget));
-        if (isReverse ? cmp > 0 : cmp < 0) {
-          continue;
-        }
-      }
-
-      found = entry;
-      break;
-    }
-
-    if (found) {
-      this._position = new Uint8Array(found.index_key);
-      this._objectStorePosition = new Uint8Array(found.primary_key);
-      this._key = decodeKeyFromBuffer(found.index_key);
-      this._primaryKey = decodeKeyFromBuffer(found.primary_key);
-      if (!this._state.keyOnly) {
-        this._value = deserialize(found.value);
-      }
-    } else {
-      this._key = undefined;
-      this._primaryKey = undefined;
-      this._value = undefined;
-    }
+    this._setIndexEntry(found);
     this._fireResult(!!found);
   }
 
   _iterateCursorAdvance(count: number): void {
-    const { sourceType, direction, request, transaction, backend, dbName, storeId, indexId } = this._state;
-    const isReverse = direction === 'prev' || direction === 'prevunique';
-    const isUnique = direction === 'nextunique' || direction === 'prevunique';
-
-    if (sourceType === 'objectStore') {
-      const records = backend.getRecordsForCursor(
-        dbName, storeId,
-        this._state.lower, this._state.upper,
-        this._state.lowerOpen, this._state.upperOpen,
-        direction
-      );
-
-      let skipped = 0;
-      let found: { key: Buffer; value: Buffer } | null = null;
-      for (const record of records) {
-        if (this._position !== null) {
-          const cmp = Buffer.compare(record.key, Buffer.from(this._position));
-          if (isReverse ? cmp >= 0 : cmp <= 0) continue;
-        }
-        skipped++;
-        if (skipped === count) {
-          found = record;
-          break;
-        }
-      }
-
-      if (found) {
-        this._position = new Uint8Array(found.key);
-        this._objectStorePosition = new Uint8Array(found.key);
-        this._key = decodeKeyFromBuffer(found.key);
-        this._primaryKey = this._key;
-        if (!this._state.keyOnly) {
-          this._value = deserialize(found.value);
-        }
-      } else {
-        this._key = undefined;
-        this._primaryKey = undefined;
-        this._value = undefined;
-      }
-      this._fireResult(!!found);
-      return;
+    // Advancing by `count` is one seek past the current position, skipping count - 1 rows
+    if (this._state.sourceType === 'objectStore') {
+      this._iterateObjectStoreCursor(undefined, count - 1);
     } else {
-      const entries = backend.getIndexEntriesForCursor(
-        dbName, indexId!, storeId,
-        this._state.lower, this._state.upper,
-        this._state.lowerOpen, this._state.upperOpen,
-        direction
-      );
-
-      let skipped = 0;
-      let found: { index_key: Buffer; primary_key: Buffer; value: Buffer } | null = null;
-      let lastSeenIndexKey: Buffer | null = null;
-
-      for (const entry of entries) {
-        if (this._position !== null) {
-          const indexCmp = Buffer.compare(entry.index_key, Buffer.from(this._position));
-
-          if (isUnique) {
-            if (indexCmp === 0) continue;
-            if (isReverse ? indexCmp > 0 : indexCmp < 0) continue;
-          } else {
-            if (isReverse) {
-              if (indexCmp > 0) continue;
-              if (indexCmp === 0) {
-                const pkCmp = Buffer.compare(entry.primary_key, Buffer.from(this._objectStorePosition!));
-                if (pkCmp >= 0) continue;
-              }
-            } else {
-              if (indexCmp < 0) continue;
-              if (indexCmp === 0) {
-                const pkCmp = Buffer.compare(entry.primary_key, Buffer.from(this._objectStorePosition!));
-                if (pkCmp <= 0) continue;
-              }
-            }
-          }
-        }
-
-        // For unique directions, when advancing, each unique index key counts as one step
-        if (isUnique && lastSeenIndexKey !== null) {
-          if (Buffer.compare(entry.index_key, lastSeenIndexKey) === 0) continue;
-        }
-
-        lastSeenIndexKey = entry.index_key;
-        skipped++;
-        if (skipped === count) {
-          found = entry;
-          break;
-        }
-      }
-
-      if (found) {
-        this._position = new Uint8Array(found.index_key);
-        this._objectStorePosition = new Uint8Array(found.primary_key);
-        this._key = decodeKeyFromBuffer(found.index_key);
-        this._primaryKey = decodeKeyFromBuffer(found.primary_key);
-        if (!this._state.keyOnly) {
-          this._value = deserialize(found.value);
-        }
-      } else {
-        this._key = undefined;
-        this._primaryKey = undefined;
-        this._value = undefined;
-      }
-      this._fireResult(!!found);
+      this._iterateIndexCursor(undefined, count - 1);
     }
   }
 
   _iterateCursorContinuePrimaryKey(key: IDBValidKey, primaryKey: IDBValidKey): void {
-    const { backend, dbName, storeId, direction, request, transaction, indexId } = this._state;
-    const isReverse = direction === 'prev';
-    const encodedKey = encodeKey(key);
-    const encodedPK = encodeKey(primaryKey);
+    const { dbName, storeId, direction, indexId } = this._state;
+    const backend: StorageReader = this._state.transaction._reader;
 
-    const entries = backend.getIndexEntriesForCursor(
+    const found = backend.getNextIndexEntryForCursor(
       dbName, indexId!, storeId,
       this._state.lower, this._state.upper,
       this._state.lowerOpen, this._state.upperOpen,
-      direction
+      direction,
+      { key: encodeKey(key), primaryKey: encodeKey(primaryKey), inclusive: true }
     );
+    this._setIndexEntry(found);
+    this._fireResult(!!found);
+  }
 
-    let found: { index_key: Buffer; primary_key: Buffer; value: Buffer } | null = null;
-
-    for (const entry of entries) {
-      const indexCmp = Buffer.compare(entry.index_key, Buffer.from(encodedKey));
-      if (isReverse ? indexCmp > 0 : indexCmp < 0) continue;
-      if (indexCmp === 0) {
-        const pkCmp = Buffer.compare(entry.primary_key, Buffer.from(encodedPK));
-        if (isReverse ? pkCmp > 0 : pkCmp < 0) continue;
+  /** Move an object store cursor onto a record, or past the end if null */
+  _setRecord(found: { key: Buffer; value: Buffer } | null): void {
+    if (found) {
+      this._position = new Uint8Array(found.key);
+      this._objectStorePosition = new Uint8Array(found.key);
+      this._key = decodeKeyFromBuffer(found.key);
+      this._primaryKey = this._key;
+      if (!this._state.keyOnly) {
+        this._value = deserialize(found.value);
       }
-      found = entry;
-      break;
+    } else {
+      this._key = undefined;
+      this._primaryKey = undefined;
+      this._value = undefined;
     }
+  }
 
+  /** Move an index cursor onto an index entry, or past the end if null */
+  _setIndexEntry(found: { index_key: Buffer; primary_key: Buffer; value: Buffer } | null): void {
     if (found) {
       this._position = new Uint8Array(found.index_key);
       this._objectStorePosition = new Uint8Array(found.primary_key);
@@ -618,7 +455,6 @@ export class IDBCursor {
       this._primaryKey = undefined;
       this._value = undefined;
     }
-    this._fireResult(!!found);
   }
 }
 
@@ -665,7 +501,6 @@ export function openObjectStoreCursor(
   }
 
   const request = transaction._createRequest(objectStore);
-  const backend = transaction._db._backend;
   const dbName = transaction._db._name;
 
   const state: CursorState = {
@@ -676,7 +511,6 @@ export function openObjectStoreCursor(
     direction,
     storeId: objectStore._storeId,
     dbName,
-    backend,
     lower,
     upper,
     lowerOpen,
@@ -690,21 +524,14 @@ export function openObjectStoreCursor(
   transaction._queueOperation(
     () => {
       // Get the first record (deferred for scheduler)
-      const records = backend.getRecordsForCursor(
+      const first = transaction._reader.getNextRecordForCursor(
         dbName, objectStore._storeId,
         lower, upper, lowerOpen, upperOpen,
-        direction
+        direction, null
       );
 
-      if (records.length > 0) {
-        const first = records[0];
-        cursor._position = new Uint8Array(first.key);
-        cursor._objectStorePosition = new Uint8Array(first.key);
-        cursor._key = decodeKeyFromBuffer(first.key);
-        cursor._primaryKey = cursor._key;
-        if (!keyOnly) {
-          cursor._value = deserialize(first.value);
-        }
+      if (first) {
+        cursor._setRecord(first);
         cursor._gotValue = true;
 
         request._readyState = 'done';
@@ -757,7 +584,6 @@ export function openIndexCursor(
   }
 
   const request = transaction._createRequest(index);
-  const backend = transaction._db._backend;
   const dbName = transaction._db._name;
   const storeId = index._objectStore._storeId;
 
@@ -769,7 +595,6 @@ export function openIndexCursor(
     direction,
     storeId,
     dbName,
-    backend,
     indexId: index._indexId,
     lower,
     upper,
@@ -783,21 +608,14 @@ export function openIndexCursor(
 
   transaction._queueOperation(
     () => {
-      const entries = backend.getIndexEntriesForCursor(
+      const first = transaction._reader.getNextIndexEntryForCursor(
         dbName, index._indexId, storeId,
         lower, upper, lowerOpen, upperOpen,
-        direction
+        direction, null
       );
 
-      if (entries.length > 0) {
-        const first = entries[0];
-        cursor._position = new Uint8Array(first.index_key);
-        cursor._objectStorePosition = new Uint8Array(first.primary_key);
-        cursor._key = decodeKeyFromBuffer(first.index_key);
-        cursor._primaryKey = decodeKeyFromBuffer(first.primary_key);
-        if (!keyOnly) {
-          cursor._value = deserialize(first.value);
-        }
+      if (first) {
+        cursor._setIndexEntry(first);
         cursor._gotValue = true;
 
         request._readyState = 'done';
@@ -3,19 +3,35 @@
 import { DOMStringList } from './DOMStringList.ts';
 import { IDBTransaction } from './IDBTransaction.ts';
 import { IDBObjectStore, isValidKeyPath } from './IDBObjectStore.ts';
-import type { SQLiteBackend } from './sqlite-backend.ts';
+import { SchemaCache } from './schema-cache.ts';
+import type { StorageBackend } from './storage-backend.ts';
+import type { TransactionScheduler } from './transaction-scheduler.ts';
 import { initEventTarget, idbDispatchEvent } from './scheduling.ts';
+import type { ListenerErrorHandler } from './scheduling.ts';
 
 export class IDBDatabase extends EventTarget {
   _name: string;
   _version: number;
-  _backend: SQLiteBackend;
+  _backend: StorageBackend;
+  _scheduler: TransactionScheduler;
+  _schema: SchemaCache;
   _closed: boolean = false;
   _closePending: boolean = false;
   _upgradeTransaction: IDBTransaction | null = null;
   _objectStoreNamesCache: DOMStringList | null = null;
   // Callback for when versionchange transaction finishes
   _onVersionChangeComplete: ((aborted: boolean) => void) | null = null;
+  // Transactions created on this connection that have not yet finished
+  _transactions: Set<IDBTransaction> = new Set();
+  // Callback for when the connection is fully closed (set by IDBFactory)
+  _onClosed: (() => void) | null = null;
+  // Closed forcibly: fire `close` once fully closed
+  _forced: boolean = false;
+  // Callback for when this database's storage fails (set by IDBFactory)
+  _onStorageFailure: (() => void) | null = null;
+  // Receives exceptions thrown by listeners on this connection, its
+  // transactions and requests (set by IDBFactory)
+  _onListenerError: ListenerErrorHandler | null = null;
 
   // Event handlers
   onabort: ((this: IDBDatabase, ev: Event) => any) | null = null;
@@ -24,15 +40,17 @@ export class IDBDatabase extends EventTarget {
   onversionchange: ((this: IDBDatabase, ev: Event) => any) | null = null;
 
   dispatchEvent(event: Event): boolean {
-    return idbDispatchEvent(this, [], event);
+    return idbDispatchEvent(this, [], event, this._onListenerError);
   }
 
-  constructor(name: string, version: number, backend: SQLiteBackend) {
+  constructor(name: string, version: number, backend: StorageBackend, scheduler: TransactionScheduler) {
     super();
     initEventTarget(this);
     this._name = name;
     this._version = version;
     this._backend = backend;
+    this._scheduler = scheduler;
+    this._schema = new SchemaCache(backend, name);
   }
 
   get name(): string {
@@ -48,20 +66,86 @@ export class IDBDatabase extends EventTarget {
     if (this._closePending && this._objectStoreNamesCache) {
       return this._objectStoreNamesCache;
     }
-    const names = this._backend.getObjectStoreNames(this._name);
+    const names = this._schema.storeNames();
     this._objectStoreNamesCache = new DOMStringList(names);
     return this._objectStoreNamesCache;
   }
 
   close(): void {
     if (!this._closePending) {
-      this._closePending = true;
-      // Freeze the objectStoreNames at close time
-      const names = this._backend.getObjectStoreNames(this._name);
-      this._objectStoreNamesCache = new DOMStringList(names);
+      this._beginClose();
       // The actual close happens when all transactions complete
-      // For now, mark as closed immediately
-      this._closed = true;
+      this._maybeFinishClose();
+    }
+  }
+
+  /**
+   * Close the connection forcibly (e.g. its factory is shutting down or its
+   * storage failed): abort its unfinished transactions with `error`, then
+   * fire `close` once they have finished.
+   */
+  _forceClose(error?: DOMException): void {
+    if (this._closed) return;
+    if (!this._closePending) {
+      this._beginClose();
+    }
+    this._forced = true;
+    for (const txn of [...this._transactions]) {
+      if (!txn._aborted && txn._state !== 'finished') {
+        if (error && !txn._error) {
+          txn._error = error;
+        }
+        txn.abort(true);
+      }
+    }
+    this._maybeFinishClose();
+  }
+
+  /**
+   * If `err` means this database's storage failed, close every connection
+   * to it forcibly and return true.
+   */
+  _storageFailed(err: unknown): boolean {
+    if (!this._backend.isFatalError(err)) return false;
+    if (this._onStorageFailure) {
+      this._onStorageFailure();
+    } else {
+      this._forceClose(new DOMException('The database storage failed.', 'UnknownError'));
+    }
+    return true;
+  }
+
+  private _beginClose(): void {
+    this._closePending = true;
+    // Freeze the objectStoreNames at close time
+    let names: string[];
+    try {
+      names = this._schema.storeNames();
+    } catch {
+      // Storage failed: keep the last names we saw
+      names = this._objectStoreNamesCache ? [...this._objectStoreNamesCache] : [];
+    }
+    this._objectStoreNamesCache = new DOMStringList(names);
+  }
+
+  /** Called by a transaction on this connection once it has finished */
+  _transactionFinished(txn: IDBTransaction): void {
+    this._transactions.delete(txn);
+    if (this._closePending) {
+      this._maybeFinishClose();
+    }
+  }
+
+  _maybeFinishClose(): void {
+    if (this._closed || this._transactions.size > 0) return;
+    this._closed = true;
+    if (this._forced) {
+      queueTask(() => {
+        this.dispatchEvent(new Event('close', { bubbles: false, cancelable: false }));
+      });
+    }
+    if (this._onClosed) {
+      this._onClosed();
     }
   }
 
@@ -105,7 +189,7 @@ export class IDBDatabase extends EventTarget {
     }
 
     // 4. ConstraintError for duplicate store name
-    const existingNames = this._backend.getObjectStoreNames(this._name);
+    const existingNames = this._schema.storeNames();
     if (existingNames.includes(name)) {
       throw new DOMException(
         `An object store with the name '${name}' already exists.`,
@@ -131,9 +215,10 @@ export class IDBDatabase extends EventTarget {
 
     this._upgradeTransaction._ensureSavepoint();
     this._backend.createObjectStore(this._name, name, keyPath, autoIncrement);
+    this._schema.invalidate();
 
     // Update store names on the transaction
-    const updatedNames = this._backend.getObjectStoreNames(this._name);
+    const updatedNames = this._schema.storeNames();
     this._upgradeTransaction._storeNames = updatedNames;
     this._upgradeTransaction._objectStoreNames = new DOMStringList(updatedNames);
 
@@ -170,7 +255,7 @@ export class IDBDatabase extends EventTarget {
     }
 
     // Check store exists
-    const existingNames = this._backend.getObjectStoreNames(this._name);
+    const existingNames = this._schema.storeNames();
     if (!existingNames.includes(name)) {
       throw new DOMException(
         `No object store with the name '${name}' was found.`,
@@ -201,9 +286,10 @@ export class IDBDatabase extends EventTarget {
     }
 
     this._backend.deleteObjectStore(this._name, name);
+    this._schema.invalidate();
 
     // Update store names on the transaction
-    const updatedNames = this._backend.getObjectStoreNames(this._name);
+    const updatedNames = this._schema.storeNames();
     this._upgradeTransaction._storeNames = updatedNames;
     this._upgradeTransaction._objectStoreNames = new DOMStringList(updatedNames);
 
@@ -243,7 +329,7 @@ export class IDBDatabase extends EventTarget {
 
     // Per spec: NotFoundError (store names check) before TypeError (invalid mode)
     // Verify all store names exist
-    const existingNames = this._backend.getObjectStoreNames(this._name);
+    const existingNames = this._schema.storeNames();
     for (const name of storeNames) {
       if (!existingNames.includes(name)) {
         throw new DOMException(
@@ -269,7 +355,7 @@ export class IDBDatabase extends EventTarget {
     txn._useScheduler = true;
 
     // Register with the transaction scheduler
-    getScheduler(this._name).addTransaction(txn, txn._storeNames, mode, () => {
+    this._scheduler.addTransaction(txn, txn._storeNames, mode, () => {
       txn._schedulerStart();
     });
 
@@ -312,4 +398,3 @@ export class IDBDatabase extends EventTarget {
 
 // Import queueTask for the transaction method - we need this at the bottom
 import { queueTask } from './scheduling.ts';
-import { getScheduler } from './transaction-scheduler.ts';
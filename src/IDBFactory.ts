@@ -7,22 +7,113 @@ import { IDBDatabase } from './IDBDatabase.ts';
 import { IDBTransaction } from './IDBTransaction.ts';
 import { IDBVersionChangeEvent } from './IDBVersionChangeEvent.ts';
 import { DOMStringList } from './DOMStringList.ts';
-import { SQLiteBackend } from './sqlite-backend.ts';
+import { SQLiteBackend, IN_MEMORY_STORAGE } from './sqlite-backend.ts';
+import type { StorageBackend, ConnectionCoordinator, BackupProgress } from './storage-backend.ts';
+import { checkDatabase, repairDatabase } from './integrity.ts';
+import type { IntegrityOptions, IntegrityReport } from './integrity.ts';
+import { DatabaseScheduler } from './transaction-scheduler.ts';
+import type { TransactionScheduler } from './transaction-scheduler.ts';
+import { RemoteBackend, serveStorage } from './worker-sharing.ts';
+import type { MessagePort } from 'node:worker_threads';
 import { queueTask } from './scheduling.ts';
+import type { ListenerErrorHandler } from './scheduling.ts';
 
 export interface IDBFactoryOptions {
-  storagePath: string;
+  /**
+   * Directory for the SQLite files, or ':memory:' for in-memory mode.
+   * Required unless `inMemory` or `backend` is given.
+   */
+  storagePath?: string;
+  /**
+   * Keep every database in SQLite memory. Nothing is written to disk, and the
+   * data is private to this factory and gone once it is garbage collected.
+   */
+  inMemory?: boolean;
+  /** Custom storage engine to use instead of SQLite */
+  backend?: StorageBackend;
+  /**
+   * Use the storage of a factory in another thread, which serves the other
+   * end of this port (see serve()). Transactions are scheduled and
+   * versionchange is delivered across both threads as within one factory.
+   */
+  port?: MessagePort;
+  /**
+   * What a transaction's 'default' durability means. 'strict' (the default)
+   * syncs every commit to disk; 'relaxed' trades the last few commits on
+   * power loss for cheaper commits. Readwrite transactions running at the
+   * same time commit at the strictest of their levels, so a 'relaxed' one
+   * overlapping a 'strict' one is synced too. Custom backends get the
+   * transaction's durability as-is and decide for themselves.
+   */
+  defaultDurability?: 'strict' | 'relaxed';
+  /**
+   * Called with each exception thrown by an event listener (or on* handler)
+   * of this factory's requests, transactions and connections. Such an
+   * exception aborts the transaction, as the spec requires; without this
+   * option it is otherwise dropped.
+   */
+  onListenerError?: ListenerErrorHandler;
+}
+
+export interface BackupOptions {
+  /** Called as the copy goes on, and once more when it is complete */
+  onProgress?: (progress: BackupProgress) => void;
+}
+
+export interface RestoreOptions extends BackupOptions {
+  /** Called if open connections to the database don't close on versionchange */
+  onBlocked?: (event: IDBVersionChangeEvent) => void;
 }
 
 export class IDBFactory {
-  private _storagePath: string;
-  private _backend: SQLiteBackend;
+  private _backend: StorageBackend;
+  // Coordinates with other factories (and processes) sharing the storage
+  private _coordinator: ConnectionCoordinator | null;
+  // Coordinator ids of this factory's connections
+  private _coordinatorIds: Map<IDBDatabase, string> = new Map();
+  // Databases whose last connection has closed, with their change counts
+  // then: their storage handles are kept until another factory changes them
+  private _idleStorage: Map<string, number> = new Map();
+  // Set when this factory uses another thread's storage (options.port)
+  private _remote: RemoteBackend | null = null;
+  // Shutdown functions of the ports this factory serves
+  private _served: Set<() => void> = new Set();
+  // Transaction schedulers, one per database name
+  private _schedulers: Map<string, TransactionScheduler> = new Map();
   // Track open connections for versionchange notifications
   private _openConnections: Map<string, Set<IDBDatabase>> = new Map();
+  // Per-name connection queues: pending open/delete steps, in request order
+  private _connectionQueues: Map<string, Array<(done: () => void) => void>> = new Map();
+  // Resume callbacks for queued requests blocked on open connections closing
+  private _blockedRequests: Map<string, () => void> = new Map();
+  // Every connection not yet closed, including ones still in their upgrade
+  private _connections: Set<IDBDatabase> = new Set();
+  // Set by close(); resolved once everything is shut down
+  private _closed: boolean = false;
+  private _closePromise: Promise<void> | null = null;
+  private _closeResolve: (() => void) | null = null;
+  private _onListenerError: ListenerErrorHandler | null;
 
   constructor(options: IDBFactoryOptions) {
-    this._storagePath = options.storagePath;
-    this._backend = new SQLiteBackend(options.storagePath);
+    if (options.port) {
+      this._remote = new RemoteBackend(options.port);
+      this._remote.onDisconnect = () => this._remoteDisconnected();
+      this._backend = this._remote;
+    } else if (options.backend) {
+      this._backend = options.backend;
+    } else {
+      const storagePath = options.inMemory ? IN_MEMORY_STORAGE : options.storagePath;
+      if (typeof storagePath !== 'string') {
+        throw new TypeError('IDBFactory requires a storagePath, inMemory or a backend.');
+      }
+      const defaultDurability = options.defaultDurability ?? 'strict';
+      if (defaultDurability !== 'strict' && defaultDurability !== 'relaxed') {
+        throw new TypeError(`Invalid defaultDurability: ${defaultDurability}`);
+      }
+      this._backend = new SQLiteBackend(storagePath, defaultDurability);
+    }
+    this._coordinator = this._backend.createCoordinator?.() ?? null;
+    this._onListenerError = options.onListenerError ?? null;
   }
 
   cmp(first: any, second: any): number {
@@ -45,6 +136,8 @@ export class IDBFactory {
       );
     }
 
+    this._throwIfClosed('open');
+
     // Coerce name to string
     name = String(name);
 
@@ -58,11 +151,30 @@ export class IDBFactory {
       }
     }
 
+    return this._openRequest(name, version);
+  }
+
+  /**
+   * open() with the version worked out when the request runs, from the
+   * existing database's (0 if there is none), so that no other open or
+   * delete can come in between (used by importDatabase()). An exception
+   * thrown by `version` fails the request.
+   */
+  _openWithVersion(name: string, version: (existingVersion: number) => number): IDBOpenDBRequest {
+    this._throwIfClosed('open');
+    return this._openRequest(String(name), version);
+  }
+
+  private _openRequest(
+    name: string,
+    version: number | ((existingVersion: number) => number) | undefined
+  ): IDBOpenDBRequest {
     const request = new IDBOpenDBRequest();
     request._source = null;
+    request._onListenerError = this._onListenerError;
 
     queueTask(() => {
-      this._runOpenSteps(name, version, request);
+      this._enqueueConnectionRequest(name, (done) => this._runOpenSteps(name, version, request, done));
     });
 
     return request;
@@ -75,26 +187,501 @@ export class IDBFactory {
       );
     }
 
+    this._throwIfClosed('deleteDatabase');
+
     name = String(name);
 
     const request = new IDBOpenDBRequest();
     request._source = null;
+    request._onListenerError = this._onListenerError;
 
     queueTask(() => {
-      this._runDeleteSteps(name, request);
+      this._enqueueConnectionRequest(name, (done) => this._runDeleteSteps(name, request, done));
     });
 
     return request;
   }
 
   databases(): Promise<Array<{ name: string; version: number }>> {
+    try {
+      this._throwIfClosed('databases');
+    } catch (err) {
+      return Promise.reject(err);
+    }
     return Promise.resolve(this._backend.listDatabases());
   }
 
-  private _runOpenSteps(name: string, version: number | undefined, request: IDBOpenDBRequest): void {
+  /**
+   * Shut the factory down. Pending open/delete requests fail, every live
+   * connection is closed forcibly (its transactions abort and it gets a
+   * `close` event), and the backend releases its files. Resolves once done.
+   */
+  close(): Promise<void> {
+    if (!this._closePromise) {
+      this._closed = true;
+      this._closePromise = new Promise((resolve) => {
+        this._closeResolve = resolve;
+      });
+      for (const db of [...this._connections]) {
+        db._forceClose();
+      }
+      for (const resume of [...this._blockedRequests.values()]) {
+        resume();
+      }
+      queueTask(() => this._maybeFinishClose());
+    }
+    return this._closePromise;
+  }
+
+  [Symbol.asyncDispose](): Promise<void> {
+    return this.close();
+  }
+
+  /**
+   * Share this factory's storage with a factory in another thread, created
+   * there with the other end of `port` as its `port` option. Serving stops
+   * when either factory is closed or the other thread exits; a transaction
+   * the other side left unfinished is rolled back.
+   */
+  serve(port: MessagePort): void {
+    this._throwIfClosed('serve');
+    if (this._remote) {
+      throw new DOMException(
+        "Failed to execute 'serve' on 'IDBFactory': The factory uses another thread's storage.",
+        'NotSupportedError'
+      );
+    }
+    const shutdown = serveStorage(port, {
+      backend: this._backend,
+      getScheduler: (name) => this._getScheduler(name),
+    });
+    this._served.add(shutdown);
+    port.on('close', () => this._served.delete(shutdown));
+  }
+
+  /**
+   * Close every connection to a database forcibly, as happens when its
+   * storage fails or is evicted: their transactions abort and each gets a
+   * `close` event. The data itself is left alone. Useful to simulate
+   * eviction in tests.
+   */
+  forceCloseDatabase(name: string): void {
+    this._forceCloseConnections(String(name), new DOMException('The connection was closed.', 'AbortError'));
+  }
+
+  /**
+   * Copy a database to a backup file at `destPath` while it stays in use.
+   * The copy holds what was committed when the backup started; transactions
+   * carry on meanwhile, except that in memory, writers wait for the start.
+   * Resolves once the file is complete.
+   */
+  backup(name: string, destPath: string, options: BackupOptions = {}): Promise<void> {
+    try {
+      this._throwIfClosed('backup');
+      this._throwIfNoBackups('backup');
+    } catch (err) {
+      return Promise.reject(err);
+    }
+    name = String(name);
+    return new Promise((resolve, reject) => {
+      // Between open/delete requests, so no upgrade runs as the backup starts
+      this._enqueueConnectionRequest(name, (done) => {
+        if (this._closed || !this._backend.databaseExists(name)) {
+          reject(this._closed
+            ? new DOMException('The factory has been closed.', 'AbortError')
+            : new DOMException(`No database named '${name}' was found.`, 'NotFoundError'));
+          done();
+          return;
+        }
+        // Start as a readonly transaction over every store would: once no
+        // transaction is writing
+        const scheduler = this._getScheduler(name);
+        const token = {};
+        scheduler.addTransaction(token, this._backend.getObjectStoreNames(name), 'readonly', () => {
+          let copying: Promise<void>;
+          try {
+            copying = this._backend.backupDatabase!(name, destPath, options.onProgress);
+          } catch (err) {
+            copying = Promise.reject(err);
+          }
+          scheduler.transactionFinished(token);
+          done();
+          // Once the backup's own connection is closed, so the last one to
+          // close can tidy up the WAL
+          copying.finally(() => this._closeStorageIfUnused(name)).then(resolve, reject);
+        });
+      });
+    });
+  }
+
+  /**
+   * Replace a database (or create it) with the contents of a backup file
+   * written by backup(). Open connections to it get versionchange and must
+   * close first, as for deleteDatabase(). Resolves once restored.
+   */
+  restore(name: string, srcPath: string, options: RestoreOptions = {}): Promise<void> {
+    try {
+      this._throwIfClosed('restore');
+      this._throwIfNoBackups('restore');
+    } catch (err) {
+      return Promise.reject(err);
+    }
+    name = String(name);
+    return new Promise((resolve, reject) => {
+      this._enqueueConnectionRequest(name, (done) => {
+        const fail = (err: unknown) => {
+          reject(err);
+          done();
+        };
+        if (this._closed) {
+          fail(new DOMException('The factory has been closed.', 'AbortError'));
+          return;
+        }
+        let info: { name: string; version: number } | null;
+        try {
+          info = this._backend.readBackupInfo!(srcPath);
+        } catch (err) {
+          fail(err);
+          return;
+        }
+        if (!info) {
+          fail(new DOMException(`'${srcPath}' is not a database backup.`, 'DataError'));
+          return;
+        }
+        const oldVersion = this._backend.databaseExists(name) ? this._backend.getDatabaseVersion(name) : 0;
+        // Stands in for an open request, to receive the blocked event
+        const request = new IDBOpenDBRequest();
+        request._source = null;
+        request._onListenerError = this._onListenerError;
+        if (options.onBlocked) {
+          request.addEventListener('blocked', options.onBlocked as EventListener);
+        }
+        this._waitForOtherConnections(name, oldVersion, info.version, request, () => {
+          if (this._closed) {
+            fail(new DOMException('The factory has been closed.', 'AbortError'));
+            return;
+          }
+          this._backend.restoreDatabase!(name, srcPath, options.onProgress).then(
+            () => {
+              this._coordinator?.markChanged(name);
+              this._closeStorageIfUnused(name);
+              resolve();
+              done();
+            },
+            fail
+          );
+        });
+      });
+    });
+  }
+
+  /**
+   * Check a database's storage: the backend's own check (SQLite's
+   * integrity_check), that every record can be read, and that every index
+   * holds exactly the entries its records call for. With `repair`, the
+   * indexes found wrong are rebuilt from the records. Runs as a transaction
+   * over every store would (readwrite when repairing). The backend needs
+   * the optional integrity methods of StorageBackend.
+   */
+  checkIntegrity(name: string, options: IntegrityOptions = {}): Promise<IntegrityReport> {
+    try {
+      this._throwIfClosed('checkIntegrity');
+      const backend = this._backend;
+      if (!backend.checkStorage || !backend.iterateIndexEntries || (options.repair && !backend.clearIndexEntries)) {
+        throw new DOMException(
+          "Failed to execute 'checkIntegrity' on 'IDBFactory': The storage backend doesn't support integrity checks.",
+          'NotSupportedError'
+        );
+      }
+    } catch (err) {
+      return Promise.reject(err);
+    }
+    const backend = this._backend;
+    name = String(name);
+    return new Promise((resolve, reject) => {
+      this._enqueueConnectionRequest(name, (done) => {
+        if (this._closed || !backend.databaseExists(name)) {
+          reject(this._closed
+            ? new DOMException('The factory has been closed.', 'AbortError')
+            : new DOMException(`No database named '${name}' was found.`, 'NotFoundError'));
+          done();
+          return;
+        }
+        const scheduler = this._getScheduler(name);
+        const token = {};
+        const mode = options.repair ? 'readwrite' : 'readonly';
+        scheduler.addTransaction(token, backend.getObjectStoreNames(name), mode, () => {
+          // Only reading: a snapshot doesn't hold up writers from elsewhere
+          const snapshot = options.repair ? null : backend.openSnapshot?.(name) ?? null;
+          try {
+            resolve(options.repair ? repairDatabase(backend, name) : checkDatabase(snapshot ?? backend, name));
+          } catch (err) {
+            reject(err);
+          } finally {
+            snapshot?.release();
+            scheduler.transactionFinished(token);
+            this._closeStorageIfUnused(name);
+            done();
+          }
+        });
+      });
+    });
+  }
+
+  private _throwIfNoBackups(method: string): void {
+    if (!this._backend.backupDatabase || !this._backend.readBackupInfo || !this._backend.restoreDatabase) {
+      throw new DOMException(
+        `Failed to execute '${method}' on 'IDBFactory': The storage backend doesn't support backups.`,
+        'NotSupportedError'
+      );
+    }
+  }
+
+  private _forceCloseConnections(name: string, error: DOMException): void {
+    for (const db of [...this._connections]) {
+      if (db._name === name) {
+        db._forceClose(error);
+      }
+    }
+    // Drop the storage handle too, so the next open starts afresh
+    try {
+      this._backend.closeDatabase(name);
+    } catch {
+      // ignore: the handle may be broken already
+    }
+  }
+
+  private _throwIfClosed(method: string): void {
+    if (this._closed) {
+      throw new DOMException(
+        `Failed to execute '${method}' on 'IDBFactory': The factory has been closed.`,
+        'InvalidStateError'
+      );
+    }
+  }
+
+  /** Fail a queued request that gets its turn after close() */
+  private _failIfClosed(request: IDBOpenDBRequest, done: () => void): boolean {
+    if (!this._closed) return false;
+    this._fireRequestError(request, new DOMException('The factory has been closed.', 'AbortError'));
+    done();
+    return true;
+  }
+
+  /** Finish close() once no requests or connections are left */
+  private _maybeFinishClose(): void {
+    if (!this._closeResolve || this._connectionQueues.size > 0 || this._connections.size > 0) return;
+    const resolve = this._closeResolve;
+    this._closeResolve = null;
+    for (const shutdown of [...this._served]) {
+      shutdown();
+    }
+    this._coordinator?.close();
+    this._backend.closeAll();
+    // Settle after any `close` events queued by the last connections
+    queueTask(resolve);
+  }
+
+  /**
+   * Append open/delete steps to the connection queue for a database name.
+   * Steps run one at a time, in request order; each calls `done` when it
+   * has finished and the next queued request may proceed.
+   */
+  private _enqueueConnectionRequest(name: string, steps: (done: () => void) => void): void {
+    let queue = this._connectionQueues.get(name);
+    if (!queue) {
+      queue = [];
+      this._connectionQueues.set(name, queue);
+    }
+    queue.push(steps);
+    if (queue.length === 1) {
+      this._runConnectionRequest(name, queue);
+    }
+  }
+
+  private _runConnectionRequest(name: string, queue: Array<(done: () => void) => void>): void {
+    const coordinator = this._coordinator;
+    if (coordinator) {
+      // Take turns with other factories too. Once closed, run the steps
+      // without the lock: they fail straight away.
+      const tryRun = () => {
+        if (!this._closed && !coordinator.tryAcquire(name)) return false;
+        this._runConnectionSteps(name, queue);
+        return true;
+      };
+      if (!tryRun()) {
+        coordinator.waitUntil(tryRun);
+      }
+      return;
+    }
+    this._runConnectionSteps(name, queue);
+  }
+
+  private _runConnectionSteps(name: string, queue: Array<(done: () => void) => void>): void {
+    if (!this._closed) this._dropStaleStorage(name);
+    let finished = false;
+    queue[0](() => {
+      if (finished) return;
+      finished = true;
+      this._coordinator?.release(name);
+      queue.shift();
+      if (queue.length === 0) {
+        this._connectionQueues.delete(name);
+        if (this._closed) {
+          queueTask(() => this._maybeFinishClose());
+        }
+      } else {
+        queueTask(() => this._runConnectionRequest(name, queue));
+      }
+    });
+  }
+
+  /**
+   * Fire versionchange at every other open connection, then wait until they
+   * have all closed before calling `proceed`. While any connection stays
+   * open, the request receives a `blocked` event.
+   */
+  private _waitForOtherConnections(
+    name: string,
+    oldVersion: number,
+    newVersion: number | null,
+    request: IDBOpenDBRequest,
+    proceed: () => void
+  ): void {
+    const connections = [...(this._openConnections.get(name) ?? [])];
+    for (const conn of connections) {
+      if (conn._closePending) continue;
+      const versionChangeEvent = new IDBVersionChangeEvent('versionchange', {
+        oldVersion: conn._version,
+        newVersion,
+      });
+      conn.dispatchEvent(versionChangeEvent);
+    }
+    this._coordinator?.requestVersionChange(name, newVersion);
+
+    const anyOpen = () =>
+      connections.some((conn) => !conn._closed) || !!this._coordinator?.hasOtherConnections(name);
+    if (!anyOpen()) {
+      proceed();
+      return;
+    }
+
+    queueTask(() => {
+      const blockedEvent = new IDBVersionChangeEvent('blocked', { oldVersion, newVersion });
+      request.dispatchEvent(blockedEvent);
+    });
+
+    // Re-checked each time a connection for this name finishes closing, and
+    // polled for other factories' connections. Once closed, stop waiting.
+    let resumed = false;
+    const resume = () => {
+      if (resumed || (!this._closed && anyOpen())) return;
+      resumed = true;
+      this._blockedRequests.delete(name);
+      queueTask(proceed);
+    };
+    this._blockedRequests.set(name, resume);
+    this._coordinator?.waitUntil(() => {
+      resume();
+      return resumed;
+    });
+  }
+
+  /** Called by an IDBDatabase once it is fully closed */
+  private _connectionClosed(name: string, db: IDBDatabase): void {
+    this._openConnections.get(name)?.delete(db);
+    this._forgetConnection(db);
+    const resume = this._blockedRequests.get(name);
+    if (resume) {
+      resume();
+    }
+    if (this._closed) {
+      queueTask(() => this._maybeFinishClose());
+    }
+  }
+
+  /** Stop tracking a connection; the storage handle is kept for the next one */
+  private _forgetConnection(db: IDBDatabase): void {
+    if (!this._connections.delete(db)) return;
+    const id = this._coordinatorIds.get(db);
+    if (id !== undefined) {
+      this._coordinatorIds.delete(db);
+      this._coordinator!.removeConnection(id);
+      // Another process may delete or upgrade the database before it is
+      // next opened here: note when, to know if the handle is still current
+      if (![...this._connections].some((conn) => conn._name === db._name)) {
+        this._idleStorage.set(db._name, this._coordinator!.changeCount(db._name));
+      }
+    }
+  }
+
+  /** Release the storage handle of a database no connection of this factory uses */
+  private _closeStorageIfUnused(name: string): void {
+    if (![...this._connections].some((conn) => conn._name === name)) {
+      this._idleStorage.delete(name);
+      this._backend.closeDatabase(name);
+    }
+  }
+
+  /** Release an idle storage handle if another factory has since changed its database */
+  private _dropStaleStorage(name: string): void {
+    const count = this._idleStorage.get(name);
+    if (count === undefined || this._coordinator!.changeCount(name) === count) return;
+    this._idleStorage.delete(name);
+    this._backend.closeDatabase(name);
+  }
+
+  /** The owner's storage is gone: connections fail as on storage failure */
+  private _remoteDisconnected(): void {
+    if (this._closed) return;
+    const error = new DOMException('The owning factory has been closed.', 'UnknownError');
+    for (const db of [...this._connections]) {
+      db._forceClose(error);
+    }
+    this.close();
+  }
+
+  private _getScheduler(name: string): TransactionScheduler {
+    let scheduler = this._schedulers.get(name);
+    if (!scheduler) {
+      scheduler = this._remote ? this._remote.createScheduler(name) : new DatabaseScheduler();
+      this._schedulers.set(name, scheduler);
+    }
+    return scheduler;
+  }
+
+  private _createConnection(name: string, version: number): IDBDatabase {
+    const db = new IDBDatabase(name, version, this._backend, this._getScheduler(name));
+    db._onClosed = () => this._connectionClosed(name, db);
+    db._onListenerError = this._onListenerError;
+    db._onStorageFailure = () => {
+      this._forceCloseConnections(name, new DOMException('The database storage failed.', 'UnknownError'));
+    };
+    this._connections.add(db);
+    this._idleStorage.delete(name);
+    if (this._coordinator) {
+      const id = this._coordinator.addConnection(name, (newVersion) => {
+        if (db._closePending) return;
+        db.dispatchEvent(new IDBVersionChangeEvent('versionchange', { oldVersion: db._version, newVersion }));
+      });
+      this._coordinatorIds.set(db, id);
+    }
+    return db;
+  }
+
+  private _runOpenSteps(
+    name: string,
+    version: number | ((existingVersion: number) => number) | undefined,
+    request: IDBOpenDBRequest,
+    done: () => void
+  ): void {
+    if (this._failIfClosed(request, done)) return;
     try {
       const existingVersion = this._backend.getDatabaseVersion(name);
       const dbExists = this._backend.databaseExists(name);
+      if (typeof version === 'function') {
+        version = version(dbExists ? existingVersion : 0);
+      }
 
       // If version is undefined, use existing version or 1 for new databases
       let requestedVersion: number;
@@ -113,16 +700,13 @@ export class IDBFactory {
         );
         const errorEvent = new Event('error', { bubbles: true, cancelable: true });
         request.dispatchEvent(errorEvent);
+        done();
         return;
       }
 
-      // Ensure database is initialized in SQLite
-      this._backend.getDatabase(name);
-
-      // Create the database connection
-      const db = new IDBDatabase(name, requestedVersion, this._backend);
+      // Ensure database storage is initialized
+      this._backend.openDatabase(name);
 
-      // Track this connection
       if (!this._openConnections.has(name)) {
         this._openConnections.set(name, new Set());
       }
@@ -130,81 +714,13 @@ export class IDBFactory {
       const needsUpgrade = !dbExists || requestedVersion > existingVersion;
 
       if (needsUpgrade) {
-        // Run upgrade transaction
         const oldVersion = dbExists ? existingVersion : 0;
-
-        // Get current store names for the upgrade transaction scope
-        const storeNames = this._backend.getObjectStoreNames(name);
-
-        // Create versionchange transaction
-        const tx = new IDBTransaction(db, storeNames, 'versionchange' as IDBTransactionMode);
-        db._upgradeTransaction = tx;
-        request._transaction = tx;
-        request._readyState = 'done';
-        request._result = db;
-
-        // Set up completion handling
-        db._onVersionChangeComplete = (aborted: boolean) => {
-          db._upgradeTransaction = null;
-          request._transaction = null;
-
-          if (aborted) {
-            // Fire error on the request
-            request._result = undefined;
-            request._error = new DOMException('The transaction was aborted.', 'AbortError');
-            const errorEvent = new Event('error', { bubbles: true, cancelable: true });
-            request.dispatchEvent(errorEvent);
-          } else {
-            // Commit the version to metadata
-            this._backend.setDatabaseVersion(name, requestedVersion);
-            db._version = requestedVersion;
-
-            // Per spec: if close() was called during upgrade, the connection
-            // is "close pending". The upgrade commits (complete fires), but
-            // the open request should fail with AbortError since the
-            // connection was closed before opening completed.
-            if (db._closePending) {
-              request._result = undefined;
-              request._error = new DOMException(
-                'The connection was closed.',
-                'AbortError'
-              );
-              const errorEvent = new Event('error', { bubbles: true, cancelable: true });
-              request.dispatchEvent(errorEvent);
-            } else {
-              // Add to open connections
-              this._openConnections.get(name)!.add(db);
-
-              // Fire success
-              const successEvent = new Event('success', { bubbles: false, cancelable: false });
-              request.dispatchEvent(successEvent);
-            }
-          }
-        };
-
-        // Fire upgradeneeded event
-        const upgradeEvent = new IDBVersionChangeEvent('upgradeneeded', {
-          oldVersion,
-          newVersion: requestedVersion,
-        });
-        request.dispatchEvent(upgradeEvent);
-
-        // Per spec: if an exception was thrown during upgradeneeded dispatch, abort the transaction
-        if ((upgradeEvent as any)._exceptionThrown && !tx._aborted) {
-          tx.abort();
-          return;
-        }
-
-        // After upgradeneeded handlers run, deactivate transaction
-        // Use queueMicrotask to allow sync handlers to complete
-        queueMicrotask(() => {
-          if (tx._state === 'active' && !tx._aborted) {
-            tx._deactivate();
-            tx._maybeAutoCommit();
-          }
+        this._waitForOtherConnections(name, oldVersion, requestedVersion, request, () => {
+          this._runUpgradeTransaction(name, oldVersion, requestedVersion, request, done);
         });
       } else {
         // No upgrade needed - just open
+        const db = this._createConnection(name, requestedVersion);
         request._readyState = 'done';
         request._result = db;
 
@@ -214,46 +730,146 @@ export class IDBFactory {
         // Fire success
         const successEvent = new Event('success', { bubbles: false, cancelable: false });
         request.dispatchEvent(successEvent);
+        done();
       }
     } catch (err) {
+      this._fireRequestError(request, err);
+      done();
+    }
+  }
+
+  private _runUpgradeTransaction(
+    name: string,
+    oldVersion: number,
+    requestedVersion: number,
+    request: IDBOpenDBRequest,
+    done: () => void
+  ): void {
+    if (this._failIfClosed(request, done)) return;
+    try {
+      // Create the database connection
+      const db = this._createConnection(name, requestedVersion);
+
+      // Get current store names for the upgrade transaction scope
+      const storeNames = db._schema.storeNames();
+
+      // Create versionchange transaction
+      const tx = new IDBTransaction(db, storeNames, 'versionchange' as IDBTransactionMode);
+      db._upgradeTransaction = tx;
+      request._transaction = tx;
       request._readyState = 'done';
-      request._error = err instanceof DOMException
-        ? err
-        : new DOMException(String(err), 'UnknownError');
-      const errorEvent = new Event('error', { bubbles: true, cancelable: true });
-      request.dispatchEvent(errorEvent);
+      request._result = db;
+
+      // Set up completion handling
+      db._onVersionChangeComplete = (aborted: boolean) => {
+        db._upgradeTransaction = null;
+        request._transaction = null;
+
+        if (aborted) {
+          // The connection never opened; don't wait for it to close
+          // (unless it is closing already, and will report that itself)
+          if (!db._closePending) {
+            this._forgetConnection(db);
+          }
+          // Fire error on the request
+          request._result = undefined;
+          request._error = new DOMException('The transaction was aborted.', 'AbortError');
+          const errorEvent = new Event('error', { bubbles: true, cancelable: true });
+          request.dispatchEvent(errorEvent);
+        } else {
+          // Commit the version to metadata
+          this._backend.setDatabaseVersion(name, requestedVersion);
+          this._coordinator?.markChanged(name);
+          db._version = requestedVersion;
+
+          // Per spec: if close() was called during upgrade, the connection
+          // is "close pending". The upgrade commits (complete fires), but
+          // the open request should fail with AbortError since the
+          // connection was closed before opening completed.
+          if (db._closePending) {
+            request._result = undefined;
+            request._error = new DOMException(
+              'The connection was closed.',
+              'AbortError'
+            );
+            const errorEvent = new Event('error', { bubbles: true, cancelable: true });
+            request.dispatchEvent(errorEvent);
+          } else {
+            // Add to open connections
+            this._openConnections.get(name)!.add(db);
+
+            // Fire success
+            const successEvent = new Event('success', { bubbles: false, cancelable: false });
+            request.dispatchEvent(successEvent);
+          }
+        }
+        done();
+      };
+
+      // Fire upgradeneeded event
+      const upgradeEvent = new IDBVersionChangeEvent('upgradeneeded', {
+        oldVersion,
+        newVersion: requestedVersion,
+      });
+      request.dispatchEvent(upgradeEvent);
+
+      // Per spec: if an exception was thrown during upgradeneeded dispatch, abort the transaction
+      if ((upgradeEvent as any)._exceptionThrown && !tx._aborted) {
+        tx.abort();
+        return;
+      }
+
+      // After upgradeneeded handlers run, deactivate transaction
+      // Use queueMicrotask to allow sync handlers to complete
+      queueMicrotask(() => {
+        if (tx._state === 'active' && !tx._aborted) {
+          tx._deactivate();
+          tx._maybeAutoCommit();
+        }
+      });
+    } catch (err) {
+      this._fireRequestError(request, err);
+      done();
     }
   }
 
-  private _runDeleteSteps(name: string, request: IDBOpenDBRequest): void {
+  private _fireRequestError(request: IDBOpenDBRequest, err: unknown): void {
+    request._readyState = 'done';
+    request._error = err instanceof DOMException
+      ? err
+      : new DOMException(String(err), 'UnknownError');
+    const errorEvent = new Event('error', { bubbles: true, cancelable: true });
+    request.dispatchEvent(errorEvent);
+  }
+
+  private _runDeleteSteps(name: string, request: IDBOpenDBRequest, done: () => void): void {
+    if (this._failIfClosed(request, done)) return;
     try {
       const existingVersion = this._backend.getDatabaseVersion(name);
       const dbExists = this._backend.databaseExists(name);
 
       const oldVersion = dbExists ? existingVersion : 0;
 
-      // Send versionchange events to open (non-closed) connections
-      const connections = this._openConnections.get(name);
-      if (connections) {
-        for (const conn of connections) {
-          if (conn._closePending) continue;
-          const versionChangeEvent = new IDBVersionChangeEvent('versionchange', {
-            oldVersion: conn._version,
-            newVersion: null,
-          });
-          conn.dispatchEvent(versionChangeEvent);
-        }
-      }
+      // Notify open connections and wait for them to close, so the backing
+      // file is never removed from under a live connection
+      this._waitForOtherConnections(name, oldVersion, null, request, () => {
+        this._deleteDatabase(name, oldVersion, request, done);
+      });
+    } catch (err) {
+      this._fireRequestError(request, err);
+      done();
+    }
+  }
 
-      // Delete the database
-      if (dbExists) {
+  private _deleteDatabase(name: string, oldVersion: number, request: IDBOpenDBRequest, done: () => void): void {
+    if (this._failIfClosed(request, done)) return;
+    try {
+      if (this._backend.databaseExists(name)) {
         this._backend.deleteDatabaseRecord(name);
+        this._coordinator?.markChanged(name);
       }
-
-      // Clear tracked connections
-      if (connections) {
-        connections.clear();
-      }
+      this._idleStorage.delete(name);
+      this._openConnections.delete(name);
 
       request._readyState = 'done';
       request._result = undefined;
@@ -264,13 +880,10 @@ export class IDBFactory {
         newVersion: null,
       });
       request.dispatchEvent(successEvent);
+      done();
     } catch (err) {
-      request._readyState = 'done';
-      request._error = err instanceof DOMException
-        ? err
-        : new DOMException(String(err), 'UnknownError');
-      const errorEvent = new Event('error', { bubbles: true, cancelable: true });
-      request.dispatchEvent(errorEvent);
+      this._fireRequestError(request, err);
+      done();
     }
   }
 }
@@ -1,11 +1,14 @@
 // IDBIndex implementation
 
+import { iterateCursor } from './cursor-iterator.ts';
+import type { IterateOptions } from './cursor-iterator.ts';
 import { openIndexCursor } from './IDBCursor.ts';
 import { IDBKeyRange } from './IDBKeyRange.ts';
 import { IDBRecord } from './IDBRecord.ts';
 import { IDBRequest } from './IDBRequest.ts';
 import { encodeKey, valueToKeyOrThrow, decodeKey } from './keys.ts';
 import { deserialize } from './structured-clone.ts';
+import type { StorageReader } from './storage-backend.ts';
 import type { IDBValidKey } from './types.ts';
 
 const decodeKeyFromBuffer = decodeKey;
@@ -161,10 +164,7 @@ export class IDBIndex {
     }
 
     // 4. ConstraintError if another index on the same store already has this name
-    const existingNames = txn._db._backend.getIndexNames(
-      txn._db._name,
-      this._objectStore._storeId
-    );
+    const existingNames = txn._db._schema.indexNames(this._objectStore._storeId);
     if (existingNames.includes(newName)) {
       throw new DOMException(
         `An index with the name '${newName}' already exists.`,
@@ -183,6 +183,7 @@ export class IDBIndex {
       oldName,
       newName
     );
+    txn._db._schema.invalidate();
 
     // Update in-memory state
     this._name = newName;
@@ -252,8 +253,8 @@ export class IDBIndex {
     return this._objectStore._transaction;
   }
 
-  private get _backend(): any {
-    return this._objectStore._transaction._db._backend;
+  private get _reader(): StorageReader {
+    return this._objectStore._transaction._reader;
   }
 
   private get _dbName(): string {
@@ -275,12 +276,12 @@ export class IDBIndex {
       () => {
         let resultValue: any;
         if ('exact' in range) {
-          const record = idx._backend.getRecordByIndexKey(
+          const record = idx._reader.getRecordByIndexKey(
             idx._dbName, idx._indexId, range.exact
           );
           resultValue = record ? deserialize(record.value) : undefined;
         } else {
-          const record = idx._backend.getRecordByIndexRange(
+          const record = idx._reader.getRecordByIndexRange(
             idx._dbName, idx._indexId,
             range.lower, range.upper, range.lowerOpen, range.upperOpen
           );
@@ -313,12 +314,12 @@ export class IDBIndex {
       () => {
         let resultKey: any;
         if ('exact' in range) {
-          const record = idx._backend.getRecordByIndexKey(
+          const record = idx._reader.getRecordByIndexKey(
             idx._dbName, idx._indexId, range.exact
           );
           resultKey = record ? decodeKeyFromBuffer(record.primaryKey) : undefined;
         } else {
-          const record = idx._backend.getRecordByIndexRange(
+          const record = idx._reader.getRecordByIndexRange(
             idx._dbName, idx._indexId,
             range.lower, range.upper, range.lowerOpen, range.upperOpen
           );
@@ -364,14 +365,14 @@ export class IDBIndex {
       () => {
         let cnt: number;
         if (queryParams.type === 'all') {
-          cnt = idx._backend.countIndexEntries(idx._dbName, idx._indexId);
+          cnt = idx._reader.countIndexEntries(idx._dbName, idx._indexId);
         } else if (queryParams.type === 'range') {
-          cnt = idx._backend.countIndexEntries(
+          cnt = idx._reader.countIndexEntries(
             idx._dbName, idx._indexId,
             queryParams.lower, queryParams.upper, queryParams.lowerOpen, queryParams.upperOpen
           );
         } else {
-          cnt = idx._backend.countIndexEntries(
+          cnt = idx._reader.countIndexEntries(
             idx._dbName, idx._indexId,
             queryParams.key, queryParams.key, false, false
           );
@@ -401,7 +402,7 @@ export class IDBIndex {
       () => {
         const direction = (parsed.direction as any) || 'next';
         const storeId = idx._objectStore._storeId;
-        const rows = idx._backend.getAllIndexEntries(
+        const rows = idx._reader.getAllIndexEntries(
           idx._dbName,
           idx._indexId,
           storeId,
@@ -458,7 +459,7 @@ export class IDBIndex {
       () => {
         const direction = (parsed.direction as any) || 'next';
         const storeId = idx._objectStore._storeId;
-        const rows = idx._backend.getAllIndexEntries(
+        const rows = idx._reader.getAllIndexEntries(
           idx._dbName,
           idx._indexId,
           storeId,
@@ -512,7 +513,7 @@ export class IDBIndex {
       () => {
         const direction = (parsed.direction as any) || 'next';
         const storeId = idx._objectStore._storeId;
-        const rows = idx._backend.getAllIndexEntries(
+        const rows = idx._reader.getAllIndexEntries(
           idx._dbName,
           idx._indexId,
           storeId,
@@ -572,4 +573,13 @@ export class IDBIndex {
     }
     return openIndexCursor(this, this._transaction, query, dir, true);
   }
+
+  /**
+   * Non-standard: iterate the records in an index key or key range with
+   * `for await`. As with IDBObjectStore.iterate(), the transaction stays
+   * open until the loop is done, or stalls for a second.
+   */
+  iterate(query?: any, options?: IterateOptions): AsyncIterableIterator<IDBRecord> {
+    return iterateCursor(this.openCursor(query, options?.direction));
+  }
 }
@@ -1,23 +1,39 @@
 // IDBObjectStore implementation
 
 import { DOMStringList } from './DOMStringList.ts';
+import { iterateCursor } from './cursor-iterator.ts';
+import type { IterateOptions } from './cursor-iterator.ts';
 import { openObjectStoreCursor } from './IDBCursor.ts';
 import { IDBIndex } from './IDBIndex.ts';
 import { IDBKeyRange } from './IDBKeyRange.ts';
 import { IDBRecord } from './IDBRecord.ts';
 import { IDBRequest } from './IDBRequest.ts';
-import { encodeKey, valueToKey, valueToKeyOrThrow, decodeKey } from './keys.ts';
-import { serialize, deserialize, cloneValue } from './structured-clone.ts';
+import { encodeKey, valueToKeyOrThrow, decodeKey } from './keys.ts';
+import { serialize, deserialize, cloneValue, readBlobs } from './structured-clone.ts';
+import type { BlobBytes } from './structured-clone.ts';
 import {
   isValidKeyPath, isValidKeyPathString,
   extractKeyFromValue, evaluateKeyPath, evaluateKeyPathDetailed,
-  evaluateKeyPathRaw, KEY_NOT_VALID,
-  injectKeyIntoValue, canInjectKey,
+  KEY_NOT_VALID,
+  injectKeyIntoValue, canInjectKey, indexKeysForValue,
 } from './keypath.ts';
+import type { IndexMetadata, RecordWrite } from './storage-backend.ts';
 import type { IDBValidKey } from './types.ts';
 
 export { isValidKeyPath } from './keypath.ts';
 
+/** A value ready for put/add (see _prepareValue) */
+interface PreparedValue {
+  clonedValue: any;
+  // Null until the Blobs in the value have been read
+  serializedValue: Buffer | null;
+  effectiveKey: IDBValidKey;
+  blobBytes: BlobBytes;
+  // Resolves (never rejects) once the Blobs have been read, or failed to be
+  ready: Promise<void> | null;
+  error: DOMException | null;
+}
+
 /**
  * Validate a count parameter per WebIDL [EnforceRange] for unsigned long.
  * Returns undefined if no count (meaning "all"), or a valid unsigned long.
@@ -127,10 +143,7 @@ export class IDBObjectStore {
     this._name = name;
 
     // Load metadata from backend
-    const meta = transaction._db._backend.getObjectStoreMetadata(
-      transaction._db._name,
-      name
-    );
+    const meta = transaction._db._schema.store(name);
     if (!meta) {
       throw new DOMException(
         `Object store '${name}' not found`,
@@ -183,7 +196,7 @@ export class IDBObjectStore {
     }
 
     // 4. ConstraintError if another store already has this name
-    const existingNames = txn._db._backend.getObjectStoreNames(txn._db._name);
+    const existingNames = txn._db._schema.storeNames();
     if (existingNames.includes(newName)) {
       throw new DOMException(
         `An object store with the name '${newName}' already exists.`,
@@ -197,6 +210,7 @@ export class IDBObjectStore {
 
     // Update in SQLite
     txn._db._backend.renameObjectStore(txn._db._name, oldName, newName);
+    txn._db._schema.invalidate();
 
     // Update in-memory state
     this._name = newName;
@@ -229,10 +243,7 @@ export class IDBObjectStore {
 
   get indexNames(): DOMStringList {
     if (!this._indexNamesCache) {
-      const names = this._transaction._db._backend.getIndexNames(
-        this._transaction._db._name,
-        this._storeId
-      );
+      const names = this._transaction._db._schema.indexNames(this._storeId);
       this._indexNamesCache = new DOMStringList(names);
     }
     return this._indexNamesCache;
@@ -254,74 +265,168 @@ export class IDBObjectStore {
     return this._addOrPut(value, key, true);
   }
 
-  private _addOrPut(value: any, key: any, noOverwrite: boolean): IDBRequest {
+  /**
+   * Non-standard: put many records with one request. `keys`, if given, holds
+   * the out-of-line key for each value. Succeeds with the keys in order, or
+   * fails as a whole (writing nothing) if any put would fail.
+   */
+  putAll(values: Iterable<any>, keys?: Iterable<any>): IDBRequest {
+    return this._addOrPutAll(values, keys, false);
+  }
+
+  /** Non-standard: add() many records with one request; see putAll() */
+  addAll(values: Iterable<any>, keys?: Iterable<any>): IDBRequest {
+    return this._addOrPutAll(values, keys, true);
+  }
+
+  private _addOrPutAll(values: Iterable<any>, keys: Iterable<any> | undefined, noOverwrite: boolean): IDBRequest {
     this._ensureValid();
     if (this._transaction._mode === 'readonly') {
       throw new DOMException('The transaction is read-only.', 'ReadOnlyError');
     }
 
-    // Per spec: clone the value using structured clone BEFORE key path evaluation.
-    // The transaction should be temporarily inactive during cloning.
-    const savedState = this._transaction._state;
-    this._transaction._state = 'inactive_clone';
-    let clonedValue: any;
-    let serializedValue: Buffer;
-    try {
-      // Use structuredClone() for the clone (triggers getters, handles circular refs)
-      clonedValue = cloneValue(value);
-      // Serialize the cloned value for storage
-      serializedValue = serialize(clonedValue) as Buffer;
-    } catch (e: any) {
-      this._transaction._state = savedState;
-      // Re-throw any error: DataCloneError for non-cloneable types,
-      // or the original error from enumerable getters during clone
-      throw e;
+    const valueList = [...values];
+    const keyList = keys === undefined ? undefined : [...keys];
+    if (keyList && keyList.length !== valueList.length) {
+      throw new TypeError('The keys argument must have one key per value.');
     }
-    this._transaction._state = savedState;
+    const items = valueList.map((value, i) => this._prepareValue(value, keyList?.[i]));
+    const reads = items.filter((item) => item.ready !== null).map((item) => item.ready);
 
-    // Key extraction and validation happens on the CLONE (per spec)
-    let effectiveKey: IDBValidKey;
+    const request = this._transaction._createRequest(this);
+    const store = this;
+    const storeId = this._storeId;
+    const keyPathForAutoInc = this._keyPath;
+    const autoIncrement = this._autoIncrement;
 
-    if (this._keyPath !== null) {
-      if (key !== undefined) {
-        throw new DOMException(
-          'An object store that uses in-line keys cannot have a key argument',
-          'DataError'
-        );
-      }
-      // Use detailed evaluation to distinguish "not found" from "found but not a valid key"
-      const keyPathStr = typeof this._keyPath === 'string' ? this._keyPath : null;
-      const extracted = extractKeyFromValue(clonedValue, this._keyPath);
-      // Check if any sub-path resolved to a non-key value
-      const hasInvalidKey = keyPathStr !== null
-        ? evaluateKeyPathDetailed(clonedValue, keyPathStr) === KEY_NOT_VALID
-        : (Array.isArray(this._keyPath) && this._keyPath.some(p => evaluateKeyPathDetailed(clonedValue, p) === KEY_NOT_VALID));
-      if (hasInvalidKey) {
-        // Key path resolved but value is not a valid key — always DataError
-        throw new DOMException('The key is not a valid key.', 'DataError');
-      }
-      if (extracted !== null) {
-        effectiveKey = extracted;
-      } else if (this._autoIncrement) {
-        // Check that key can be injected before deferring generation
-        if (!canInjectKey(clonedValue, this._keyPath as string)) {
-          throw new DOMException(
-            'A key could not be injected into the value.',
-            'DataError'
-          );
+    this._transaction._queueOperation(
+      () => {
+        const unread = items.find((item) => item.error !== null);
+        if (unread) {
+          request._readyState = 'done';
+          request._error = unread.error;
+          request._constraintError = true;
+          return;
         }
-        effectiveKey = null as any; // placeholder — generated at operation time
-      } else {
-        throw new DOMException('No key could be extracted from the value', 'DataError');
-      }
-    } else if (key !== undefined) {
-      effectiveKey = valueToKeyOrThrow(key);
-    } else if (this._autoIncrement) {
-      effectiveKey = null as any; // placeholder
-    } else {
-      throw new DOMException('No key provided and object store has no key path', 'DataError');
+        store._transaction._ensureSavepoint();
+        const backend = store._transaction._backend;
+        const dbName = store._transaction._db._name;
+        const indexes: readonly IndexMetadata[] = store._transaction._db._schema.indexes(storeId);
+
+        // Check every put as if they ran one after another, before writing
+        // any, so that the batch succeeds or fails as a whole
+        const startKey = autoIncrement ? store._keyGenerator : 0;
+        let currentKey = startKey;
+        const written = new Set<string>(); // Primary keys, as hex
+        // Unique index keys held by records written so far: index id -> key -> primary key
+        const owners = new Map<number, Map<string, string>>();
+        const ownedKeys = new Map<string, Array<[number, string]>>();
+        const records: RecordWrite[] = [];
+        let failure: string | null = null;
+
+        for (const item of items) {
+          if (item.effectiveKey === null && autoIncrement) {
+            if (currentKey >= IDBObjectStore.MAX_KEY_GENERATOR_VALUE) {
+              failure = 'Key generator has reached its maximum value';
+              break;
+            }
+            item.effectiveKey = currentKey + 1;
+            if (keyPathForAutoInc !== null) {
+              injectKeyIntoValue(item.clonedValue, keyPathForAutoInc, item.effectiveKey);
+              item.serializedValue = serialize(item.clonedValue, item.blobBytes) as Buffer;
+            }
+          }
+          const encodedKey = encodeKey(item.effectiveKey);
+          const hexKey = Buffer.from(encodedKey).toString('hex');
+
+          if (noOverwrite && (written.has(hexKey) || backend.getRecord(dbName, storeId, encodedKey))) {
+            failure = 'A record with the given key already exists';
+            break;
+          }
+
+          // A record written earlier in the batch gives up its index keys
+          for (const [indexId, indexKey] of ownedKeys.get(hexKey) ?? []) {
+            owners.get(indexId)!.delete(indexKey);
+          }
+          const indexEntries: RecordWrite['indexEntries'] = [];
+          const owned: Array<[number, string]> = [];
+          for (const idx of indexes) {
+            // Each key of a multiEntry index is an entry of its own
+            for (const encodedIndexKey of indexKeysForValue(item.clonedValue, idx.keyPath, idx.multiEntry)) {
+              indexEntries.push({ indexId: idx.id, key: encodedIndexKey });
+              if (!idx.unique) continue;
+              const hexIndexKey = Buffer.from(encodedIndexKey).toString('hex');
+              let indexOwners = owners.get(idx.id);
+              if (!indexOwners) {
+                indexOwners = new Map();
+                owners.set(idx.id, indexOwners);
+              }
+              let taken = indexOwners.has(hexIndexKey);
+              if (!taken) {
+                // Stored entries of records rewritten in the batch are stale
+                const stored = backend.getRecordByIndexKey(dbName, idx.id, encodedIndexKey);
+                const storedKey = stored && Buffer.from(stored.primaryKey).toString('hex');
+                taken = storedKey !== null && !written.has(storedKey) && (noOverwrite || storedKey !== hexKey);
+              }
+              if (taken) {
+                failure = 'A record with the given index key already exists';
+                break;
+              }
+              indexOwners.set(hexIndexKey, hexKey);
+              owned.push([idx.id, hexIndexKey]);
+            }
+            if (failure !== null) break;
+          }
+          if (failure !== null) break;
+          ownedKeys.set(hexKey, owned);
+          written.add(hexKey);
+          records.push({ key: encodedKey, value: item.serializedValue!, indexEntries });
+
+          if (autoIncrement && typeof item.effectiveKey === 'number') {
+            currentKey = IDBObjectStore._nextGeneratorValue(currentKey, item.effectiveKey);
+          }
+        }
+
+        if (failure !== null) {
+          request._readyState = 'done';
+          request._error = new DOMException(failure, 'ConstraintError');
+          request._constraintError = true;
+          return;
+        }
+
+        backend.putRecords(dbName, storeId, records);
+        if (currentKey !== startKey) {
+          backend.updateCurrentKey(dbName, storeId, currentKey);
+        }
+
+        request._readyState = 'done';
+        request._result = items.map((item) => item.effectiveKey);
+      },
+      () => {
+        if (request._constraintError) {
+          const event = new Event('error', { bubbles: true, cancelable: true });
+          store._transaction._dispatchRequestEvent(request, event);
+        } else {
+          const event = new Event('success', { bubbles: false, cancelable: false });
+          store._transaction._dispatchRequestEvent(request, event);
+        }
+      },
+      reads.length > 0 ? Promise.all(reads).then(() => {}) : undefined
+    );
+
+    return request;
+  }
+
+  private _addOrPut(value: any, key: any, noOverwrite: boolean): IDBRequest {
+    this._ensureValid();
+    if (this._transaction._mode === 'readonly') {
+      throw new DOMException('The transaction is read-only.', 'ReadOnlyError');
     }
 
+    const prepared = this._prepareValue(value, key);
+    let clonedValue = prepared.clonedValue;
+    let effectiveKey = prepared.effectiveKey;
+
     const request = this._transaction._createRequest(this);
 
     // Capture values needed for deferred execution
@@ -333,7 +438,14 @@ export class IDBObjectStore {
     this._transaction._queueOperation(
       () => {
         // === SQLite operation (may be deferred) ===
+        if (prepared.error) {
+          request._readyState = 'done';
+          request._error = prepared.error;
+          request._constraintError = true;
+          return;
+        }
         store._transaction._ensureSavepoint();
+        let serializedValue = prepared.serializedValue!;
 
         // Handle auto-increment key generation at operation time
         if (effectiveKey === null && autoIncrement) {
@@ -352,43 +464,40 @@ export class IDBObjectStore {
           if (keyPathForAutoInc !== null) {
             // Inject into the clone and re-serialize
             injectKeyIntoValue(clonedValue, keyPathForAutoInc, effectiveKey);
-            serializedValue = serialize(clonedValue) as Buffer;
+            serializedValue = serialize(clonedValue, prepared.blobBytes) as Buffer;
           }
         }
 
         const encodedKey = encodeKey(effectiveKey);
 
         // Check for unique index constraints
-        const indexes = store._transaction._db._backend.getIndexesForStore(
-          store._transaction._db._name,
-          storeId
-        );
+        const indexes = store._transaction._db._schema.indexes(storeId);
 
         for (const idx of indexes) {
           if (!idx.unique) continue;
-          const indexKeyValue = extractKeyFromValue(clonedValue, idx.keyPath);
-          if (indexKeyValue === null) continue;
-          const encodedIndexKey = encodeKey(indexKeyValue);
-          const excludeKey = noOverwrite ? undefined : encodedKey;
-          if (store._transaction._db._backend.checkUniqueIndexConstraint(
-            store._transaction._db._name,
-            idx.id,
-            encodedIndexKey,
-            excludeKey
-          )) {
-            request._readyState = 'done';
-            request._error = new DOMException(
-              'A record with the given index key already exists',
-              'ConstraintError'
-            );
-            request._constraintError = true;
-            return;
+          // Each key of a multiEntry index is checked on its own
+          for (const encodedIndexKey of indexKeysForValue(clonedValue, idx.keyPath, idx.multiEntry)) {
+            const excludeKey = noOverwrite ? undefined : encodedKey;
+            if (store._transaction._backend.checkUniqueIndexConstraint(
+              store._transaction._db._name,
+              idx.id,
+              encodedIndexKey,
+              excludeKey
+            )) {
+              request._readyState = 'done';
+              request._error = new DOMException(
+                'A record with the given index key already exists',
+                'ConstraintError'
+              );
+              request._constraintError = true;
+              return;
+            }
           }
         }
 
         // Check for existing key if noOverwrite
         if (noOverwrite) {
-          const existing = store._transaction._db._backend.getRecord(
+          const existing = store._transaction._backend.getRecord(
             store._transaction._db._name,
             storeId,
             encodedKey
@@ -406,7 +515,7 @@ export class IDBObjectStore {
 
         // Delete old index entries if replacing
         if (!noOverwrite) {
-          store._transaction._db._backend.deleteIndexEntriesForRecord(
+          store._transaction._backend.deleteIndexEntriesForRecord(
             store._transaction._db._name,
             storeId,
             encodedKey
@@ -414,7 +523,7 @@ export class IDBObjectStore {
         }
 
         // Write the record
-        store._transaction._db._backend.putRecord(
+        store._transaction._backend.putRecord(
           store._transaction._db._name,
           storeId,
           encodedKey,
@@ -441,12 +550,99 @@ export class IDBObjectStore {
           const event = new Event('success', { bubbles: false, cancelable: false });
           store._transaction._dispatchRequestEvent(request, event);
         }
-      }
+      },
+      prepared.ready ?? undefined
     );
 
     return request;
   }
 
+  /**
+   * Clone and serialize a value for put/add and work out its key. The key is
+   * null when the key generator is to supply it at operation time. Blob bytes
+   * can only be read asynchronously: a value holding Blobs is serialized once
+   * `ready` resolves, and the operation waits for that.
+   */
+  private _prepareValue(value: any, key: any): PreparedValue {
+    // Per spec: clone the value using structured clone BEFORE key path evaluation.
+    // The transaction should be temporarily inactive during cloning.
+    const savedState = this._transaction._state;
+    this._transaction._state = 'inactive_clone';
+    let clonedValue: any;
+    let serializedValue: Buffer | null = null;
+    const blobs: Blob[] = [];
+    try {
+      // Use structuredClone() for the clone (triggers getters, handles circular refs)
+      clonedValue = cloneValue(value, blobs);
+      // Serialize the cloned value for storage
+      if (blobs.length === 0) serializedValue = serialize(clonedValue) as Buffer;
+    } catch (e: any) {
+      this._transaction._state = savedState;
+      // Re-throw any error: DataCloneError for non-cloneable types,
+      // or the original error from enumerable getters during clone
+      throw e;
+    }
+    this._transaction._state = savedState;
+
+    // Key extraction and validation happens on the CLONE (per spec)
+    let effectiveKey: IDBValidKey;
+
+    if (this._keyPath !== null) {
+      if (key !== undefined) {
+        throw new DOMException(
+          'An object store that uses in-line keys cannot have a key argument',
+          'DataError'
+        );
+      }
+      // Use detailed evaluation to distinguish "not found" from "found but not a valid key"
+      const keyPathStr = typeof this._keyPath === 'string' ? this._keyPath : null;
+      const extracted = extractKeyFromValue(clonedValue, this._keyPath);
+      // Check if any sub-path resolved to a non-key value
+      const hasInvalidKey = keyPathStr !== null
+        ? evaluateKeyPathDetailed(clonedValue, keyPathStr) === KEY_NOT_VALID
+        : (Array.isArray(this._keyPath) && this._keyPath.some(p => evaluateKeyPathDetailed(clonedValue, p) === KEY_NOT_VALID));
+      if (hasInvalidKey) {
+        // Key path resolved but value is not a valid key — always DataError
+        throw new DOMException('The key is not a valid key.', 'DataError');
+      }
+      if (extracted !== null) {
+        effectiveKey = extracted;
+      } else if (this._autoIncrement) {
+        // Check that key can be injected before deferring generation
+        if (!canInjectKey(clonedValue, this._keyPath as string)) {
+          throw new DOMException(
+            'A key could not be injected into the value.',
+            'DataError'
+          );
+        }
+        effectiveKey = null as any; // placeholder — generated at operation time
+      } else {
+        throw new DOMException('No key could be extracted from the value', 'DataError');
+      }
+    } else if (key !== undefined) {
+      effectiveKey = valueToKeyOrThrow(key);
+    } else if (this._autoIncrement) {
+      effectiveKey = null as any; // placeholder
+    } else {
+      throw new DOMException('No key provided and object store has no key path', 'DataError');
+    }
+
+    const prepared: PreparedValue = {
+      clonedValue, serializedValue, effectiveKey, blobBytes: new Map(), ready: null, error: null,
+    };
+    if (blobs.length > 0) {
+      prepared.ready = (async () => {
+        try {
+          prepared.blobBytes = await readBlobs(blobs);
+          prepared.serializedValue = serialize(clonedValue, prepared.blobBytes) as Buffer;
+        } catch (e: any) {
+          prepared.error = e instanceof DOMException ? e : new DOMException('The Blob could not be read.', 'NotReadableError');
+        }
+      })();
+    }
+    return prepared;
+  }
+
   get(query: any): IDBRequest {
     this._ensureValid();
 
@@ -459,14 +655,14 @@ export class IDBObjectStore {
       () => {
         let resultValue: any;
         if ('exact' in range) {
-          const raw = store._transaction._db._backend.getRecord(
+          const raw = store._transaction._reader.getRecord(
             store._transaction._db._name,
             storeId,
             range.exact
           );
           resultValue = raw ? deserialize(raw) : undefined;
         } else {
-          const record = store._transaction._db._backend.getRecordInRange(
+          const record = store._transaction._reader.getRecordInRange(
             store._transaction._db._name,
             storeId,
             range.lower,
@@ -503,7 +699,7 @@ export class IDBObjectStore {
     this._transaction._queueOperation(
       () => {
         if ('exact' in range) {
-          const raw = store._transaction._db._backend.getRecord(
+          const raw = store._transaction._reader.getRecord(
             store._transaction._db._name,
             storeId,
             range.exact
@@ -511,7 +707,7 @@ export class IDBObjectStore {
           request._readyState = 'done';
           request._result = raw ? valueToKeyOrThrow(query) : undefined;
         } else {
-          const record = store._transaction._db._backend.getRecordInRange(
+          const record = store._transaction._reader.getRecordInRange(
             store._transaction._db._name,
             storeId,
             range.lower,
@@ -551,18 +747,18 @@ export class IDBObjectStore {
       () => {
         store._transaction._ensureSavepoint();
         if ('exact' in range) {
-          store._transaction._db._backend.deleteIndexEntriesForRecord(
+          store._transaction._backend.deleteIndexEntriesForRecord(
             store._transaction._db._name,
             storeId,
             range.exact
           );
-          store._transaction._db._backend.deleteRecord(
+          store._transaction._backend.deleteRecord(
             store._transaction._db._name,
             storeId,
             range.exact
           );
         } else {
-          store._transaction._db._backend.deleteRecordsInRange(
+          store._transaction._backend.deleteRecordsInRange(
             store._transaction._db._name,
             storeId,
             range.lower,
@@ -583,6 +779,40 @@ export class IDBObjectStore {
     return request;
   }
 
+  /** Non-standard: delete the records with the given keys, with one request */
+  deleteMany(keys: Iterable<any>): IDBRequest {
+    this._ensureValid();
+    if (this._transaction._mode === 'readonly') {
+      throw new DOMException('The transaction is read-only.', 'ReadOnlyError');
+    }
+
+    const encodedKeys = [...keys].map((key) => encodeKey(valueToKeyOrThrow(key)));
+    const request = this._transaction._createRequest(this);
+    const store = this;
+    const storeId = this._storeId;
+
+    this._transaction._queueOperation(
+      () => {
+        store._transaction._ensureSavepoint();
+        const backend = store._transaction._backend;
+        const dbName = store._transaction._db._name;
+        const hasIndexes = store._transaction._db._schema.indexes(storeId).length > 0;
+        for (const encodedKey of encodedKeys) {
+          if (hasIndexes) backend.deleteIndexEntriesForRecord(dbName, storeId, encodedKey);
+          backend.deleteRecord(dbName, storeId, encodedKey);
+        }
+        request._readyState = 'done';
+        request._result = undefined;
+      },
+      () => {
+        const event = new Event('success', { bubbles: false, cancelable: false });
+        store._transaction._dispatchRequestEvent(request, event);
+      }
+    );
+
+    return request;
+  }
+
   clear(): IDBRequest {
     this._ensureValid();
     if (this._transaction._mode === 'readonly') {
@@ -596,7 +826,7 @@ export class IDBObjectStore {
     this._transaction._queueOperation(
       () => {
         store._transaction._ensureSavepoint();
-        store._transaction._db._backend.clearRecords(
+        store._transaction._backend.clearRecords(
           store._transaction._db._name,
           storeId
         );
@@ -640,12 +870,12 @@ export class IDBObjectStore {
       () => {
         let cnt: number;
         if (queryParams.type === 'all') {
-          cnt = store._transaction._db._backend.countRecords(
+          cnt = store._transaction._reader.countRecords(
             store._transaction._db._name,
             storeId
           );
         } else if (queryParams.type === 'range') {
-          cnt = store._transaction._db._backend.countRecords(
+          cnt = store._transaction._reader.countRecords(
             store._transaction._db._name,
             storeId,
             queryParams.lower,
@@ -654,7 +884,7 @@ export class IDBObjectStore {
             queryParams.upperOpen
           );
         } else {
-          cnt = store._transaction._db._backend.countRecords(
+          cnt = store._transaction._reader.countRecords(
             store._transaction._db._name,
             storeId,
             queryParams.key,
@@ -695,10 +925,7 @@ export class IDBObjectStore {
     }
 
     // Check for duplicate index name (before keyPath validation per spec exception ordering)
-    const existingNames = this._transaction._db._backend.getIndexNames(
-      this._transaction._db._name,
-      this._storeId
-    );
+    const existingNames = this._transaction._db._schema.indexNames(this._storeId);
     if (existingNames.includes(name)) {
       throw new DOMException(
         `An index with name '${name}' already exists`,
@@ -724,7 +951,7 @@ export class IDBObjectStore {
     const multiEntry = options?.multiEntry ?? false;
 
     this._transaction._ensureSavepoint();
-    const indexId = this._transaction._db._backend.createIndex(
+    const indexId = this._transaction._backend.createIndex(
       this._transaction._db._name,
       this._storeId,
       name,
@@ -732,6 +959,7 @@ export class IDBObjectStore {
       unique,
       multiEntry
     );
+    this._transaction._db._schema.invalidate();
 
     // Populate index with existing records.
     // If unique constraint is violated, abort the transaction asynchronously.
@@ -773,11 +1001,12 @@ export class IDBObjectStore {
     this._ensureValid();
 
     this._transaction._ensureSavepoint();
-    this._transaction._db._backend.deleteIndex(
+    this._transaction._backend.deleteIndex(
       this._transaction._db._name,
       this._storeId,
       name
     );
+    this._transaction._db._schema.invalidate();
 
     // Mark cached IDBIndex as deleted
     const cached = this._indexCache.get(name);
@@ -791,11 +1020,7 @@ export class IDBObjectStore {
       this._indexCache.delete(name);
     } else {
       // Index not cached yet — create a reference and track it
-      const meta = this._transaction._db._backend.getIndexMetadata(
-        this._transaction._db._name,
-        this._storeId,
-        name
-      );
+      const meta = this._transaction._db._schema.index(this._storeId, name);
       if (meta) {
         const idx = new IDBIndex(this, name, meta.id, meta.keyPath, meta.unique, meta.multiEntry);
         idx._deleted = true;
@@ -825,6 +1050,17 @@ export class IDBObjectStore {
     return openObjectStoreCursor(this, this._transaction, query, dir, true);
   }
 
+  /**
+   * Non-standard: iterate the records in a key or key range with `for await`.
+   * The cursor reads ahead of the loop body, by up to 100 records when the
+   * body awaits, and the transaction stays open until the loop has read its
+   * last record or ended early, or has left a full read-ahead untouched for
+   * a second.
+   */
+  iterate(query?: any, options?: IterateOptions): AsyncIterableIterator<IDBRecord> {
+    return iterateCursor(this.openCursor(query, options?.direction));
+  }
+
   index(name: string): IDBIndex {
     // Per spec: index() throws InvalidStateError if transaction is finished
     // (different from other operations which throw TransactionInactiveError)
@@ -842,11 +1078,7 @@ export class IDBObjectStore {
       return cached;
     }
 
-    const meta = this._transaction._db._backend.getIndexMetadata(
-      this._transaction._db._name,
-      this._storeId,
-      name
-    );
+    const meta = this._transaction._db._schema.index(this._storeId, name);
     if (!meta) {
       throw new DOMException(
         `No index named '${name}' in this object store`,
@@ -872,7 +1104,7 @@ export class IDBObjectStore {
     this._transaction._queueOperation(
       () => {
         const direction = (parsed.direction as any) || 'next';
-        const rows = store._transaction._db._backend.getAllRecords(
+        const rows = store._transaction._reader.getAllRecords(
           store._transaction._db._name,
           storeId,
           parsed.lower,
@@ -911,7 +1143,7 @@ export class IDBObjectStore {
     this._transaction._queueOperation(
       () => {
         const direction = (parsed.direction as any) || 'next';
-        const rows = store._transaction._db._backend.getAllRecords(
+        const rows = store._transaction._reader.getAllRecords(
           store._transaction._db._name,
           storeId,
           parsed.lower,
@@ -949,7 +1181,7 @@ export class IDBObjectStore {
     this._transaction._queueOperation(
       () => {
         const direction = (parsed.direction as any) || 'next';
-        const rows = store._transaction._db._backend.getAllRecords(
+        const rows = store._transaction._reader.getAllRecords(
           store._transaction._db._name,
           storeId,
           parsed.lower,
@@ -1000,11 +1232,7 @@ export class IDBObjectStore {
   static readonly MAX_KEY_GENERATOR_VALUE = 9007199254740992; // 2^53
 
   _nextKey(): number | null {
-    const meta = this._transaction._db._backend.getObjectStoreMetadata(
-      this._transaction._db._name,
-      this._name
-    );
-    const currentKey = meta?.currentKey ?? 0;
+    const currentKey = this._keyGenerator;
     // Per spec: if current number is greater than or equal to 2^53, return failure
     if (currentKey >= IDBObjectStore.MAX_KEY_GENERATOR_VALUE) {
       return null;
@@ -1014,32 +1242,58 @@ export class IDBObjectStore {
     return currentKey + 1;
   }
 
-  private _maybeUpdateKeyGenerator(key: number): void {
-    if (!this._autoIncrement) return;
+  /**
+   * The key generator's current number, as this transaction reads it.
+   * Setting it queues the change as a request would (used by
+   * importDatabase()).
+   */
+  get _keyGenerator(): number {
+    const meta = this._transaction._reader.getObjectStoreMetadata(
+      this._transaction._db._name,
+      this._name
+    );
+    return meta?.currentKey ?? 0;
+  }
+
+  set _keyGenerator(currentKey: number) {
+    this._ensureValid();
+    const store = this;
+    this._transaction._queueOperation(
+      () => {
+        store._transaction._ensureSavepoint();
+        store._transaction._backend.updateCurrentKey(
+          store._transaction._db._name,
+          store._storeId,
+          currentKey
+        );
+      },
+      () => {}
+    );
+  }
+
+  /** The key generator's number after a record with `key` is stored */
+  static _nextGeneratorValue(currentKey: number, key: number): number {
     // Per spec: if key is NaN, do nothing
-    if (Number.isNaN(key)) return;
+    if (Number.isNaN(key)) return currentKey;
     // Infinity and -Infinity are handled: Infinity should max out the generator,
     // -Infinity is < 1 so it does nothing.
     if (key === Infinity) {
       // Max out the key generator — future generation will fail
-      this._transaction._db._backend.updateCurrentKey(
-        this._transaction._db._name,
-        this._storeId,
-        IDBObjectStore.MAX_KEY_GENERATOR_VALUE
-      );
-      return;
+      return IDBObjectStore.MAX_KEY_GENERATOR_VALUE;
     }
-    if (!Number.isFinite(key)) return; // -Infinity
+    if (!Number.isFinite(key)) return currentKey; // -Infinity
     const floorKey = Math.floor(key);
-    if (floorKey < 1) return;
-    const meta = this._transaction._db._backend.getObjectStoreMetadata(
-      this._transaction._db._name,
-      this._name
-    );
-    if (meta && floorKey >= meta.currentKey) {
-      // Cap at 2^53 — any value >= 2^53 will cause future generation to fail
-      const newKey = Math.min(floorKey, IDBObjectStore.MAX_KEY_GENERATOR_VALUE);
-      this._transaction._db._backend.updateCurrentKey(
+    if (floorKey < 1 || floorKey < currentKey) return currentKey;
+    // Cap at 2^53 — any value >= 2^53 will cause future generation to fail
+    return Math.min(floorKey, IDBObjectStore.MAX_KEY_GENERATOR_VALUE);
+  }
+
+  private _maybeUpdateKeyGenerator(key: number): void {
+    if (!this._autoIncrement) return;
+    const currentKey = this._keyGenerator;
+    const newKey = IDBObjectStore._nextGeneratorValue(currentKey, key);
+    if (newKey !== currentKey) {
+      this._transaction._backend.updateCurrentKey(
         this._transaction._db._name,
         this._storeId,
         newKey
@@ -1052,55 +1306,18 @@ export class IDBObjectStore {
     return extractKeyFromValue(value, keyPath);
   }
 
-  private _evaluateKeyPathRaw(value: any, keyPath: string): any {
-    return evaluateKeyPathRaw(value, keyPath);
-  }
-
   _injectKeyIntoValue(value: any, keyPath: string | string[], key: IDBValidKey): any {
     return injectKeyIntoValue(value, keyPath, key);
   }
 
   /** Add index entries for a record */
-  private _addIndexEntries(indexes: any[], value: any, encodedKey: Uint8Array): void {
+  private _addIndexEntries(indexes: readonly any[], value: any, encodedKey: Uint8Array): void {
     for (const idx of indexes) {
-      if (idx.multiEntry && typeof idx.keyPath === 'string') {
-        const rawValue = this._evaluateKeyPathRaw(value, idx.keyPath);
-        if (rawValue === undefined || rawValue === null) continue;
-        if (Array.isArray(rawValue)) {
-          const seen = new Set<string>();
-          for (const item of rawValue) {
-            const k = valueToKey(item);
-            if (k === null) continue;
-            const encoded = encodeKey(k);
-            const encodedStr = Buffer.from(encoded).toString('hex');
-            if (seen.has(encodedStr)) continue;
-            seen.add(encodedStr);
-            this._transaction._db._backend.addIndexEntry(
-              this._transaction._db._name,
-              idx.id,
-              encoded,
-              encodedKey
-            );
-          }
-        } else {
-          const k = valueToKey(rawValue);
-          if (k === null) continue;
-          const encodedIndexKey = encodeKey(k);
-          this._transaction._db._backend.addIndexEntry(
-            this._transaction._db._name,
-            idx.id,
-            encodedIndexKey,
-            encodedKey
-          );
-        }
-      } else {
-        const indexKeyValue = this._extractKeyFromValue(value, idx.keyPath);
-        if (indexKeyValue === null) continue;
-        const encodedIndexKey = encodeKey(indexKeyValue);
-        this._transaction._db._backend.addIndexEntry(
+      for (const indexKey of indexKeysForValue(value, idx.keyPath, idx.multiEntry)) {
+        this._transaction._backend.addIndexEntry(
           this._transaction._db._name,
           idx.id,
-          encodedIndexKey,
+          indexKey,
           encodedKey
         );
       }
@@ -1108,77 +1325,27 @@ export class IDBObjectStore {
   }
 
   private _populateIndex(indexId: number, keyPath: string | string[], unique: boolean, multiEntry: boolean): void {
-    const db = this._transaction._db._backend.getDatabase(this._transaction._db._name);
-    const rows = db.prepare(
-      'SELECT key, value FROM records WHERE object_store_id = ?'
-    ).all(this._storeId) as Array<{ key: Buffer; value: Buffer }>;
-
-    for (const row of rows) {
-      const value = deserialize(row.value);
-
-      if (multiEntry && typeof keyPath === 'string') {
-        const rawValue = this._evaluateKeyPathRaw(value, keyPath);
-        if (rawValue === undefined || rawValue === null) continue;
-        if (Array.isArray(rawValue)) {
-          const seen = new Set<string>();
-          for (const item of rawValue) {
-            const k = valueToKey(item);
-            if (k === null) continue;
-            const encoded = encodeKey(k);
-            const encodedStr = Buffer.from(encoded).toString('hex');
-            if (seen.has(encodedStr)) continue;
-            seen.add(encodedStr);
-            this._transaction._db._backend.addIndexEntry(
-              this._transaction._db._name,
-              indexId,
-              encoded,
-              row.key
-            );
-          }
-          continue;
-        }
-        // Single value
-        const k = valueToKey(rawValue);
-        if (k === null) continue;
+    const backend = this._transaction._backend;
+    const dbName = this._transaction._db._name;
+    // Collect the entries first: the records are read while iterated, and
+    // the new index is empty, so duplicates are found among these alone
+    const entries: Array<{ key: Uint8Array; primaryKey: Buffer }> = [];
+    const seen = new Set<string>();
+    for (const record of backend.iterateRecords(dbName, this._storeId)) {
+      for (const key of indexKeysForValue(deserialize(record.value), keyPath, multiEntry)) {
         if (unique) {
-          if (this._transaction._db._backend.checkUniqueIndexConstraint(
-            this._transaction._db._name,
-            indexId,
-            encodeKey(k)
-          )) {
+          const hex = Buffer.from(key).toString('hex');
+          if (seen.has(hex)) {
             throw new DOMException('Unique constraint violated when populating index', 'ConstraintError');
           }
+          seen.add(hex);
         }
-        this._transaction._db._backend.addIndexEntry(
-          this._transaction._db._name,
-          indexId,
-          encodeKey(k),
-          row.key
-        );
-        continue;
-      }
-
-      const indexKeyValue = this._extractKeyFromValue(value, keyPath);
-      if (indexKeyValue === null) continue;
-
-      {
-        if (unique) {
-          if (this._transaction._db._backend.checkUniqueIndexConstraint(
-            this._transaction._db._name,
-            indexId,
-            encodeKey(indexKeyValue)
-          )) {
-            throw new DOMException('Unique constraint violated when populating index', 'ConstraintError');
-          }
-        }
-        this._transaction._db._backend.addIndexEntry(
-          this._transaction._db._name,
-          indexId,
-          encodeKey(indexKeyValue),
-          row.key
-        );
+        entries.push({ key, primaryKey: record.key });
       }
     }
+    for (const entry of entries) {
+      backend.addIndexEntry(dbName, indexId, entry.key, entry.primaryKey);
+    }
   }
 }
 
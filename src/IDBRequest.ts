@@ -1,6 +1,7 @@
 // IDBRequest and IDBOpenDBRequest implementation
 
 import { initEventTarget, idbDispatchEvent } from './scheduling.ts';
+import type { ListenerErrorHandler } from './scheduling.ts';
 
 export class IDBRequest extends EventTarget {
   get [Symbol.toStringTag]() { return 'IDBRequest'; }
@@ -11,6 +12,8 @@ export class IDBRequest extends EventTarget {
   _source: any = null;
   _transaction: any = null;
   _constraintError: boolean = false;
+  // For open/delete requests, which have no connection yet (set by IDBFactory)
+  _onListenerError: ListenerErrorHandler | null = null;
 
   constructor() {
     super();
@@ -59,12 +62,13 @@ export class IDBRequest extends EventTarget {
       }
     }
 
+    const onListenerError = this._transaction?._db?._onListenerError ?? this._onListenerError;
     if (ancestors.length > 0) {
-      return idbDispatchEvent(this, ancestors, event);
+      return idbDispatchEvent(this, ancestors, event, onListenerError);
     }
 
     // Simple dispatch with on* handler (for IDBOpenDBRequest without transaction)
-    return idbDispatchEvent(this, [], event);
+    return idbDispatchEvent(this, [], event, onListenerError);
   }
 
   // Event handlers
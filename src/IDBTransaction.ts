@@ -3,7 +3,8 @@
 import { DOMStringList } from './DOMStringList.ts';
 import { IDBRequest } from './IDBRequest.ts';
 import { queueTask, initEventTarget, idbDispatchEvent } from './scheduling.ts';
-import { getScheduler } from './transaction-scheduler.ts';
+import type { IDBTransactionDurability } from './types.ts';
+import type { StorageBackend, StorageReader, StorageSnapshot } from './storage-backend.ts';
 
 // Factory function to create IDBObjectStore without circular import
 // Set by IDBObjectStore module
@@ -13,6 +14,17 @@ export function _setObjectStoreFactory(factory: (transaction: any, name: string)
   createObjectStore = factory;
 }
 
+/** Returned by IDBTransaction._hold() */
+export interface TransactionHold {
+  /**
+   * Run `fn` with the transaction active, for a request made on the hold's
+   * behalf rather than from an event handler. Once the hold is released, or
+   * the transaction aborted, `fn` runs with the transaction as it is.
+   */
+  runActive(fn: () => void): void;
+  release(): void;
+}
+
 export class IDBTransaction extends EventTarget {
   _db: any; // IDBDatabase - avoid circular import by using any
   _mode: IDBTransactionMode;
@@ -25,6 +37,7 @@ export class IDBTransaction extends EventTarget {
   _pendingRequestCount: number = 0; // requests whose events haven't fired yet
   _savepointName: string;
   _savepointStarted: boolean = false;
+  _snapshot: StorageSnapshot | null = null; // Readonly transactions: the data they read
   _objectStoreCache: Map<string, any> = new Map(); // SameObject cache
 
   // Metadata revert tracking for versionchange transactions
@@ -41,7 +54,11 @@ export class IDBTransaction extends EventTarget {
   _pendingCallbacks: Array<() => void> = []; // Buffered request event callbacks
   _useScheduler: boolean = false; // Whether this transaction uses the scheduler
   _commitOnStart: boolean = false; // Auto-commit when scheduler starts (empty transactions)
-  _durability: string = 'default'; // Transaction durability hint
+  _durability: IDBTransactionDurability = 'default'; // Transaction durability hint
+  _activeHolds: number = 0; // _keepActiveThroughMicrotasks() calls not yet released
+  // Operations waiting for the Blobs they store to be read, and any queued
+  // after them, so that requests still run in order
+  _heldOperations: Array<{ ready: Promise<void> | null; queue: () => void }> = [];
 
   // Event handlers
   onabort: ((this: IDBTransaction, ev: Event) => any) | null = null;
@@ -55,7 +72,7 @@ export class IDBTransaction extends EventTarget {
       ancestors.push(this._db);
     }
 
-    return idbDispatchEvent(this, ancestors, event);
+    return idbDispatchEvent(this, ancestors, event, this._db?._onListenerError ?? null);
   }
 
   constructor(db: any, storeNames: string[], mode: IDBTransactionMode) {
@@ -66,6 +83,17 @@ export class IDBTransaction extends EventTarget {
     this._storeNames = storeNames.slice().sort();
     this._objectStoreNames = new DOMStringList(this._storeNames);
     this._savepointName = `txn_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+    db._transactions.add(this);
+  }
+
+  /** Storage for this transaction's reads: its snapshot, if it has one */
+  get _reader(): StorageReader {
+    return this._snapshot ?? this._db._backend;
+  }
+
+  /** Storage for this transaction's writes */
+  get _backend(): StorageBackend {
+    return this._db._backend;
   }
 
   get objectStoreNames(): DOMStringList {
@@ -80,7 +108,7 @@ export class IDBTransaction extends EventTarget {
     return this._db;
   }
 
-  get durability(): string {
+  get durability(): IDBTransactionDurability {
     return this._durability;
   }
 
@@ -137,6 +165,7 @@ export class IDBTransaction extends EventTarget {
       }
       this._savepointStarted = false;
     }
+    this._releaseSnapshot();
 
     // Revert metadata for versionchange transactions
     if (this._mode === 'versionchange') {
@@ -156,6 +185,7 @@ export class IDBTransaction extends EventTarget {
 
     // Clear any pending callbacks
     this._pendingCallbacks = [];
+    this._heldOperations = [];
 
     // Fire abort event and error events on pending requests
     queueTask(() => {
@@ -174,7 +204,7 @@ export class IDBTransaction extends EventTarget {
 
       // Notify scheduler
       if (this._useScheduler) {
-        getScheduler(this._db._name).transactionFinished(this);
+        this._db._scheduler.transactionFinished(this);
       }
 
       // Notify database about abort for versionchange transactions
@@ -183,11 +213,16 @@ export class IDBTransaction extends EventTarget {
       if (this._mode === 'versionchange') {
         this._db._versionChangeTransactionFinished(true);
       }
+
+      this._db._transactionFinished(this);
     });
   }
 
   /** Revert metadata changes made during a versionchange transaction */
   _revertMetadata(): void {
+    // The schema was rolled back with the savepoint
+    this._db._schema.invalidate();
+
     // Revert renamed indexes (in reverse order)
     // Only revert renames for indexes that were NOT created in this transaction
     if (this._renamedIndexes) {
@@ -255,7 +290,7 @@ export class IDBTransaction extends EventTarget {
         store._deleted = false;
         // Restore indexes that were on the store before deletion
         // Re-read from the database (which was rolled back)
-        const meta = this._db._backend.getObjectStoreMetadata(this._db._name, name);
+        const meta = this._db._schema.store(name);
         if (meta) {
           store._storeId = meta.id;
           // Un-delete all cached indexes on this store
@@ -295,7 +330,7 @@ export class IDBTransaction extends EventTarget {
     }
 
     // Revert objectStoreNames on this transaction and the database
-    const revertedNames = this._db._backend.getObjectStoreNames(this._db._name);
+    const revertedNames = this._db._schema.storeNames();
     this._storeNames = revertedNames.slice().sort();
     this._objectStoreNames = new DOMStringList(this._storeNames);
     this._db._objectStoreNamesCache = null;
@@ -331,7 +366,9 @@ export class IDBTransaction extends EventTarget {
   /** Start the savepoint if not already started */
   _ensureSavepoint(): void {
     if (!this._savepointStarted) {
-      this._db._backend.beginSavepoint(this._db._name, this._savepointName);
+      // A versionchange transaction runs alone, so it needs no scope
+      const scope = this._mode === 'versionchange' ? undefined : this._storeNames;
+      this._db._backend.beginSavepoint(this._db._name, this._savepointName, this._durability, scope);
       this._savepointStarted = true;
     }
   }
@@ -363,23 +400,104 @@ export class IDBTransaction extends EventTarget {
   }
 
   /** Queue a full request: operation (SQLite work) + event dispatch.
-   *  Both are deferred if the transaction hasn't been started by the scheduler.
+   *  Both are deferred if the transaction hasn't been started by the scheduler,
+   *  or until `ready` resolves (and every earlier operation has been queued).
    */
-  _queueOperation(operation: () => void, eventCallback: () => void): void {
-    if (this._useScheduler && !this._started) {
-      this._pendingCallbacks.push(() => {
-        operation();
+  _queueOperation(operation: () => void, eventCallback: () => void, ready?: Promise<void>): void {
+    const queue = (): void => {
+      if (this._useScheduler && !this._started) {
+        this._pendingCallbacks.push(() => {
+          if (this._runOperation(operation)) {
+            queueTask(eventCallback);
+          }
+        });
+      } else if (this._runOperation(operation)) {
         queueTask(eventCallback);
-      });
-    } else {
+      }
+    };
+    if (!ready && this._heldOperations.length === 0) {
+      queue();
+      return;
+    }
+    this._heldOperations.push({ ready: ready ?? null, queue });
+    if (this._heldOperations.length === 1) {
+      this._queueHeldOperations();
+    }
+  }
+
+  /** Queue the held operations in order, each once it is ready */
+  _queueHeldOperations(): void {
+    const held = this._heldOperations;
+    const next = (): void => {
+      // Aborted meanwhile: nothing held is to run
+      if (held !== this._heldOperations) return;
+      while (held.length > 0) {
+        const { ready, queue } = held[0];
+        if (ready) {
+          held[0].ready = null;
+          ready.then(next);
+          return;
+        }
+        held.shift();
+        queue();
+      }
+    };
+    next();
+  }
+
+  /**
+   * Run a storage operation. If the storage failed, the connection is closed
+   * forcibly (aborting this transaction) and false is returned. If it was
+   * locked by another process, only this transaction is aborted.
+   */
+  _runOperation(operation: () => void): boolean {
+    try {
       operation();
-      queueTask(eventCallback);
+    } catch (e) {
+      if (this._db._storageFailed(e)) return false;
+      if (!this._db._backend.isBusyError?.(e)) throw e;
+      this._error = new DOMException('The database is locked by another process.', 'UnknownError');
+      this.abort(true);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Read a snapshot from now on, if the backend can, so that readwrite
+   * transactions don't have to wait for this one.
+   */
+  _openSnapshot(): void {
+    const backend = this._db._backend as StorageBackend;
+    if (!backend.openSnapshot) return;
+    try {
+      this._snapshot = backend.openSnapshot(this._db._name);
+    } catch (e) {
+      // Storage failure: the forced close aborts this transaction
+      if (this._db._storageFailed(e)) return;
+      throw e;
+    }
+    if (this._snapshot) {
+      this._db._scheduler.snapshotOpened(this);
+    }
+  }
+
+  _releaseSnapshot(): void {
+    if (!this._snapshot) return;
+    try {
+      this._snapshot.release();
+    } catch {
+      // ignore: nothing was written through it
     }
+    this._snapshot = null;
   }
 
   /** Called by scheduler when this transaction can start */
   _schedulerStart(): void {
     this._started = true;
+    if (this._mode === 'readonly') {
+      this._openSnapshot();
+    }
     // Flush any buffered callbacks - each one may queue further setTimeout tasks
     for (const cb of this._pendingCallbacks) {
       cb();
@@ -403,15 +521,19 @@ export class IDBTransaction extends EventTarget {
       try {
         this._db._backend.releaseSavepoint(this._db._name, this._savepointName);
       } catch (e) {
+        // Storage failure: the forced close aborts this transaction
+        if (this._db._storageFailed(e)) return;
         // If release fails, abort
         this._error = new DOMException('Commit failed', 'AbortError');
         this._state = 'finished';
         const abortEvent = new Event('abort', { bubbles: true, cancelable: false });
         this.dispatchEvent(abortEvent);
+        this._db._transactionFinished(this);
         return;
       }
       this._savepointStarted = false;
     }
+    this._releaseSnapshot();
 
     this._state = 'finished';
 
@@ -422,13 +544,15 @@ export class IDBTransaction extends EventTarget {
 
       // Notify scheduler
       if (this._useScheduler) {
-        getScheduler(this._db._name).transactionFinished(this);
+        this._db._scheduler.transactionFinished(this);
       }
 
       // Notify database about completion for versionchange transactions
       if (this._mode === 'versionchange') {
         this._db._versionChangeTransactionFinished(false);
       }
+
+      this._db._transactionFinished(this);
     });
   }
 
@@ -458,11 +582,58 @@ export class IDBTransaction extends EventTarget {
 
   /** Deactivate the transaction (called after event handlers finish) */
   _deactivate(): void {
-    if (this._state === 'active') {
+    if (this._state === 'active' && this._activeHolds === 0) {
       this._state = 'inactive';
     }
   }
 
+  /**
+   * Keep the transaction from committing, as a pending request would, until
+   * the hold is released.
+   */
+  _hold(): TransactionHold {
+    this._pendingRequestCount++;
+    let held = true;
+    return {
+      runActive: (fn) => {
+        // Only a transaction this hold kept from committing is made active;
+        // otherwise fn's requests fail as they would from any other callback.
+        const reactivate = held && this._state === 'inactive' && !this._aborted;
+        if (reactivate) this._state = 'active';
+        try {
+          fn();
+        } finally {
+          if (reactivate) this._deactivate();
+        }
+      },
+      release: () => {
+        if (!held) return;
+        held = false;
+        this._requestFinished();
+      },
+    };
+  }
+
+  /**
+   * Keep an active transaction active until the microtask queue has drained.
+   * The promise API settles its promises from request events, and the `await`
+   * chain resuming after one can be any number of microtasks long, where
+   * _dispatchRequestEvent's two only cover a couple of hops. Node runs
+   * process.nextTick callbacks queued from a microtask once the microtask
+   * queue is empty, before any timer or I/O callback, so that is where the
+   * transaction deactivates.
+   */
+  _keepActiveThroughMicrotasks(): void {
+    if (this._state !== 'active') return;
+    this._activeHolds++;
+    const hold = this._hold();
+    queueMicrotask(() => process.nextTick(() => {
+      this._activeHolds--;
+      this._deactivate();
+      hold.release();
+    }));
+  }
+
   /**
    * Dispatch a request's event with proper IDB semantics:
    * - Transaction is set active before dispatch
@@ -0,0 +1,12 @@
+// Entry point that installs indexedDB and the IDB interfaces on globalThis
+// when imported (see globals.ts). Storage is in memory unless the
+// INDEXEDDB_SQLITE_PATH environment variable names a directory.
+//
+//   import 'indexeddb-sqlite/auto';
+//   const request = indexedDB.open('db');
+
+import { install } from './globals.ts';
+
+export { install, uninstall, reset, defaultGlobalOptions } from './globals.ts';
+
+install();
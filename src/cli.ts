@@ -0,0 +1,229 @@
+#!/usr/bin/env -S node --experimental-strip-types
+// idb-sqlite: look inside a storage directory from the command line.
+//
+// The SQLite files are opened read-only and read directly, with keys decoded
+// by decodeKey() and values by deserialize(), so the app doesn't need to be
+// running (nor stopped: with WAL, reading doesn't get in its way).
+
+import { parseArgs, inspect } from 'node:util';
+import { SQLiteBackend } from './sqlite-backend.ts';
+import { IDBFactory } from './IDBFactory.ts';
+import { checkDatabase } from './integrity.ts';
+import type { IntegrityReport } from './integrity.ts';
+import type { ObjectStoreMetadata, IndexMetadata } from './storage-backend.ts';
+import { IDBKeyRange } from './IDBKeyRange.ts';
+import { decodeKey, encodeKey } from './keys.ts';
+import { deserialize } from './structured-clone.ts';
+
+const USAGE = `Usage: idb-sqlite <storage-dir> <command> [arguments]
+
+Commands:
+  list                            Databases and their versions
+  stores <db>                     Object stores and their indexes
+  count <db> <store> [range]      Number of records (or index entries)
+  dump <db> <store> [range]       Records (or index entries) in key order
+  check <db>                      Check the file and that indexes match records
+
+Options:
+  --index <name>                  Query an index of the store instead
+  --limit <n>                     Stop after n records
+  --reverse                       Go from the highest key down
+  --repair                        With check: rebuild the indexes found wrong
+
+Keys are JSON: 5, "a", [1, "b"]. A range is a key, or one of
+  only(key)  lowerBound(key[, open])  upperBound(key[, open])
+  bound(lower, upper[, lowerOpen[, upperOpen]])
+`;
+
+class UsageError extends Error {}
+
+interface Query {
+  db: string;
+  store: ObjectStoreMetadata;
+  index: IndexMetadata | null;
+  range: IDBKeyRange | null;
+}
+
+async function main(argv: string[]): Promise<void> {
+  const { values: options, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      index: { type: 'string' },
+      limit: { type: 'string' },
+      reverse: { type: 'boolean', default: false },
+      repair: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  if (options.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+  const [storagePath, command, ...args] = positionals;
+  if (!storagePath || !command) throw new UsageError('A storage directory and a command are required.');
+
+  if (command === 'check' && options.repair) {
+    // Writes: through a factory, to take turns with running apps
+    const factory = new IDBFactory({ storagePath });
+    try {
+      const name = args[0];
+      if (name === undefined) throw new UsageError('A database name is required.');
+      printReport(await factory.checkIntegrity(name, { repair: true }));
+    } finally {
+      await factory.close();
+    }
+    return;
+  }
+
+  const backend = new SQLiteBackend(storagePath, 'strict', true);
+  try {
+    switch (command) {
+      case 'list':
+        for (const { name, version } of backend.listDatabases()) {
+          print(`${show(name)}\tversion ${version}`);
+        }
+        break;
+      case 'stores':
+        listStores(backend, requireDatabase(backend, args[0]));
+        break;
+      case 'count': {
+        const query = parseQuery(backend, args, options.index);
+        const [lower, upper, lowerOpen, upperOpen] = rangeBounds(query.range);
+        const count = query.index
+          ? backend.countIndexEntries(query.db, query.index.id, lower, upper, lowerOpen, upperOpen)
+          : backend.countRecords(query.db, query.store.id, lower, upper, lowerOpen, upperOpen);
+        print(String(count));
+        break;
+      }
+      case 'dump': {
+        let limit: number | undefined;
+        if (options.limit !== undefined) {
+          limit = Number(options.limit);
+          if (!Number.isInteger(limit) || limit < 1) throw new UsageError(`Invalid --limit: ${options.limit}`);
+        }
+        dump(backend, parseQuery(backend, args, options.index), options.reverse ? 'prev' : 'next', limit);
+        break;
+      }
+      case 'check':
+        printReport(checkDatabase(backend, requireDatabase(backend, args[0])));
+        break;
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+  } finally {
+    backend.closeAll();
+  }
+}
+
+function listStores(backend: SQLiteBackend, db: string): void {
+  for (const name of backend.getObjectStoreNames(db)) {
+    const store = backend.getObjectStoreMetadata(db, name)!;
+    const details = [`keyPath ${show(store.keyPath)}`];
+    if (store.autoIncrement) details.push(`autoIncrement (current key ${store.currentKey})`);
+    details.push(`${backend.countRecords(db, store.id)} records`);
+    print(`${show(name)}\t${details.join(', ')}`);
+    for (const indexName of backend.getIndexNames(db, store.id)) {
+      const index = backend.getIndexMetadata(db, store.id, indexName)!;
+      const flags = [index.unique && 'unique', index.multiEntry && 'multiEntry'].filter(Boolean);
+      print(`  index ${show(indexName)}\tkeyPath ${show(index.keyPath)}${flags.map((f) => `, ${f}`).join('')}`);
+    }
+  }
+}
+
+function dump(backend: SQLiteBackend, query: Query, direction: 'next' | 'prev', limit: number | undefined): void {
+  const [lower, upper, lowerOpen, upperOpen] = rangeBounds(query.range);
+  if (query.index) {
+    const entries = backend.getAllIndexEntries(
+      query.db, query.index.id, query.store.id, lower, upper, lowerOpen, upperOpen, direction, limit
+    );
+    for (const entry of entries) {
+      print(`${show(decodeKey(entry.index_key))}\t${show(decodeKey(entry.primary_key))}\t${show(deserialize(entry.value))}`);
+    }
+    return;
+  }
+  const records = backend.getAllRecords(query.db, query.store.id, lower, upper, lowerOpen, upperOpen, direction, limit);
+  for (const record of records) {
+    print(`${show(decodeKey(record.key))}\t${show(deserialize(record.value))}`);
+  }
+}
+
+function printReport(report: IntegrityReport): void {
+  for (const error of report.storageErrors) {
+    print(`storage: ${error}`);
+  }
+  for (const p of report.problems) {
+    const where = p.index === null ? show(p.store) : `${show(p.store)} index ${show(p.index)}`;
+    print(`${p.kind}\t${where}\tkey ${show(p.key)}\tprimary key ${show(p.primaryKey)}`);
+  }
+  for (const { store, index } of report.rebuilt) {
+    print(`rebuilt\t${show(store)} index ${show(index)}`);
+  }
+  print(report.ok ? 'ok' : 'problems found');
+  if (!report.ok) process.exitCode = 1;
+}
+
+function requireDatabase(backend: SQLiteBackend, name: string | undefined): string {
+  if (name === undefined) throw new UsageError('A database name is required.');
+  if (!backend.databaseExists(name)) throw new Error(`No database named ${show(name)}.`);
+  return name;
+}
+
+function parseQuery(backend: SQLiteBackend, args: string[], indexName: string | undefined): Query {
+  const db = requireDatabase(backend, args[0]);
+  if (args[1] === undefined) throw new UsageError('An object store name is required.');
+  const store = backend.getObjectStoreMetadata(db, args[1]);
+  if (!store) throw new Error(`No object store named ${show(args[1])} in ${show(db)}.`);
+  let index: IndexMetadata | null = null;
+  if (indexName !== undefined) {
+    index = backend.getIndexMetadata(db, store.id, indexName);
+    if (!index) throw new Error(`No index named ${show(indexName)} in ${show(args[1])}.`);
+  }
+  return { db, store, index, range: args[2] === undefined ? null : parseRange(args.slice(2).join(' ')) };
+}
+
+/** Parse a range argument (see USAGE) */
+function parseRange(text: string): IDBKeyRange {
+  const call = /^\s*(only|lowerBound|upperBound|bound)\s*\((.*)\)\s*$/s.exec(text);
+  try {
+    if (!call) return IDBKeyRange.only(JSON.parse(text));
+    const args = JSON.parse(`[${call[2]}]`);
+    switch (call[1]) {
+      case 'only':
+        return IDBKeyRange.only(args[0]);
+      case 'lowerBound':
+        return IDBKeyRange.lowerBound(args[0], !!args[1]);
+      case 'upperBound':
+        return IDBKeyRange.upperBound(args[0], !!args[1]);
+      default:
+        return IDBKeyRange.bound(args[0], args[1], !!args[2], !!args[3]);
+    }
+  } catch (err: any) {
+    throw new UsageError(`Invalid range ${text}: ${err.message}`);
+  }
+}
+
+function rangeBounds(range: IDBKeyRange | null): [Uint8Array | null, Uint8Array | null, boolean, boolean] {
+  if (!range) return [null, null, false, false];
+  return [
+    range.lower === undefined ? null : encodeKey(range.lower),
+    range.upper === undefined ? null : encodeKey(range.upper),
+    range.lowerOpen,
+    range.upperOpen,
+  ];
+}
+
+function show(value: unknown): string {
+  return inspect(value, { depth: null, breakLength: Infinity, colors: !!process.stdout.isTTY });
+}
+
+function print(line: string): void {
+  process.stdout.write(line + '\n');
+}
+
+main(process.argv.slice(2)).catch((err: any) => {
+  const usage = err instanceof UsageError || String(err.code).startsWith('ERR_PARSE_ARGS');
+  process.stderr.write(`idb-sqlite: ${err.message}\n`);
+  if (usage) process.stderr.write(`\n${USAGE}`);
+  process.exitCode = usage ? 2 : 1;
+});
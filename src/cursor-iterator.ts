@@ -0,0 +1,140 @@
+// Async iteration over a cursor (IDBObjectStore/IDBIndex.iterate())
+//
+// A transaction is only active while a request's event is dispatched, and
+// `for await` resumes the loop body several microtasks later, too late to
+// call continue(). So the cursor is advanced from its own success handler,
+// and records the loop hasn't reached yet are buffered, up to
+// READ_AHEAD_LIMIT. A full buffer stops the cursor and holds the transaction
+// open, as a pending request would, until the loop has used the buffer up
+// and the cursor goes on; a loop that ends early releases it. An iterator
+// that is dropped without ending the loop can't be told apart from a slow
+// loop body, so the hold also lapses after READ_AHEAD_HOLD_MS. The
+// transaction may then commit, and a later next() fails with
+// TransactionInactiveError, as continue() would from any late callback.
+
+import { IDBRecord } from './IDBRecord.ts';
+import type { IDBRequest } from './IDBRequest.ts';
+import type { IDBCursor } from './IDBCursor.ts';
+import type { IDBTransaction, TransactionHold } from './IDBTransaction.ts';
+
+// Records read ahead of a loop body that awaits
+const READ_AHEAD_LIMIT = 100;
+// How long a full read-ahead keeps the transaction open for the loop
+const READ_AHEAD_HOLD_MS = 1000;
+
+export interface IterateOptions {
+  direction?: IDBCursorDirection;
+}
+
+interface Waiter {
+  resolve: (result: IteratorResult<IDBRecord>) => void;
+  reject: (error: unknown) => void;
+}
+
+class CursorIterator implements AsyncIterableIterator<IDBRecord> {
+  private _buffer: IDBRecord[] = [];
+  private _waiters: Waiter[] = [];
+  private _done: boolean = false;
+  private _error: unknown = null;
+  private _transaction: IDBTransaction;
+  // Set while the buffer is full: the cursor to advance once it isn't, the
+  // hold keeping the transaction open until then, and the timer lapsing it
+  private _stopped: { cursor: IDBCursor; hold: TransactionHold; timer: NodeJS.Timeout } | null = null;
+
+  constructor(request: IDBRequest) {
+    request.onsuccess = () => this._onSuccess(request);
+    request.onerror = () => this._onError(request.error);
+    // Requests whose results weren't delivered yet get no event on abort.
+    // An explicit abort() leaves transaction.error null.
+    const transaction = request.transaction!;
+    this._transaction = transaction;
+    transaction.addEventListener('abort', () => {
+      this._onError(transaction.error ?? new DOMException('The transaction was aborted.', 'AbortError'));
+    });
+  }
+
+  next(): Promise<IteratorResult<IDBRecord>> {
+    if (this._buffer.length > 0) {
+      return Promise.resolve({ value: this._buffer.shift()!, done: false });
+    }
+    if (this._stopped) {
+      const { cursor, hold, timer } = this._stopped;
+      this._stopped = null;
+      clearTimeout(timer);
+      try {
+        hold.runActive(() => cursor.continue());
+      } catch (err) {
+        this._onError(err);
+      }
+      hold.release();
+    }
+    if (this._error) return Promise.reject(this._error);
+    if (this._done) return Promise.resolve({ value: undefined, done: true });
+    return new Promise((resolve, reject) => this._waiters.push({ resolve, reject }));
+  }
+
+  /** The loop ended early (break, return or throw): stop advancing the cursor */
+  return(): Promise<IteratorResult<IDBRecord>> {
+    this._buffer = [];
+    this._release();
+    this._finish();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<IDBRecord> {
+    return this;
+  }
+
+  private _onSuccess(request: IDBRequest): void {
+    if (this._done) return;
+    const cursor = request.result;
+    if (!cursor) {
+      this._finish();
+      return;
+    }
+    const record = new IDBRecord(cursor.key, cursor.primaryKey, cursor.value);
+    const waiter = this._waiters.shift();
+    if (waiter) {
+      waiter.resolve({ value: record, done: false });
+    } else {
+      this._buffer.push(record);
+    }
+    if (this._buffer.length < READ_AHEAD_LIMIT) {
+      cursor.continue();
+    } else {
+      const hold = this._transaction._hold();
+      const timer = setTimeout(() => hold.release(), READ_AHEAD_HOLD_MS);
+      this._stopped = { cursor, hold, timer };
+    }
+  }
+
+  private _onError(error: unknown): void {
+    if (this._done) return;
+    this._done = true;
+    this._error = error;
+    this._buffer = [];
+    this._release();
+    for (const waiter of this._waiters.splice(0)) {
+      waiter.reject(error);
+    }
+  }
+
+  private _release(): void {
+    if (!this._stopped) return;
+    clearTimeout(this._stopped.timer);
+    this._stopped.hold.release();
+    this._stopped = null;
+  }
+
+  private _finish(): void {
+    this._done = true;
+    for (const waiter of this._waiters.splice(0)) {
+      waiter.resolve({ value: undefined, done: true });
+    }
+  }
+}
+
+/** Iterate the records of a cursor opened by `request` */
+export function iterateCursor(request: IDBRequest): AsyncIterableIterator<IDBRecord> {
+  return new CursorIterator(request);
+}
@@ -0,0 +1,490 @@
+// Export and import of whole databases in a portable format.
+//
+// A dump is JSON: a header with the schema (stores with their key path,
+// autoIncrement flag, key generator number and indexes) and the records.
+// In 'json' format each store in the header carries its records; in
+// 'ndjson' format the header is the first line and each further line is one
+// record, tagged with its store's name.
+//
+// Keys and values go through a typed JSON encoding so that everything
+// structured clone supports survives: JSON values stand for themselves, and
+// anything else is an object with a "$t" tag, such as
+// {"$t":"Date","v":0} or {"$t":"ArrayBuffer","v":"<base64>"}. Objects that
+// appear more than once (or contain themselves) are written once and then
+// referred to as {"$t":"ref","v":n}, n counting the objects of that key or
+// value in the order written.
+
+import type { IDBDatabase } from './IDBDatabase.ts';
+import type { IDBFactory } from './IDBFactory.ts';
+import type { IDBObjectStore } from './IDBObjectStore.ts';
+import type { IDBRecord } from './IDBRecord.ts';
+import type { IDBRequest, IDBOpenDBRequest } from './IDBRequest.ts';
+import type { IDBTransaction } from './IDBTransaction.ts';
+
+const FORMAT = 'indexeddb-sqlite';
+const FORMAT_VERSION = 1;
+// Records per putAll() when importing
+const IMPORT_BATCH_SIZE = 1000;
+
+export type DumpFormat = 'json' | 'ndjson';
+
+export interface ExportOptions {
+  /** 'json' (the default) or 'ndjson' */
+  format?: DumpFormat;
+}
+
+export interface ImportOptions {
+  /** Name for the imported database; defaults to the name in the dump */
+  name?: string;
+  /** Replace an existing database of that name, instead of failing */
+  replace?: boolean;
+}
+
+interface IndexDump {
+  name: string;
+  keyPath: string | string[];
+  unique: boolean;
+  multiEntry: boolean;
+}
+
+interface StoreDump {
+  name: string;
+  keyPath: string | string[] | null;
+  autoIncrement: boolean;
+  currentKey: number;
+  indexes: IndexDump[];
+  records?: Array<{ key: unknown; value: unknown }>;
+}
+
+interface DumpHeader {
+  format: typeof FORMAT;
+  formatVersion: number;
+  name: string;
+  version: number;
+  stores: StoreDump[];
+}
+
+/** Write a database (schema and every record) as JSON or NDJSON */
+export async function exportDatabase(factory: IDBFactory, name: string, options: ExportOptions = {}): Promise<string> {
+  const format = options.format ?? 'json';
+  if (format !== 'json' && format !== 'ndjson') {
+    throw new TypeError(`Invalid format: ${format}`);
+  }
+  const databases = await factory.databases();
+  if (!databases.some((info) => info.name === name)) {
+    throw new DOMException(`No database named '${name}' was found.`, 'NotFoundError');
+  }
+
+  const db: IDBDatabase = await settle(factory.open(name));
+  try {
+    const header: DumpHeader = {
+      format: FORMAT,
+      formatVersion: FORMAT_VERSION,
+      name,
+      version: db.version,
+      stores: [],
+    };
+    const storeNames = [...db.objectStoreNames];
+    const records: IDBRecord[][] = [];
+    if (storeNames.length > 0) {
+      // One transaction, so the dump is consistent
+      const tx = db.transaction(storeNames, 'readonly');
+      await Promise.all(storeNames.map(async (storeName, i) => {
+        const store = tx.objectStore(storeName) as IDBObjectStore;
+        const dump: StoreDump = {
+          name: storeName,
+          keyPath: store.keyPath,
+          autoIncrement: store.autoIncrement,
+          currentKey: 0,
+          indexes: [...store.indexNames].map((indexName) => {
+            const index = store.index(indexName);
+            return { name: indexName, keyPath: index.keyPath, unique: index.unique, multiEntry: index.multiEntry };
+          }),
+        };
+        header.stores[i] = dump;
+        records[i] = await settle(store.getAllRecords(), () => {
+          // The transaction has started: read the generator along with the records
+          dump.currentKey = store._keyGenerator;
+        });
+      }));
+    }
+
+    const encoder = new Encoder();
+    if (format === 'json') {
+      header.stores.forEach((store, i) => {
+        store.records = records[i].map((record) => ({
+          key: encoder.encode(record.key),
+          value: encoder.encode(record.value),
+        }));
+      });
+      await encoder.readBlobs();
+      return JSON.stringify(header);
+    }
+    const lines: DumpRecord[] = [];
+    header.stores.forEach((store, i) => {
+      for (const record of records[i]) {
+        lines.push({ store: store.name, key: encoder.encode(record.key), value: encoder.encode(record.value) });
+      }
+    });
+    await encoder.readBlobs();
+    return [header, ...lines].map((line) => JSON.stringify(line) + '\n').join('');
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Create a database from a dump written by exportDatabase() (either format).
+ * Fails with ConstraintError if the database exists, unless `replace` is set.
+ * Everything is written in one versionchange transaction: on failure,
+ * nothing is left behind, and a database being replaced is left as it was.
+ * A replaced database gets the dump's version if that is higher than its
+ * own, and otherwise its own plus one.
+ */
+export async function importDatabase(factory: IDBFactory, data: string, options: ImportOptions = {}): Promise<void> {
+  const { header, records } = parseDump(data);
+  const name = options.name ?? header.name;
+
+  // Decided in the open request, so no other open or delete comes in between
+  const request = factory._openWithVersion(name, (existingVersion) => {
+    if (existingVersion === 0) return header.version;
+    if (!options.replace) {
+      throw new DOMException(`A database named '${name}' already exists.`, 'ConstraintError');
+    }
+    return Math.max(existingVersion + 1, header.version);
+  });
+  let failure: unknown = null;
+  request.onupgradeneeded = () => {
+    const db = request.result as IDBDatabase;
+    const tx = request.transaction as IDBTransaction;
+    // The first failed request's error, rather than the AbortError that follows
+    tx.addEventListener('abort', () => {
+      failure ??= tx.error;
+    });
+    try {
+      // The old stores go in the same transaction, so they stay if the import fails
+      for (const storeName of [...db.objectStoreNames]) {
+        db.deleteObjectStore(storeName);
+      }
+      const stores = new Map<string, { store: IDBObjectStore; dump: StoreDump }>();
+      for (const dump of header.stores) {
+        const store = db.createObjectStore(dump.name, { keyPath: dump.keyPath, autoIncrement: dump.autoIncrement });
+        for (const index of dump.indexes) {
+          store.createIndex(index.name, index.keyPath, { unique: index.unique, multiEntry: index.multiEntry });
+        }
+        stores.set(dump.name, { store, dump });
+      }
+      const decoder = new Decoder();
+      const batches = new Map<string, { values: unknown[]; keys: unknown[] }>();
+      const flush = (storeName: string) => {
+        const batch = batches.get(storeName);
+        if (!batch || batch.values.length === 0) return;
+        const { store } = stores.get(storeName)!;
+        store.putAll(batch.values, store.keyPath === null ? batch.keys : undefined);
+        batches.delete(storeName);
+      };
+      for (const record of records) {
+        if (!stores.has(record.store)) {
+          throw new DOMException(`The dump has records for an unknown object store '${record.store}'.`, 'DataError');
+        }
+        let batch = batches.get(record.store);
+        if (!batch) {
+          batch = { values: [], keys: [] };
+          batches.set(record.store, batch);
+        }
+        batch.keys.push(decoder.decode(record.key));
+        batch.values.push(decoder.decode(record.value));
+        if (batch.values.length >= IMPORT_BATCH_SIZE) flush(record.store);
+      }
+      for (const [storeName, { store, dump }] of stores) {
+        flush(storeName);
+        if (dump.autoIncrement) store._keyGenerator = dump.currentKey;
+      }
+    } catch (err) {
+      failure = err;
+      tx.abort();
+    }
+  };
+  try {
+    const db: IDBDatabase = await settle(request);
+    db.close();
+  } catch (err) {
+    throw failure ?? err;
+  }
+}
+
+interface DumpRecord {
+  store: string;
+  key: unknown;
+  value: unknown;
+}
+
+function parseDump(data: string): { header: DumpHeader; records: DumpRecord[] } {
+  let header: DumpHeader;
+  const records: DumpRecord[] = [];
+  try {
+    header = JSON.parse(data);
+  } catch {
+    // Not a single JSON document: NDJSON
+    const lines = data.split('\n').filter((line) => line.trim() !== '');
+    try {
+      header = JSON.parse(lines[0] ?? '');
+      for (const line of lines.slice(1)) records.push(JSON.parse(line));
+    } catch (err: any) {
+      throw new DOMException(`The dump is not valid JSON: ${err.message}`, 'DataError');
+    }
+  }
+  if (header?.format !== FORMAT || !Array.isArray(header.stores)) {
+    throw new DOMException('The data is not a database dump.', 'DataError');
+  }
+  if (header.formatVersion > FORMAT_VERSION) {
+    throw new DOMException(`Unsupported dump format version: ${header.formatVersion}`, 'DataError');
+  }
+  if (!Number.isSafeInteger(header.version) || header.version < 1) {
+    throw new DOMException(`The dump has an invalid version: ${header.version}`, 'DataError');
+  }
+  for (const store of header.stores) {
+    for (const record of store.records ?? []) {
+      records.push({ store: store.name, key: record.key, value: record.value });
+    }
+    delete store.records;
+  }
+  return { header, records };
+}
+
+/** Wait for a request's success (with its result, after `onSuccess`) or error */
+function settle<T = any>(request: IDBRequest | IDBOpenDBRequest, onSuccess?: () => void): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      onSuccess?.();
+      resolve(request.result);
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Typed JSON encoding
+
+const TYPED_ARRAYS: Record<string, new (buffer: ArrayBuffer) => ArrayBufferView> = {
+  Int8Array, Uint8Array, Uint8ClampedArray, Int16Array, Uint16Array, Int32Array, Uint32Array,
+  Float32Array, Float64Array, BigInt64Array, BigUint64Array, DataView,
+};
+
+const ERROR_TYPES: Record<string, ErrorConstructor> = {
+  Error, EvalError, RangeError, ReferenceError, SyntaxError, TypeError, URIError,
+};
+
+const MAX_ARRAY_LENGTH = 2 ** 32 - 1;
+
+type Tagged = { $t: string; [field: string]: unknown };
+
+class Encoder {
+  // Objects written so far, by the number they are referred to with
+  private _ids: Map<object, number> = new Map();
+  private _blobs: Array<{ tag: Tagged; blob: Blob }> = [];
+
+  /** Encode one key or value */
+  encode(value: unknown): unknown {
+    this._ids.clear();
+    return this._encode(value);
+  }
+
+  /** Fill in the bytes of the Blobs encoded so far */
+  async readBlobs(): Promise<void> {
+    await Promise.all(this._blobs.map(async ({ tag, blob }) => {
+      tag.v = toBase64(new Uint8Array(await blob.arrayBuffer()));
+    }));
+    this._blobs = [];
+  }
+
+  private _encode(value: unknown): unknown {
+    switch (typeof value) {
+      case 'string':
+      case 'boolean':
+        return value;
+      case 'undefined':
+        return { $t: 'undefined' };
+      case 'bigint':
+        return { $t: 'bigint', v: value.toString() };
+      case 'number':
+        if (Number.isFinite(value) && !Object.is(value, -0)) return value;
+        return { $t: 'number', v: Object.is(value, -0) ? '-0' : String(value) };
+      case 'object':
+        if (value === null) return null;
+        break;
+      default:
+        throw new DOMException(`A ${typeof value} can't be exported.`, 'DataCloneError');
+    }
+
+    const id = this._ids.get(value);
+    if (id !== undefined) return { $t: 'ref', v: id };
+    this._ids.set(value, this._ids.size);
+
+    if (Array.isArray(value)) {
+      const keys = Object.keys(value);
+      if (keys.length === value.length && keys.every((key, i) => key === String(i))) {
+        return value.map((item) => this._encode(item));
+      }
+      // Sparse, or with extra properties
+      return { $t: 'Array', length: value.length, v: this._encodeProperties(value) };
+    }
+    if (value instanceof Date) return { $t: 'Date', v: this._encode(value.getTime()) };
+    if (value instanceof RegExp) return { $t: 'RegExp', source: value.source, flags: value.flags };
+    if (value instanceof ArrayBuffer) return { $t: 'ArrayBuffer', v: toBase64(new Uint8Array(value)) };
+    if (ArrayBuffer.isView(value)) {
+      // By the standard type, so a Buffer is written as a Uint8Array
+      const type = Object.keys(TYPED_ARRAYS).find((name) => value instanceof TYPED_ARRAYS[name]);
+      if (!type) throw new DOMException(`A ${value.constructor.name} can't be exported.`, 'DataCloneError');
+      const bytes = new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+      return { $t: type, v: toBase64(bytes) };
+    }
+    if (value instanceof Map) {
+      return { $t: 'Map', v: [...value].map(([k, v]) => [this._encode(k), this._encode(v)]) };
+    }
+    if (value instanceof Set) return { $t: 'Set', v: [...value].map((item) => this._encode(item)) };
+    if (value instanceof Error) {
+      return { $t: 'Error', name: value.name, message: value.message, stack: value.stack };
+    }
+    if (value instanceof Blob) {
+      const tag: Tagged = typeof File !== 'undefined' && value instanceof File
+        ? { $t: 'File', type: value.type, name: value.name, lastModified: value.lastModified, v: '' }
+        : { $t: 'Blob', type: value.type, v: '' };
+      this._blobs.push({ tag, blob: value });
+      return tag;
+    }
+    if (value instanceof Boolean || value instanceof Number || value instanceof String || value instanceof BigInt) {
+      return { $t: 'Wrapper', v: this._encode(value.valueOf()) };
+    }
+    const properties = this._encodeProperties(value);
+    return Object.hasOwn(value, '$t') ? { $t: 'Object', v: properties } : properties;
+  }
+
+  private _encodeProperties(value: object): Record<string, unknown> {
+    const properties: Record<string, unknown> = {};
+    for (const key of Object.keys(value)) {
+      setProperty(properties, key, this._encode((value as any)[key]));
+    }
+    return properties;
+  }
+}
+
+class Decoder {
+  private _objects: object[] = [];
+
+  /** Decode one key or value */
+  decode(data: unknown): any {
+    this._objects = [];
+    return this._decode(data);
+  }
+
+  private _decode(data: unknown): any {
+    if (data === null || typeof data !== 'object') return data;
+    if (Array.isArray(data)) {
+      const array: unknown[] = this._register([]);
+      for (const item of data) array.push(this._decode(item));
+      return array;
+    }
+    const tagged = data as Tagged;
+    switch (tagged.$t) {
+      case undefined:
+        return this._decodeProperties(this._register({}), tagged);
+      case 'undefined':
+        return undefined;
+      case 'bigint':
+        return BigInt(tagged.v as string);
+      case 'number':
+        return tagged.v === '-0' ? -0 : Number(tagged.v);
+      case 'ref': {
+        const object = this._objects[tagged.v as number];
+        if (!object) throw new DOMException('The dump has a broken reference.', 'DataError');
+        return object;
+      }
+      case 'Object':
+        return this._decodeProperties(this._register({}), tagged.v as Record<string, unknown>);
+      case 'Array': {
+        const length = tagged.length;
+        if (!Number.isInteger(length) || (length as number) < 0 || (length as number) > MAX_ARRAY_LENGTH) {
+          throw new DOMException(`The dump has an array of invalid length: ${length}`, 'DataError');
+        }
+        return this._decodeProperties(this._register(new Array(length as number)), tagged.v as Record<string, unknown>);
+      }
+      case 'Date': {
+        const date = this._register(new Date(0));
+        date.setTime(this._decode(tagged.v));
+        return date;
+      }
+      case 'RegExp':
+        return this._register(new RegExp(tagged.source as string, tagged.flags as string));
+      case 'ArrayBuffer':
+        return this._register(fromBase64(tagged.v as string).buffer);
+      case 'Map': {
+        const map = this._register(new Map());
+        for (const [k, v] of tagged.v as unknown[][]) map.set(this._decode(k), this._decode(v));
+        return map;
+      }
+      case 'Set': {
+        const set = this._register(new Set());
+        for (const item of tagged.v as unknown[]) set.add(this._decode(item));
+        return set;
+      }
+      case 'Error': {
+        const ErrorType = ERROR_TYPES[tagged.name as string] ?? Error;
+        const error = this._register(new ErrorType(tagged.message as string));
+        if (tagged.stack !== undefined) error.stack = tagged.stack as string;
+        return error;
+      }
+      case 'Blob':
+        return this._register(new Blob([fromBase64(tagged.v as string)], { type: tagged.type as string }));
+      case 'File':
+        return this._register(new File([fromBase64(tagged.v as string)], tagged.name as string, {
+          type: tagged.type as string,
+          lastModified: tagged.lastModified as number,
+        }));
+      case 'Wrapper': {
+        // Registered before its (primitive) contents, like every object
+        const index = this._objects.push({}) - 1;
+        const wrapper = Object(this._decode(tagged.v));
+        this._objects[index] = wrapper;
+        return wrapper;
+      }
+      default: {
+        const View = TYPED_ARRAYS[tagged.$t];
+        if (!View) throw new DOMException(`Unknown type in dump: ${tagged.$t}`, 'DataError');
+        return this._register(new View(fromBase64(tagged.v as string).buffer));
+      }
+    }
+  }
+
+  private _register<T extends object>(object: T): T {
+    this._objects.push(object);
+    return object;
+  }
+
+  private _decodeProperties<T extends object>(target: T, properties: Record<string, unknown>): T {
+    for (const key of Object.keys(properties)) {
+      setProperty(target, key, this._decode(properties[key]));
+    }
+    return target;
+  }
+}
+
+/** Set an own property, even one named __proto__ */
+function setProperty(target: object, key: string, value: unknown): void {
+  if (key === '__proto__') {
+    Object.defineProperty(target, key, { value, writable: true, enumerable: true, configurable: true });
+  } else {
+    (target as any)[key] = value;
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('base64');
+}
+
+/** Bytes in a buffer of their own */
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  const decoded = Buffer.from(text, 'base64');
+  const bytes = new Uint8Array(decoded.byteLength);
+  bytes.set(decoded);
+  return bytes;
+}
@@ -0,0 +1,100 @@
+// Install indexedDB and the IDB interfaces on globalThis, as in a browser.
+// Importing auto.ts does this on load; install()/uninstall() are for code
+// that wants to choose when (and with what storage), such as test setup.
+
+import { IDBFactory } from './IDBFactory.ts';
+import type { IDBFactoryOptions } from './IDBFactory.ts';
+import { IDBKeyRange } from './IDBKeyRange.ts';
+import { IDBRequest, IDBOpenDBRequest } from './IDBRequest.ts';
+import { IDBDatabase } from './IDBDatabase.ts';
+import { IDBTransaction } from './IDBTransaction.ts';
+import { IDBObjectStore } from './IDBObjectStore.ts';
+import { IDBIndex } from './IDBIndex.ts';
+import { IDBCursor, IDBCursorWithValue } from './IDBCursor.ts';
+import { IDBRecord } from './IDBRecord.ts';
+import { IDBVersionChangeEvent } from './IDBVersionChangeEvent.ts';
+import { DOMStringList } from './DOMStringList.ts';
+// Registers the object store factory with IDBTransaction
+import './index.ts';
+
+const INTERFACES: Record<string, unknown> = {
+  IDBFactory,
+  IDBKeyRange,
+  IDBRequest,
+  IDBOpenDBRequest,
+  IDBDatabase,
+  IDBTransaction,
+  IDBObjectStore,
+  IDBIndex,
+  IDBCursor,
+  IDBCursorWithValue,
+  IDBRecord,
+  IDBVersionChangeEvent,
+  DOMStringList,
+};
+
+interface Installation {
+  factory: IDBFactory;
+  options: IDBFactoryOptions;
+  // What install() replaced, to put back on uninstall (undefined = nothing)
+  replaced: Map<string, PropertyDescriptor | undefined>;
+}
+
+let installation: Installation | null = null;
+
+/**
+ * Storage when install() is given no options: the directory in the
+ * INDEXEDDB_SQLITE_PATH environment variable, or else in memory
+ */
+export function defaultGlobalOptions(): IDBFactoryOptions {
+  const storagePath = process.env.INDEXEDDB_SQLITE_PATH;
+  return storagePath ? { storagePath } : { inMemory: true };
+}
+
+/**
+ * Set `indexedDB` to a new factory and define the IDB interfaces on
+ * globalThis. Replaces an earlier installation (closing its factory).
+ */
+export function install(options: IDBFactoryOptions = defaultGlobalOptions()): IDBFactory {
+  if (installation) {
+    void uninstall();
+  }
+  const factory = new IDBFactory(options);
+  const replaced = new Map<string, PropertyDescriptor | undefined>();
+  for (const [name, value] of Object.entries({ ...INTERFACES, indexedDB: factory })) {
+    replaced.set(name, Object.getOwnPropertyDescriptor(globalThis, name));
+    // Like the Web IDL bindings: writable and configurable, not enumerable
+    Object.defineProperty(globalThis, name, { value, writable: true, configurable: true, enumerable: false });
+  }
+  installation = { factory, options, replaced };
+  return factory;
+}
+
+/**
+ * Put back whatever the globals were before install(), and close the
+ * factory (its connections are closed forcibly). Resolves once closed.
+ */
+export function uninstall(): Promise<void> {
+  if (!installation) return Promise.resolve();
+  const { factory, replaced } = installation;
+  installation = null;
+  for (const [name, descriptor] of replaced) {
+    if (descriptor) {
+      Object.defineProperty(globalThis, name, descriptor);
+    } else {
+      delete (globalThis as any)[name];
+    }
+  }
+  return factory.close();
+}
+
+/**
+ * Replace `indexedDB` with a new factory on the same storage, closing the
+ * old one. In memory (the default) that means starting from no databases;
+ * on disk the databases are kept.
+ */
+export async function reset(): Promise<IDBFactory> {
+  const options = installation?.options ?? defaultGlobalOptions();
+  await uninstall();
+  return install(options);
+}
@@ -6,6 +6,23 @@ import { _setObjectStoreFactory } from './IDBTransaction.ts';
 _setObjectStoreFactory((transaction, name) => new IDBObjectStore(transaction, name));
 
 export { IDBFactory } from './IDBFactory.ts';
+export type { IDBFactoryOptions, BackupOptions, RestoreOptions } from './IDBFactory.ts';
+export type { ListenerErrorHandler } from './scheduling.ts';
+export { SQLiteBackend } from './sqlite-backend.ts';
+export { RemoteStorageError } from './worker-sharing.ts';
+export type {
+  StorageBackend,
+  StorageSnapshot,
+  ConnectionCoordinator,
+  CursorSeek,
+  CursorDirection,
+  KeyBytes,
+  ObjectStoreMetadata,
+  IndexMetadata,
+  StoredRecord,
+  StoredIndexEntry,
+  BackupProgress,
+} from './storage-backend.ts';
 export { IDBKeyRange } from './IDBKeyRange.ts';
 export { IDBRequest, IDBOpenDBRequest } from './IDBRequest.ts';
 export { IDBDatabase } from './IDBDatabase.ts';
@@ -14,5 +31,9 @@ export { IDBObjectStore } from './IDBObjectStore.ts';
 export { IDBIndex } from './IDBIndex.ts';
 export { IDBCursor, IDBCursorWithValue } from './IDBCursor.ts';
 export { IDBRecord } from './IDBRecord.ts';
+export type { IterateOptions } from './cursor-iterator.ts';
 export { IDBVersionChangeEvent } from './IDBVersionChangeEvent.ts';
 export { DOMStringList } from './DOMStringList.ts';
+export { exportDatabase, importDatabase } from './export.ts';
+export type { DumpFormat, ExportOptions, ImportOptions } from './export.ts';
+export type { IntegrityOptions, IntegrityReport, IntegrityProblem, IntegrityProblemKind } from './integrity.ts';
@@ -0,0 +1,194 @@
+// Integrity check and index rebuild (IDBFactory.checkIntegrity() and the
+// CLI's `check` command)
+//
+// Besides SQLite's own integrity_check, every index is compared with what
+// its store's records call for: the index keys are recomputed from each
+// stored value, following the same key path and multiEntry rules as writes.
+// Goes through the StorageBackend's optional integrity methods.
+
+import { decodeKey } from './keys.ts';
+import { indexKeysForValue } from './keypath.ts';
+import { deserialize } from './structured-clone.ts';
+import type { StorageBackend, StorageReader } from './storage-backend.ts';
+import type { IDBValidKey } from './types.ts';
+
+export type IntegrityProblemKind =
+  // An index entry for a record that doesn't exist
+  | 'dangling-entry'
+  // An index entry the record's value doesn't call for
+  | 'stale-entry'
+  // An index entry the record's value calls for that isn't there
+  | 'missing-entry'
+  // Records sharing a key in a unique index; the index can't be rebuilt
+  | 'unique-violation'
+  // A record whose value can't be deserialized; its store's indexes can't
+  // be checked for it, or rebuilt
+  | 'unreadable-record';
+
+export interface IntegrityProblem {
+  kind: IntegrityProblemKind;
+  store: string;
+  // Null for an unreadable record
+  index: string | null;
+  // Keys that don't decode are given as their stored bytes, in a Buffer
+  key: IDBValidKey | Buffer;
+  primaryKey: IDBValidKey | Buffer;
+}
+
+export interface IntegrityReport {
+  /** True if nothing is wrong (or everything wrong was repaired) */
+  ok: boolean;
+  /** What SQLite's integrity_check found */
+  storageErrors: string[];
+  problems: IntegrityProblem[];
+  /** Indexes that were rebuilt, when repairing */
+  rebuilt: Array<{ store: string; index: string }>;
+}
+
+export interface IntegrityOptions {
+  /** Rebuild the indexes found wrong from the records */
+  repair?: boolean;
+}
+
+interface IndexCheck {
+  store: string;
+  name: string;
+  id: number;
+  unique: boolean;
+  // Entries the records call for, by hex of index key and primary key
+  expected: Map<string, { key: Uint8Array; primaryKey: Buffer }>;
+  problems: IntegrityProblem[];
+}
+
+/** Check one database, only reading (a snapshot will do) */
+export function checkDatabase(reader: StorageReader, dbName: string): IntegrityReport {
+  return check(reader, dbName, null);
+}
+
+/**
+ * Check one database and rebuild the indexes found wrong. The caller must
+ * run this as a transaction that has the database to itself.
+ */
+export function repairDatabase(backend: StorageBackend, dbName: string): IntegrityReport {
+  // Begun without a scope, the transaction holds the write lock from the
+  // start, so other processes can't change the records between the scan and
+  // the rebuild
+  backend.beginSavepoint(dbName, 'integrity_repair');
+  try {
+    const report = check(backend, dbName, backend);
+    backend.releaseSavepoint(dbName, 'integrity_repair');
+    return report;
+  } catch (err) {
+    backend.rollbackSavepoint(dbName, 'integrity_repair');
+    throw err;
+  }
+}
+
+function check(backend: StorageReader, dbName: string, repairWith: StorageBackend | null): IntegrityReport {
+  const storageErrors = backend.checkStorage!(dbName);
+  const indexes: IndexCheck[] = [];
+  const unreadable: IntegrityProblem[] = [];
+  // Stores with unreadable records, whose indexes can't be rebuilt
+  const unreadableStores = new Set<string>();
+
+  for (const storeName of backend.getObjectStoreNames(dbName)) {
+    const store = backend.getObjectStoreMetadata(dbName, storeName)!;
+    const checks: IndexCheck[] = backend.getIndexNames(dbName, store.id).map((name) => {
+      const index = backend.getIndexMetadata(dbName, store.id, name)!;
+      return { store: storeName, name, id: index.id, unique: index.unique, expected: new Map(), problems: [] };
+    });
+    const metadata = checks.length > 0 ? backend.getIndexesForStore(dbName, store.id) : [];
+    const primaryKeys = new Set<string>();
+    // Hex primary keys of the store's unreadable records
+    const unreadableKeys = new Set<string>();
+    // Owner of each key of the unique indexes, by index id and hex of the key
+    const owners = new Map<number, Map<string, Buffer>>();
+
+    for (const record of backend.iterateRecords(dbName, store.id)) {
+      const hexPrimaryKey = record.key.toString('hex');
+      primaryKeys.add(hexPrimaryKey);
+      let value: unknown;
+      try {
+        value = deserialize(record.value);
+      } catch {
+        unreadableKeys.add(hexPrimaryKey);
+        const primaryKey = decodeStoredKey(record.key);
+        unreadable.push({ kind: 'unreadable-record', store: storeName, index: null, key: primaryKey, primaryKey });
+        continue;
+      }
+      for (const check of checks) {
+        const index = metadata.find((m) => m.id === check.id)!;
+        for (const key of indexKeysForValue(value, index.keyPath, index.multiEntry)) {
+          const hexKey = Buffer.from(key).toString('hex');
+          check.expected.set(`${hexKey}:${hexPrimaryKey}`, { key, primaryKey: record.key });
+          if (!check.unique) continue;
+          let indexOwners = owners.get(check.id);
+          if (!indexOwners) {
+            indexOwners = new Map();
+            owners.set(check.id, indexOwners);
+          }
+          if (indexOwners.has(hexKey)) {
+            check.problems.push(problem('unique-violation', check, key, record.key));
+          } else {
+            indexOwners.set(hexKey, record.key);
+          }
+        }
+      }
+    }
+
+    for (const check of checks) {
+      const found = new Set<string>();
+      for (const entry of backend.iterateIndexEntries!(dbName, check.id)) {
+        const hexPrimaryKey = entry.primaryKey.toString('hex');
+        // What an unreadable record calls for is unknown
+        if (unreadableKeys.has(hexPrimaryKey)) continue;
+        const id = `${entry.key.toString('hex')}:${hexPrimaryKey}`;
+        if (check.expected.has(id)) {
+          found.add(id);
+        } else {
+          const kind = primaryKeys.has(hexPrimaryKey) ? 'stale-entry' : 'dangling-entry';
+          check.problems.push(problem(kind, check, entry.key, entry.primaryKey));
+        }
+      }
+      for (const [id, entry] of check.expected) {
+        if (!found.has(id)) {
+          check.problems.push(problem('missing-entry', check, entry.key, entry.primaryKey));
+        }
+      }
+      indexes.push(check);
+    }
+    if (unreadableKeys.size > 0) unreadableStores.add(storeName);
+  }
+
+  const rebuilt: Array<{ store: string; index: string }> = [];
+  const broken = indexes.filter((check) => check.problems.length > 0);
+  const rebuildable = broken.filter((check) => (
+    !unreadableStores.has(check.store) && !check.problems.some((p) => p.kind === 'unique-violation')
+  ));
+  if (repairWith) {
+    for (const check of rebuildable) {
+      repairWith.clearIndexEntries!(dbName, check.id);
+      for (const entry of check.expected.values()) {
+        repairWith.addIndexEntry(dbName, check.id, entry.key, entry.primaryKey);
+      }
+      rebuilt.push({ store: check.store, index: check.name });
+    }
+  }
+
+  const problems = [...unreadable, ...broken.flatMap((check) => check.problems)];
+  const unrepaired = repairWith ? broken.length - rebuilt.length : broken.length;
+  const ok = storageErrors.length === 0 && unreadable.length === 0 && unrepaired === 0;
+  return { ok, storageErrors, problems, rebuilt };
+}
+
+function problem(kind: IntegrityProblemKind, check: IndexCheck, key: Uint8Array, primaryKey: Buffer): IntegrityProblem {
+  return { kind, store: check.store, index: check.name, key: decodeStoredKey(key), primaryKey: decodeStoredKey(primaryKey) };
+}
+
+function decodeStoredKey(bytes: Uint8Array): IDBValidKey | Buffer {
+  try {
+    return decodeKey(bytes);
+  } catch {
+    return Buffer.from(bytes);
+  }
+}
@@ -1,7 +1,7 @@
 // Key path validation and evaluation per IndexedDB spec
 // https://w3c.github.io/IndexedDB/#key-path-construct
 
-import { valueToKey } from './keys.ts';
+import { valueToKey, encodeKey } from './keys.ts';
 import type { IDBValidKey } from './types.ts';
 
 /**
@@ -139,6 +139,36 @@ export function extractKeyFromValue(value: any, keyPath: string | string[]): IDB
   return result;
 }
 
+/**
+ * The encoded keys a record with `value` has in an index: none if the key
+ * path doesn't yield a key, and for a multiEntry index whose key path yields
+ * an array, each distinct valid key in it.
+ */
+export function indexKeysForValue(value: any, keyPath: string | string[], multiEntry: boolean): Uint8Array[] {
+  if (multiEntry && typeof keyPath === 'string') {
+    const rawValue = evaluateKeyPathRaw(value, keyPath);
+    if (rawValue === undefined || rawValue === null) return [];
+    if (!Array.isArray(rawValue)) {
+      const k = valueToKey(rawValue);
+      return k === null ? [] : [encodeKey(k)];
+    }
+    const keys: Uint8Array[] = [];
+    const seen = new Set<string>();
+    for (const item of rawValue) {
+      const k = valueToKey(item);
+      if (k === null) continue;
+      const encoded = encodeKey(k);
+      const encodedStr = Buffer.from(encoded).toString('hex');
+      if (seen.has(encodedStr)) continue;
+      seen.add(encodedStr);
+      keys.push(encoded);
+    }
+    return keys;
+  }
+  const k = extractKeyFromValue(value, keyPath);
+  return k === null ? [] : [encodeKey(k)];
+}
+
 /**
  * Inject a key into a value at the given key path.
  * Creates intermediate objects as needed.
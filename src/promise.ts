@@ -0,0 +1,447 @@
+// Promise-based API over the IDB classes.
+//
+// Promises are settled from inside the request's event handler, and wrapper
+// objects are never thenables. Settling one keeps the transaction active
+// until the microtask queue has drained (see
+// IDBTransaction._keepActiveThroughMicrotasks), so code after `await`, however
+// many async functions deep, can still make requests in it, as can code
+// awaiting after creating a transaction. Awaiting anything else (a timer,
+// I/O, a promise settled outside the transaction) lets the transaction
+// deactivate and commit, just as with the event-based API.
+//
+// A request that fails aborts its transaction unless handled, so promises of
+// requests nobody awaits don't report unhandled rejections: the failure still
+// surfaces through `tx.done`.
+
+import type { DOMStringList } from './DOMStringList.ts';
+import type { IDBCursor, IDBCursorWithValue } from './IDBCursor.ts';
+import type { IDBDatabase } from './IDBDatabase.ts';
+import type { IDBFactory } from './IDBFactory.ts';
+import type { IDBIndex } from './IDBIndex.ts';
+import type { IDBObjectStore } from './IDBObjectStore.ts';
+import type { IDBRecord } from './IDBRecord.ts';
+import type { IDBOpenDBRequest, IDBRequest } from './IDBRequest.ts';
+import type { IDBTransaction } from './IDBTransaction.ts';
+import type { IDBVersionChangeEvent } from './IDBVersionChangeEvent.ts';
+import type { IterateOptions } from './cursor-iterator.ts';
+import type { IDBTransactionDurability, IDBValidKey } from './types.ts';
+
+export interface OpenDBCallbacks {
+  /**
+   * Runs in the versionchange transaction when the database is created or
+   * upgraded. `newVersion` is null only if the open was for deletion.
+   */
+  upgrade?(db: PromiseDatabase, oldVersion: number, newVersion: number | null, transaction: PromiseTransaction): void;
+  /** Other connections keep the open waiting */
+  blocked?(oldVersion: number, newVersion: number | null): void;
+  /** This connection blocks another's upgrade or deletion; close it */
+  blocking?(oldVersion: number, newVersion: number | null): void;
+  /** The connection was closed forcibly */
+  terminated?(): void;
+}
+
+/** Open a database; see IDBFactory.open() */
+export function openDB(
+  factory: IDBFactory,
+  name: string,
+  version?: number,
+  callbacks: OpenDBCallbacks = {}
+): Promise<PromiseDatabase> {
+  const request = factory.open(name, version);
+  if (callbacks.upgrade) {
+    const upgrade = callbacks.upgrade;
+    request.onupgradeneeded = (event) => {
+      const { oldVersion, newVersion } = event as IDBVersionChangeEvent;
+      const db = new PromiseDatabase(request.result);
+      (request.transaction as IDBTransaction)._keepActiveThroughMicrotasks();
+      upgrade(db, oldVersion, newVersion, wrapTransaction(request.transaction as IDBTransaction, db));
+    };
+  }
+  if (callbacks.blocked) {
+    const blocked = callbacks.blocked;
+    request.onblocked = (event) => {
+      const { oldVersion, newVersion } = event as IDBVersionChangeEvent;
+      blocked(oldVersion, newVersion);
+    };
+  }
+  return promisify(request, (raw: IDBDatabase) => {
+    if (callbacks.blocking) {
+      const blocking = callbacks.blocking;
+      raw.addEventListener('versionchange', (event) => {
+        const { oldVersion, newVersion } = event as IDBVersionChangeEvent;
+        blocking(oldVersion, newVersion);
+      });
+    }
+    if (callbacks.terminated) {
+      raw.addEventListener('close', () => callbacks.terminated!());
+    }
+    return new PromiseDatabase(raw);
+  });
+}
+
+/** Delete a database; `blocked` runs while other connections keep it waiting */
+export function deleteDB(
+  factory: IDBFactory,
+  name: string,
+  callbacks: Pick<OpenDBCallbacks, 'blocked'> = {}
+): Promise<void> {
+  const request = factory.deleteDatabase(name);
+  if (callbacks.blocked) {
+    const blocked = callbacks.blocked;
+    request.onblocked = (event) => {
+      const { oldVersion, newVersion } = event as IDBVersionChangeEvent;
+      blocked(oldVersion, newVersion);
+    };
+  }
+  return promisify(request, () => undefined);
+}
+
+export class PromiseDatabase {
+  readonly raw: IDBDatabase;
+
+  constructor(raw: IDBDatabase) {
+    this.raw = raw;
+  }
+
+  get name(): string {
+    return this.raw.name;
+  }
+
+  get version(): number {
+    return this.raw.version;
+  }
+
+  get objectStoreNames(): DOMStringList {
+    return this.raw.objectStoreNames;
+  }
+
+  transaction(
+    storeNames: string | string[],
+    mode?: IDBTransactionMode,
+    options?: { durability?: IDBTransactionDurability }
+  ): PromiseTransaction {
+    const raw = this.raw.transaction(storeNames, mode, options);
+    raw._keepActiveThroughMicrotasks();
+    return wrapTransaction(raw, this);
+  }
+
+  /** Only in the upgrade callback */
+  createObjectStore(name: string, options?: { keyPath?: string | string[] | null; autoIncrement?: boolean }): PromiseObjectStore {
+    const store = this.raw.createObjectStore(name, options);
+    return new PromiseObjectStore(store, wrapTransaction(store.transaction, this));
+  }
+
+  /** Only in the upgrade callback */
+  deleteObjectStore(name: string): void {
+    this.raw.deleteObjectStore(name);
+  }
+
+  close(): void {
+    this.raw.close();
+  }
+}
+
+export class PromiseTransaction {
+  readonly raw: IDBTransaction;
+  readonly db: PromiseDatabase;
+  /** Resolves when the transaction commits; rejects with its error if it aborts */
+  readonly done: Promise<void>;
+
+  constructor(raw: IDBTransaction, db: PromiseDatabase) {
+    this.raw = raw;
+    this.db = db;
+    this.done = new Promise((resolve, reject) => {
+      raw.addEventListener('complete', () => resolve());
+      raw.addEventListener('abort', () => {
+        reject(raw.error ?? new DOMException('The transaction was aborted.', 'AbortError'));
+      });
+    });
+    this.done.catch(() => {});
+  }
+
+  get mode(): IDBTransactionMode {
+    return this.raw.mode;
+  }
+
+  get objectStoreNames(): DOMStringList {
+    return this.raw.objectStoreNames;
+  }
+
+  objectStore(name: string): PromiseObjectStore {
+    return new PromiseObjectStore(this.raw.objectStore(name), this);
+  }
+
+  abort(): void {
+    this.raw.abort();
+  }
+
+  commit(): void {
+    this.raw.commit();
+  }
+}
+
+// The versionchange transaction is wrapped for the upgrade callback and again
+// by createObjectStore(): both get the same wrapper, with one `done`
+const wrappedTransactions = new WeakMap<IDBTransaction, PromiseTransaction>();
+
+function wrapTransaction(raw: IDBTransaction, db: PromiseDatabase): PromiseTransaction {
+  let transaction = wrappedTransactions.get(raw);
+  if (!transaction) {
+    transaction = new PromiseTransaction(raw, db);
+    wrappedTransactions.set(raw, transaction);
+  }
+  return transaction;
+}
+
+export class PromiseObjectStore {
+  readonly raw: IDBObjectStore;
+  readonly transaction: PromiseTransaction;
+
+  constructor(raw: IDBObjectStore, transaction: PromiseTransaction) {
+    this.raw = raw;
+    this.transaction = transaction;
+  }
+
+  get name(): string {
+    return this.raw.name;
+  }
+
+  get keyPath(): string | string[] | null {
+    return this.raw.keyPath;
+  }
+
+  get autoIncrement(): boolean {
+    return this.raw.autoIncrement;
+  }
+
+  get indexNames(): DOMStringList {
+    return this.raw.indexNames;
+  }
+
+  get(query: any): Promise<any> {
+    return promisify(this.raw.get(query));
+  }
+
+  getKey(query: any): Promise<IDBValidKey | undefined> {
+    return promisify(this.raw.getKey(query));
+  }
+
+  getAll(query?: any, count?: number): Promise<any[]> {
+    return promisify(this.raw.getAll(query, count));
+  }
+
+  getAllKeys(query?: any, count?: number): Promise<IDBValidKey[]> {
+    return promisify(this.raw.getAllKeys(query, count));
+  }
+
+  count(query?: any): Promise<number> {
+    return promisify(this.raw.count(query));
+  }
+
+  put(value: any, key?: any): Promise<IDBValidKey> {
+    return promisify(this.raw.put(value, key));
+  }
+
+  add(value: any, key?: any): Promise<IDBValidKey> {
+    return promisify(this.raw.add(value, key));
+  }
+
+  /** See IDBObjectStore.putAll() */
+  putAll(values: Iterable<any>, keys?: Iterable<any>): Promise<IDBValidKey[]> {
+    return promisify(this.raw.putAll(values, keys));
+  }
+
+  /** See IDBObjectStore.addAll() */
+  addAll(values: Iterable<any>, keys?: Iterable<any>): Promise<IDBValidKey[]> {
+    return promisify(this.raw.addAll(values, keys));
+  }
+
+  delete(query: any): Promise<void> {
+    return promisify(this.raw.delete(query));
+  }
+
+  /** See IDBObjectStore.deleteMany() */
+  deleteMany(keys: Iterable<any>): Promise<void> {
+    return promisify(this.raw.deleteMany(keys));
+  }
+
+  clear(): Promise<void> {
+    return promisify(this.raw.clear());
+  }
+
+  index(name: string): PromiseIndex {
+    return new PromiseIndex(this.raw.index(name), this);
+  }
+
+  /** Only in the upgrade callback */
+  createIndex(name: string, keyPath: string | string[], options?: { unique?: boolean; multiEntry?: boolean }): PromiseIndex {
+    return new PromiseIndex(this.raw.createIndex(name, keyPath, options), this);
+  }
+
+  /** Only in the upgrade callback */
+  deleteIndex(name: string): void {
+    this.raw.deleteIndex(name);
+  }
+
+  /** Resolves with the cursor at the first record, or null if there is none */
+  openCursor(query?: any, direction?: IDBCursorDirection): Promise<PromiseCursorWithValue | null> {
+    return openCursor(this.raw.openCursor(query, direction), PromiseCursorWithValue);
+  }
+
+  openKeyCursor(query?: any, direction?: IDBCursorDirection): Promise<PromiseCursor | null> {
+    return openCursor(this.raw.openKeyCursor(query, direction), PromiseCursor);
+  }
+
+  /** See IDBObjectStore.iterate() */
+  iterate(query?: any, options?: IterateOptions): AsyncIterableIterator<IDBRecord> {
+    return this.raw.iterate(query, options);
+  }
+}
+
+export class PromiseIndex {
+  readonly raw: IDBIndex;
+  readonly objectStore: PromiseObjectStore;
+
+  constructor(raw: IDBIndex, objectStore: PromiseObjectStore) {
+    this.raw = raw;
+    this.objectStore = objectStore;
+  }
+
+  get name(): string {
+    return this.raw.name;
+  }
+
+  get keyPath(): string | string[] {
+    return this.raw.keyPath;
+  }
+
+  get unique(): boolean {
+    return this.raw.unique;
+  }
+
+  get multiEntry(): boolean {
+    return this.raw.multiEntry;
+  }
+
+  get(query: any): Promise<any> {
+    return promisify(this.raw.get(query));
+  }
+
+  getKey(query: any): Promise<IDBValidKey | undefined> {
+    return promisify(this.raw.getKey(query));
+  }
+
+  getAll(query?: any, count?: number): Promise<any[]> {
+    return promisify(this.raw.getAll(query, count));
+  }
+
+  getAllKeys(query?: any, count?: number): Promise<IDBValidKey[]> {
+    return promisify(this.raw.getAllKeys(query, count));
+  }
+
+  count(query?: any): Promise<number> {
+    return promisify(this.raw.count(query));
+  }
+
+  openCursor(query?: any, direction?: IDBCursorDirection): Promise<PromiseCursorWithValue | null> {
+    return openCursor(this.raw.openCursor(query, direction), PromiseCursorWithValue);
+  }
+
+  openKeyCursor(query?: any, direction?: IDBCursorDirection): Promise<PromiseCursor | null> {
+    return openCursor(this.raw.openKeyCursor(query, direction), PromiseCursor);
+  }
+
+  /** See IDBIndex.iterate() */
+  iterate(query?: any, options?: IterateOptions): AsyncIterableIterator<IDBRecord> {
+    return this.raw.iterate(query, options);
+  }
+}
+
+/**
+ * A cursor whose steps return promises. Each step resolves with the same
+ * object (moved to the next record), or null once the cursor is exhausted.
+ */
+export class PromiseCursor {
+  readonly raw: IDBCursor;
+  readonly request: IDBRequest;
+
+  constructor(raw: IDBCursor, request: IDBRequest) {
+    this.raw = raw;
+    this.request = request;
+  }
+
+  get key(): IDBValidKey | undefined {
+    return this.raw.key;
+  }
+
+  get primaryKey(): IDBValidKey | undefined {
+    return this.raw.primaryKey;
+  }
+
+  get direction(): IDBCursorDirection {
+    return this.raw.direction;
+  }
+
+  continue(key?: any): Promise<this | null> {
+    this.raw.continue(key);
+    return this._step();
+  }
+
+  continuePrimaryKey(key: any, primaryKey: any): Promise<this | null> {
+    this.raw.continuePrimaryKey(key, primaryKey);
+    return this._step();
+  }
+
+  advance(count: number): Promise<this | null> {
+    this.raw.advance(count);
+    return this._step();
+  }
+
+  update(value: any): Promise<IDBValidKey> {
+    return promisify(this.raw.update(value));
+  }
+
+  delete(): Promise<void> {
+    return promisify(this.raw.delete());
+  }
+
+  private _step(): Promise<this | null> {
+    return promisify(this.request, (cursor: IDBCursor | null) => (cursor ? this : null));
+  }
+}
+
+export class PromiseCursorWithValue extends PromiseCursor {
+  get value(): any {
+    return (this.raw as IDBCursorWithValue).value;
+  }
+}
+
+function openCursor<T extends PromiseCursor>(
+  request: IDBRequest,
+  Cursor: new (raw: IDBCursor, request: IDBRequest) => T
+): Promise<T | null> {
+  return promisify(request, (cursor: IDBCursor | null) => (cursor ? new Cursor(cursor, request) : null));
+}
+
+/**
+ * Settle with the request's result (passed through `wrap`) or error. The
+ * handlers are replaced, so a cursor's request can be promisified per step.
+ */
+function promisify<T = any>(request: IDBRequest | IDBOpenDBRequest, wrap?: (result: any) => T): Promise<T> {
+  const promise = new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => {
+      request.transaction?._keepActiveThroughMicrotasks();
+      try {
+        resolve(wrap ? wrap(request.result) : request.result);
+      } catch (err) {
+        reject(err);
+      }
+    };
+    request.onerror = () => {
+      request.transaction?._keepActiveThroughMicrotasks();
+      reject(request.error);
+    };
+  });
+  promise.catch(() => {});
+  return promise;
+}
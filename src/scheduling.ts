@@ -10,6 +10,13 @@ export function queueTask(fn: () => void): void {
   setTimeout(fn, 0);
 }
 
+/**
+ * Receives exceptions thrown by event listeners (IDBFactoryOptions.onListenerError).
+ * `listenerTarget` is the object whose listener threw; `event.target` is the
+ * request, transaction or connection the event was dispatched at.
+ */
+export type ListenerErrorHandler = (error: unknown, event: Event, listenerTarget: EventTarget) => void;
+
 /**
  * Listener tracking for IDB event targets.
  * We track listeners ourselves so we can invoke them on ancestor nodes
@@ -83,9 +90,15 @@ export function initEventTarget(target: EventTarget): void {
  * @param target - The event target (e.g., IDBRequest)
  * @param ancestors - Ancestors from innermost to outermost (e.g., [transaction, database])
  * @param event - The event to dispatch
+ * @param onListenerError - Where exceptions thrown by listeners are reported
  * @returns true if preventDefault was NOT called
  */
-export function idbDispatchEvent(target: EventTarget, ancestors: EventTarget[], event: Event): boolean {
+export function idbDispatchEvent(
+  target: EventTarget,
+  ancestors: EventTarget[],
+  event: Event,
+  onListenerError: ListenerErrorHandler | null = null
+): boolean {
   // Set event.target to the actual target
   Object.defineProperty(event, 'target', { value: target, configurable: true });
 
@@ -95,13 +108,13 @@ export function idbDispatchEvent(target: EventTarget, ancestors: EventTarget[],
   // Capture phase: outermost to innermost ancestors
   for (let i = ancestors.length - 1; i >= 0; i--) {
     if (event.cancelBubble) break;
-    if (invokeListeners(ancestors[i], event, 'capture')) exceptionThrown = true;
+    if (invokeListeners(ancestors[i], event, 'capture', onListenerError)) exceptionThrown = true;
   }
 
   // Target phase: invoke tracked listeners directly (not via native dispatchEvent)
   // This gives us consistent try/catch exception handling.
   if (!event.cancelBubble) {
-    if (invokeTargetListeners(target, event)) exceptionThrown = true;
+    if (invokeTargetListeners(target, event, onListenerError)) exceptionThrown = true;
   }
 
   // Bubble phase: innermost to outermost ancestors
@@ -117,7 +130,7 @@ export function idbDispatchEvent(target: EventTarget, ancestors: EventTarget[],
           listeners.push({ type: event.type, callback: ancestorHandler, capture: false, once: true });
         }
       }
-      if (invokeListeners(ancestors[i], event, 'bubble')) exceptionThrown = true;
+      if (invokeListeners(ancestors[i], event, 'bubble', onListenerError)) exceptionThrown = true;
     }
   }
 
@@ -137,7 +150,8 @@ export function idbDispatchEvent(target: EventTarget, ancestors: EventTarget[],
 function invokeListeners(
   target: EventTarget,
   event: Event,
-  phase: 'capture' | 'bubble'
+  phase: 'capture' | 'bubble',
+  onListenerError: ListenerErrorHandler | null
 ): boolean {
   const listeners = listenerMap.get(target);
   if (!listeners) return false;
@@ -166,7 +180,7 @@ function invokeListeners(
       threw = true;
       // Report the error asynchronously (like the browser does for uncaught exceptions
       // in event handlers), but don't stop subsequent listeners.
-      reportListenerException(e);
+      reportListenerException(e, event, target, onListenerError);
     }
   }
   return threw;
@@ -179,7 +193,7 @@ function invokeListeners(
  *
  * @returns true if any listener threw an exception
  */
-function invokeTargetListeners(target: EventTarget, event: Event): boolean {
+function invokeTargetListeners(target: EventTarget, event: Event, onListenerError: ListenerErrorHandler | null): boolean {
   const listeners = listenerMap.get(target);
   if (!listeners) return false;
   const type = event.type;
@@ -210,7 +224,7 @@ function invokeTargetListeners(target: EventTarget, event: Event): boolean {
       fn.call(target, event);
     } catch (e) {
       threw = true;
-      reportListenerException(e);
+      reportListenerException(e, event, target, onListenerError);
     }
   }
   return threw;
@@ -218,12 +232,25 @@ function invokeTargetListeners(target: EventTarget, event: Event): boolean {
 
 /**
  * Report an exception thrown by an event listener.
- * In a browser, this would fire a global 'error' event on window.
- * In Node, we silently swallow it — the IDB spec says exceptions
- * during event dispatch are "reported" but should not crash the process.
- * The test harness uses setup({allow_uncaught_exception: true}) for these.
+ * In a browser, this would fire a global 'error' event on window. In Node
+ * it goes to the factory's onListenerError, if any, and is otherwise
+ * dropped: the IDB spec behavior is to abort the transaction (which we
+ * handle in _dispatchRequestEvent), not to crash the process. The test
+ * harness uses setup({allow_uncaught_exception: true}) for these.
  */
-function reportListenerException(_e: unknown): void {
-  // Silently swallow — the IDB spec behavior is to abort the transaction
-  // (which we handle in _dispatchRequestEvent), not to crash the process.
+function reportListenerException(
+  error: unknown,
+  event: Event,
+  listenerTarget: EventTarget,
+  onListenerError: ListenerErrorHandler | null
+): void {
+  if (!onListenerError) return;
+  try {
+    onListenerError(error, event, listenerTarget);
+  } catch (handlerError) {
+    // A failing handler is a bug of its own: let it surface as uncaught
+    queueMicrotask(() => {
+      throw handlerError;
+    });
+  }
 }
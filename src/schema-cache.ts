@@ -0,0 +1,105 @@
+// Schema cache
+// Object store and index metadata for one connection, read from the backend
+// once. The schema only changes in the connection's own versionchange
+// transaction (other connections' upgrades wait for this one to close), which
+// calls invalidate() after each change and after rolling back.
+//
+// Key generator numbers change with every write, so they are not cached.
+
+import type { IndexMetadata, StorageBackend } from './storage-backend.ts';
+
+export interface StoreSchema {
+  id: number;
+  keyPath: string | string[] | null;
+  autoIncrement: boolean;
+}
+
+interface CachedStore extends StoreSchema {
+  indexes: IndexMetadata[] | null;
+  indexNames: string[] | null;
+  // By name; null for names known not to exist
+  indexByName: Map<string, IndexMetadata | null>;
+}
+
+export class SchemaCache {
+  private _backend: StorageBackend;
+  private _dbName: string;
+  private _storeNames: string[] | null = null;
+  // By name; null for names known not to exist
+  private _stores: Map<string, CachedStore | null> = new Map();
+  private _byId: Map<number, CachedStore> = new Map();
+
+  constructor(backend: StorageBackend, dbName: string) {
+    this._backend = backend;
+    this._dbName = dbName;
+  }
+
+  /** Object store names, in sorted order */
+  storeNames(): string[] {
+    if (!this._storeNames) {
+      this._storeNames = this._backend.getObjectStoreNames(this._dbName);
+    }
+    // Callers keep and modify the list
+    return this._storeNames.slice();
+  }
+
+  store(name: string): StoreSchema | null {
+    let store = this._stores.get(name);
+    if (store === undefined) {
+      const meta = this._backend.getObjectStoreMetadata(this._dbName, name);
+      store = meta
+        ? { id: meta.id, keyPath: meta.keyPath, autoIncrement: meta.autoIncrement, indexes: null, indexNames: null, indexByName: new Map() }
+        : null;
+      this._stores.set(name, store);
+      if (store) this._byId.set(store.id, store);
+    }
+    return store;
+  }
+
+  /** Every index of a store; the array is shared, so don't modify it */
+  indexes(storeId: number): readonly IndexMetadata[] {
+    const store = this._storeById(storeId);
+    if (!store) return this._backend.getIndexesForStore(this._dbName, storeId);
+    if (!store.indexes) {
+      store.indexes = this._backend.getIndexesForStore(this._dbName, storeId);
+    }
+    return store.indexes;
+  }
+
+  indexNames(storeId: number): string[] {
+    const store = this._storeById(storeId);
+    if (!store) return this._backend.getIndexNames(this._dbName, storeId);
+    if (!store.indexNames) {
+      store.indexNames = this._backend.getIndexNames(this._dbName, storeId);
+    }
+    return store.indexNames.slice();
+  }
+
+  index(storeId: number, name: string): IndexMetadata | null {
+    const store = this._storeById(storeId);
+    if (!store) return this._backend.getIndexMetadata(this._dbName, storeId, name);
+    let meta = store.indexByName.get(name);
+    if (meta === undefined) {
+      meta = this._backend.getIndexMetadata(this._dbName, storeId, name);
+      store.indexByName.set(name, meta);
+    }
+    return meta;
+  }
+
+  private _storeById(storeId: number): CachedStore | null {
+    if (!this._byId.has(storeId)) {
+      // Invalidated since the store was looked up by name
+      for (const name of this.storeNames()) {
+        if (this.store(name)?.id === storeId) break;
+      }
+    }
+    return this._byId.get(storeId) ?? null;
+  }
+
+  /** Forget everything; the schema changed or was rolled back */
+  invalidate(): void {
+    this._storeNames = null;
+    this._stores.clear();
+    this._byId.clear();
+  }
+}
@@ -3,11 +3,17 @@
 
 import Database from 'better-sqlite3';
 import type { Statement } from 'better-sqlite3';
-import { mkdirSync, existsSync, unlinkSync } from 'node:fs';
+import { mkdirSync, existsSync, unlinkSync, renameSync } from 'node:fs';
 import { join } from 'node:path';
+import { createHash, randomUUID } from 'node:crypto';
+import type { IDBTransactionDurability } from './types.ts';
+import type { StorageBackend, StorageSnapshot, ConnectionCoordinator, CursorSeek, BackupProgress, RecordWrite } from './storage-backend.ts';
 
 const METADATA_DB = '_metadata.sqlite';
 
+// storagePath that keeps every database in SQLite memory instead of on disk
+export const IN_MEMORY_STORAGE = ':memory:';
+
 // Schema for per-database SQLite files
 const DB_SCHEMA = `
 CREATE TABLE IF NOT EXISTS object_stores (
@@ -43,6 +49,93 @@ CREATE TABLE IF NOT EXISTS index_entries (
 ) WITHOUT ROWID;
 `;
 
+// Pages copied per step of a backup; the event loop runs between steps
+const BACKUP_STEP_PAGES = 100;
+
+// Added to backup files: the database they were taken from
+const BACKUP_INFO_SCHEMA = `
+CREATE TABLE backup_info (
+  name TEXT NOT NULL,
+  version INTEGER NOT NULL
+);
+`;
+
+// Per-connection logs for running readwrite transactions side by side on one
+// connection (see beginSavepoint). undo_log holds the first image of every
+// row a write touched: kind 0 is a record (value NULL if there was none),
+// kind 1 an index entry (value NULL if absent), kind 2 a store's key
+// generator. redo_log holds images to put back after a partial commit.
+const UNDO_SCHEMA = `
+CREATE TEMP TABLE IF NOT EXISTS undo_log (
+  store_id INTEGER NOT NULL,
+  kind INTEGER NOT NULL,
+  id INTEGER NOT NULL,
+  key BLOB NOT NULL,
+  primary_key BLOB NOT NULL,
+  value,
+  PRIMARY KEY (kind, id, key, primary_key)
+) WITHOUT ROWID;
+
+CREATE TEMP TABLE IF NOT EXISTS redo_log (
+  store_id INTEGER NOT NULL,
+  kind INTEGER NOT NULL,
+  id INTEGER NOT NULL,
+  key BLOB NOT NULL,
+  primary_key BLOB NOT NULL,
+  value,
+  PRIMARY KEY (kind, id, key, primary_key)
+) WITHOUT ROWID;
+`;
+
+// SQLite `synchronous` level for each transaction durability. In WAL mode FULL
+// syncs the WAL on every commit; NORMAL only syncs at checkpoints, so the most
+// recent commits can be lost on power loss (but the database stays consistent).
+const SYNCHRONOUS_LEVELS = { strict: 'FULL', relaxed: 'NORMAL' } as const;
+
+type SyncLevel = (typeof SYNCHRONOUS_LEVELS)[keyof typeof SYNCHRONOUS_LEVELS];
+
+// How long a write waits for another process to let go of a database's write
+// lock before failing with SQLITE_BUSY. The wait blocks the event loop, so it
+// is kept short; the transaction that fails is aborted (see isBusyError)
+const BUSY_TIMEOUT_MS = 100;
+
+// Error codes (with their extended variants) that mean a database file is lost
+const FATAL_ERROR_CODES = ['SQLITE_IOERR', 'SQLITE_CORRUPT', 'SQLITE_NOTADB', 'SQLITE_CANTOPEN', 'SQLITE_READONLY_DBMOVED'];
+
+// Coordination tables in the metadata database, shared by every factory
+// (in any process) using the same storage directory
+const COORDINATION_SCHEMA = `
+CREATE TABLE IF NOT EXISTS connection_locks (
+  name TEXT PRIMARY KEY,
+  owner TEXT NOT NULL,
+  pid INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS connections (
+  id TEXT PRIMARY KEY,
+  owner TEXT NOT NULL,
+  pid INTEGER NOT NULL,
+  name TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS versionchange_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  connection_id TEXT NOT NULL,
+  new_version INTEGER
+);
+
+CREATE TABLE IF NOT EXISTS database_changes (
+  name TEXT PRIMARY KEY,
+  count INTEGER NOT NULL
+);
+`;
+
+// How often to look for versionchange requests, released locks and closed connections
+const COORDINATION_POLL_MS = 25;
+
+// Idle read connections kept per database for later snapshots
+const MAX_IDLE_READERS = 4;
+
 /** Per-database prepared statement cache to avoid re-parsing SQL on every call */
 class StmtCache {
   private _db: Database.Database;
@@ -66,106 +159,39 @@ class StmtCache {
   }
 }
 
-export class SQLiteBackend {
-  private _storagePath: string;
-  private _metaDb: Database.Database;
-  private _metaStmts: StmtCache;
-  // Map of open database connections: dbName -> Database.Database
-  private _openDbs: Map<string, Database.Database> = new Map();
-  // Map of per-database statement caches
-  private _stmtCaches: Map<string, StmtCache> = new Map();
-
-  constructor(storagePath: string) {
-    this._storagePath = storagePath;
-    mkdirSync(storagePath, { recursive: true });
-    this._metaDb = new Database(join(storagePath, METADATA_DB));
-    this._metaDb.pragma('journal_mode = WAL');
-    this._metaDb.exec(
-      'CREATE TABLE IF NOT EXISTS databases (name TEXT PRIMARY KEY, version INTEGER NOT NULL)'
-    );
-    this._metaStmts = new StmtCache(this._metaDb);
-  }
-
-  /** Get or create a database connection for a named IDB database */
-  getDatabase(name: string): Database.Database {
-    let db = this._openDbs.get(name);
-    if (!db) {
-      const dbPath = join(this._storagePath, this._fileNameForDb(name));
-      db = new Database(dbPath);
-      db.pragma('journal_mode = WAL');
-      db.exec(DB_SCHEMA);
-      this._openDbs.set(name, db);
-      this._stmtCaches.set(name, new StmtCache(db));
-    }
-    return db;
-  }
-
-  /** Get the statement cache for a database (creates connection if needed) */
-  private _stmts(dbName: string): StmtCache {
-    this.getDatabase(dbName); // ensure connection + cache exist
-    return this._stmtCaches.get(dbName)!;
-  }
-
-  /** Close a specific database connection */
-  closeDatabase(name: string): void {
-    const db = this._openDbs.get(name);
-    if (db) {
-      this._stmtCaches.delete(name);
-      db.close();
-      this._openDbs.delete(name);
-    }
-  }
-
-  /** Get the stored version of a database, or 0 if it doesn't exist */
-  getDatabaseVersion(name: string): number {
-    const row = this._metaStmts
-      .get('SELECT version FROM databases WHERE name = ?')
-      .get(name) as { version: number } | undefined;
-    return row ? row.version : 0;
-  }
-
-  /** Check if a database exists in metadata */
-  databaseExists(name: string): boolean {
-    const row = this._metaStmts
-      .get('SELECT 1 FROM databases WHERE name = ?')
-      .get(name);
-    return !!row;
-  }
+/** A readwrite (or versionchange) transaction with changes on a connection */
+interface Writer {
+  // Ids of the stores in its scope; null for a versionchange transaction,
+  // which runs alone
+  storeIds: number[] | null;
+  // `synchronous` level its durability calls for
+  level: SyncLevel;
+}
 
-  /** Set the version of a database in metadata */
-  setDatabaseVersion(name: string, version: number): void {
-    this._metaStmts
-      .get('INSERT INTO databases (name, version) VALUES (?, ?) ON CONFLICT(name) DO UPDATE SET version = ?')
-      .run(name, version, version);
-  }
+// Writes of a writer running alone, which aren't logged (see _startLogging)
+interface TouchedRows {
+  // Keys of the records written, by store; null if any record may have changed
+  records: Map<number, Map<string, Buffer> | null>;
+  // Primary keys of the index entries written, by index
+  indexEntries: Map<number, Map<string, Buffer>>;
+  // Stores whose key generator was updated
+  currentKeys: Set<number>;
+}
 
-  /** Delete database metadata and SQLite file */
-  deleteDatabaseRecord(name: string): void {
-    this.closeDatabase(name);
-    this._metaStmts.get('DELETE FROM databases WHERE name = ?').run(name);
-    const dbPath = join(this._storagePath, this._fileNameForDb(name));
-    if (existsSync(dbPath)) {
-      try {
-        unlinkSync(dbPath);
-      } catch {
-        // ignore
-      }
-    }
-    // Also remove WAL/SHM files
-    for (const suffix of ['-wal', '-shm']) {
-      const p = dbPath + suffix;
-      if (existsSync(p)) {
-        try { unlinkSync(p); } catch { /* ignore */ }
-      }
-    }
-  }
+/** A read-only connection used by snapshots */
+interface ReadConnection {
+  db: Database.Database;
+  stmts: StmtCache;
+  busy: boolean;
+}
 
-  /** List all databases */
-  listDatabases(): Array<{ name: string; version: number }> {
-    return this._metaStmts
-      .get('SELECT name, version FROM databases')
-      .all() as Array<{ name: string; version: number }>;
-  }
+/**
+ * The queries that only read, over whichever connection _connection() and
+ * _stmts() hand out for a database: SQLiteBackend's own, or a snapshot's.
+ */
+abstract class SQLiteReads {
+  protected abstract _connection(dbName: string): Database.Database;
+  protected abstract _stmts(dbName: string): StmtCache;
 
   /** Get all object store names for a database */
   getObjectStoreNames(dbName: string): string[] {
@@ -175,32 +201,6 @@ export class SQLiteBackend {
     return rows.map((r) => r.name);
   }
 
-  /** Create an object store */
-  createObjectStore(
-    dbName: string,
-    storeName: string,
-    keyPath: string | string[] | null,
-    autoIncrement: boolean
-  ): number {
-    const result = this._stmts(dbName)
-      .get('INSERT INTO object_stores (name, key_path, auto_increment) VALUES (?, ?, ?)')
-      .run(storeName, keyPath === null ? null : JSON.stringify(keyPath), autoIncrement ? 1 : 0);
-    return Number(result.lastInsertRowid);
-  }
-
-  /** Delete an object store and its records/indexes */
-  deleteObjectStore(dbName: string, storeName: string): void {
-    const stmts = this._stmts(dbName);
-    const store = stmts
-      .get('SELECT id FROM object_stores WHERE name = ?')
-      .get(storeName) as { id: number } | undefined;
-    if (!store) return;
-    stmts.get('DELETE FROM index_entries WHERE index_id IN (SELECT id FROM indexes WHERE object_store_id = ?)').run(store.id);
-    stmts.get('DELETE FROM indexes WHERE object_store_id = ?').run(store.id);
-    stmts.get('DELETE FROM records WHERE object_store_id = ?').run(store.id);
-    stmts.get('DELETE FROM object_stores WHERE id = ?').run(store.id);
-  }
-
   /** Get object store metadata */
   getObjectStoreMetadata(
     dbName: string,
@@ -220,13 +220,6 @@ export class SQLiteBackend {
     };
   }
 
-  /** Put a record into an object store */
-  putRecord(dbName: string, storeId: number, key: Buffer | Uint8Array, value: Buffer | Uint8Array): void {
-    this._stmts(dbName)
-      .get('INSERT OR REPLACE INTO records (object_store_id, key, value) VALUES (?, ?, ?)')
-      .run(storeId, asBuffer(key), asBuffer(value));
-  }
-
   /** Get a record from an object store by exact key */
   getRecord(dbName: string, storeId: number, key: Buffer | Uint8Array): Buffer | null {
     const row = this._stmts(dbName)
@@ -237,7 +230,7 @@ export class SQLiteBackend {
 
   /** Get the first record within a key range */
   getRecordInRange(dbName: string, storeId: number, lower: Buffer | Uint8Array | null, upper: Buffer | Uint8Array | null, lowerOpen: boolean, upperOpen: boolean): { key: Buffer; value: Buffer } | null {
-    const db = this.getDatabase(dbName);
+    const db = this._connection(dbName);
     const { sql, params } = this._buildRangeQuery(
       'SELECT key, value FROM records',
       storeId, lower, upper, lowerOpen, upperOpen
@@ -246,23 +239,6 @@ export class SQLiteBackend {
     return row ?? null;
   }
 
-  /** Delete a record by exact key */
-  deleteRecord(dbName: string, storeId: number, key: Buffer | Uint8Array): void {
-    this._stmts(dbName)
-      .get('DELETE FROM records WHERE object_store_id = ? AND key = ?')
-      .run(storeId, asBuffer(key));
-  }
-
-  /** Delete records within a key range */
-  deleteRecordsInRange(dbName: string, storeId: number, lower: Buffer | Uint8Array | null, upper: Buffer | Uint8Array | null, lowerOpen: boolean, upperOpen: boolean): void {
-    const db = this.getDatabase(dbName);
-    const { sql, params } = this._buildRangeQuery(
-      'DELETE FROM records',
-      storeId, lower, upper, lowerOpen, upperOpen
-    );
-    db.prepare(sql).run(...params);
-  }
-
   /** Count records in an object store, optionally within a range */
   countRecords(dbName: string, storeId: number, lower?: Buffer | Uint8Array | null, upper?: Buffer | Uint8Array | null, lowerOpen?: boolean, upperOpen?: boolean): number {
     if (lower === undefined && upper === undefined) {
@@ -271,7 +247,7 @@ export class SQLiteBackend {
         .get(storeId) as { cnt: number };
       return row.cnt;
     }
-    const db = this.getDatabase(dbName);
+    const db = this._connection(dbName);
     const { sql, params } = this._buildRangeQuery(
       'SELECT COUNT(*) as cnt FROM records',
       storeId, lower ?? null, upper ?? null, lowerOpen ?? false, upperOpen ?? false
@@ -280,35 +256,6 @@ export class SQLiteBackend {
     return row.cnt;
   }
 
-  /** Clear all records from an object store */
-  clearRecords(dbName: string, storeId: number): void {
-    this._stmts(dbName)
-      .get('DELETE FROM records WHERE object_store_id = ?')
-      .run(storeId);
-  }
-
-  /** Check if a unique index constraint would be violated */
-  checkUniqueIndexConstraint(dbName: string, indexId: number, indexKey: Buffer | Uint8Array, excludePrimaryKey?: Buffer | Uint8Array): boolean {
-    const stmts = this._stmts(dbName);
-    if (excludePrimaryKey) {
-      const row = stmts.get(
-        'SELECT 1 FROM index_entries WHERE index_id = ? AND key = ? AND primary_key != ? LIMIT 1'
-      ).get(indexId, asBuffer(indexKey), asBuffer(excludePrimaryKey));
-      return !!row;
-    }
-    const row = stmts.get(
-      'SELECT 1 FROM index_entries WHERE index_id = ? AND key = ? LIMIT 1'
-    ).get(indexId, asBuffer(indexKey));
-    return !!row;
-  }
-
-  /** Delete index entries for a primary key */
-  deleteIndexEntriesForRecord(dbName: string, storeId: number, primaryKey: Buffer | Uint8Array): void {
-    this._stmts(dbName).get(
-      'DELETE FROM index_entries WHERE primary_key = ? AND index_id IN (SELECT id FROM indexes WHERE object_store_id = ?)'
-    ).run(asBuffer(primaryKey), storeId);
-  }
-
   /** Get all indexes for a store */
   getIndexesForStore(dbName: string, storeId: number): Array<{ id: number; keyPath: string | string[]; unique: boolean; multiEntry: boolean }> {
     const rows = this._stmts(dbName).get(
@@ -323,7 +270,7 @@ export class SQLiteBackend {
   }
 
   /** Build a SQL query with range conditions (dynamic SQL, not cacheable) */
-  private _buildRangeQuery(
+  protected _buildRangeQuery(
     prefix: string,
     storeId: number,
     lower: Buffer | Uint8Array | null,
@@ -344,48 +291,6 @@ export class SQLiteBackend {
     return { sql: `${prefix} WHERE ${conditions.join(' AND ')}`, params };
   }
 
-  /** Update auto-increment counter */
-  updateCurrentKey(dbName: string, storeId: number, currentKey: number): void {
-    this._stmts(dbName)
-      .get('UPDATE object_stores SET current_key = ? WHERE id = ?')
-      .run(currentKey, storeId);
-  }
-
-  /** Begin a savepoint for a transaction */
-  beginSavepoint(dbName: string, savepointName: string): void {
-    const db = this.getDatabase(dbName);
-    db.exec(`SAVEPOINT "${savepointName}"`);
-  }
-
-  /** Release (commit) a savepoint */
-  releaseSavepoint(dbName: string, savepointName: string): void {
-    const db = this.getDatabase(dbName);
-    db.exec(`RELEASE SAVEPOINT "${savepointName}"`);
-  }
-
-  /** Rollback to a savepoint */
-  rollbackSavepoint(dbName: string, savepointName: string): void {
-    const db = this.getDatabase(dbName);
-    db.exec(`ROLLBACK TO SAVEPOINT "${savepointName}"`);
-    // Release after rollback to clean up the savepoint
-    db.exec(`RELEASE SAVEPOINT "${savepointName}"`);
-  }
-
-  /** Create an index */
-  createIndex(
-    dbName: string,
-    storeId: number,
-    indexName: string,
-    keyPath: string | string[],
-    unique: boolean,
-    multiEntry: boolean
-  ): number {
-    const result = this._stmts(dbName)
-      .get('INSERT INTO indexes (object_store_id, name, key_path, unique_index, multi_entry) VALUES (?, ?, ?, ?, ?)')
-      .run(storeId, indexName, JSON.stringify(keyPath), unique ? 1 : 0, multiEntry ? 1 : 0);
-    return Number(result.lastInsertRowid);
-  }
-
   /** Get index names for an object store */
   getIndexNames(dbName: string, storeId: number): string[] {
     const rows = this._stmts(dbName)
@@ -414,17 +319,6 @@ export class SQLiteBackend {
     };
   }
 
-  /** Delete an index */
-  deleteIndex(dbName: string, storeId: number, indexName: string): void {
-    const stmts = this._stmts(dbName);
-    const idx = stmts
-      .get('SELECT id FROM indexes WHERE object_store_id = ? AND name = ?')
-      .get(storeId, indexName) as { id: number } | undefined;
-    if (!idx) return;
-    stmts.get('DELETE FROM index_entries WHERE index_id = ?').run(idx.id);
-    stmts.get('DELETE FROM indexes WHERE id = ?').run(idx.id);
-  }
-
   /** Get the first record via an index by exact key */
   getRecordByIndexKey(dbName: string, indexId: number, indexKey: Buffer | Uint8Array): { primaryKey: Buffer; value: Buffer } | null {
     const stmts = this._stmts(dbName);
@@ -440,7 +334,7 @@ export class SQLiteBackend {
 
   /** Get the first record via an index within a key range */
   getRecordByIndexRange(dbName: string, indexId: number, lower: Buffer | Uint8Array | null, upper: Buffer | Uint8Array | null, lowerOpen: boolean, upperOpen: boolean): { primaryKey: Buffer; value: Buffer; indexKey: Buffer } | null {
-    const db = this.getDatabase(dbName);
+    const db = this._connection(dbName);
     const stmts = this._stmts(dbName);
     const storeIdRow = stmts.get('SELECT object_store_id FROM indexes WHERE id = ?').get(indexId) as { object_store_id: number } | undefined;
     if (!storeIdRow) return null;
@@ -480,39 +374,49 @@ export class SQLiteBackend {
       params.push(asBuffer(upper));
     }
     const sql = 'SELECT COUNT(*) as cnt FROM index_entries WHERE ' + conditions.join(' AND ');
-    const db = this.getDatabase(dbName);
+    const db = this._connection(dbName);
     const row = db.prepare(sql).get(...params) as { cnt: number };
     return row.cnt;
   }
 
-  /** Add an index entry */
-  addIndexEntry(dbName: string, indexId: number, key: Buffer | Uint8Array, primaryKey: Buffer | Uint8Array): void {
-    this._stmts(dbName).get(
-      'INSERT OR REPLACE INTO index_entries (index_id, key, primary_key) VALUES (?, ?, ?)'
-    ).run(indexId, asBuffer(key), asBuffer(primaryKey));
-  }
-
-  /** Get records from an object store for cursor iteration */
-  getRecordsForCursor(
+  /**
+   * Get the next record for a cursor step: the first record in range on the
+   * far side of `seek` (in cursor direction), after skipping `skip` records.
+   * Bounded by LIMIT so each step is a single index seek, not a range scan.
+   */
+  getNextRecordForCursor(
     dbName: string,
     storeId: number,
     lower: Buffer | Uint8Array | null,
     upper: Buffer | Uint8Array | null,
     lowerOpen: boolean,
     upperOpen: boolean,
-    direction: 'next' | 'prev' | 'nextunique' | 'prevunique'
-  ): Array<{ key: Buffer; value: Buffer }> {
-    const db = this.getDatabase(dbName);
+    direction: 'next' | 'prev' | 'nextunique' | 'prevunique',
+    seek: CursorSeek | null,
+    skip: number = 0
+  ): { key: Buffer; value: Buffer } | null {
     const { sql, params } = this._buildRangeQuery(
       'SELECT key, value FROM records',
       storeId, lower, upper, lowerOpen, upperOpen
     );
-    const order = (direction === 'prev' || direction === 'prevunique') ? 'DESC' : 'ASC';
-    return db.prepare(sql + ` ORDER BY key ${order}`).all(...params) as Array<{ key: Buffer; value: Buffer }>;
+    const isReverse = direction === 'prev' || direction === 'prevunique';
+    let fullSql = sql;
+    if (seek !== null) {
+      fullSql += ` AND key ${seekOperator(isReverse, seek.inclusive)} ?`;
+      params.push(asBuffer(seek.key));
+    }
+    fullSql += ` ORDER BY key ${isReverse ? 'DESC' : 'ASC'} LIMIT 1 OFFSET ?`;
+    params.push(skip);
+    const row = this._stmts(dbName).get(fullSql).get(...params) as { key: Buffer; value: Buffer } | undefined;
+    return row ?? null;
   }
 
-  /** Get index entries for cursor iteration */
-  getIndexEntriesForCursor(
+  /**
+   * Get the next index entry (joined with its record) for a cursor step.
+   * For unique directions each distinct index key counts once and resolves
+   * to its lowest primary key.
+   */
+  getNextIndexEntryForCursor(
     dbName: string,
     indexId: number,
     storeId: number,
@@ -520,9 +424,10 @@ export class SQLiteBackend {
     upper: Buffer | Uint8Array | null,
     lowerOpen: boolean,
     upperOpen: boolean,
-    direction: 'next' | 'prev' | 'nextunique' | 'prevunique'
-  ): Array<{ index_key: Buffer; primary_key: Buffer; value: Buffer }> {
-    const db = this.getDatabase(dbName);
+    direction: 'next' | 'prev' | 'nextunique' | 'prevunique',
+    seek: CursorSeek | null,
+    skip: number = 0
+  ): { index_key: Buffer; primary_key: Buffer; value: Buffer } | null {
     const conditions: string[] = ['ie.index_id = ?'];
     const params: any[] = [storeId, indexId];
     if (lower !== null) {
@@ -533,25 +438,35 @@ export class SQLiteBackend {
       conditions.push(upperOpen ? 'ie.key < ?' : 'ie.key <= ?');
       params.push(asBuffer(upper));
     }
-    let order: string;
-    if (direction === 'prev') {
-      order = 'ie.key DESC, ie.primary_key DESC';
-    } else if (direction === 'prevunique') {
-      order = 'ie.key DESC, ie.primary_key ASC';
+    const isReverse = direction === 'prev' || direction === 'prevunique';
+    const isUnique = direction === 'nextunique' || direction === 'prevunique';
+    if (seek !== null) {
+      const op = seekOperator(isReverse, seek.inclusive);
+      if (seek.primaryKey !== null) {
+        conditions.push(`(ie.key, ie.primary_key) ${op} (?, ?)`);
+        params.push(asBuffer(seek.key), asBuffer(seek.primaryKey));
+      } else {
+        conditions.push(`ie.key ${op} ?`);
+        params.push(asBuffer(seek.key));
+      }
+    }
+    const order = isReverse ? 'DESC' : 'ASC';
+    let sql: string;
+    if (isUnique) {
+      // SQLite takes bare columns (r.value) from the row that supplied MIN()
+      sql = 'SELECT ie.key as index_key, MIN(ie.primary_key) as primary_key, r.value FROM index_entries ie ' +
+        'JOIN records r ON r.object_store_id = ? AND r.key = ie.primary_key ' +
+        'WHERE ' + conditions.join(' AND ') + ` GROUP BY ie.key ORDER BY ie.key ${order}`;
     } else {
-      order = 'ie.key ASC, ie.primary_key ASC';
+      sql = 'SELECT ie.key as index_key, ie.primary_key, r.value FROM index_entries ie ' +
+        'JOIN records r ON r.object_store_id = ? AND r.key = ie.primary_key ' +
+        'WHERE ' + conditions.join(' AND ') + ` ORDER BY ie.key ${order}, ie.primary_key ${order}`;
     }
-    const sql = 'SELECT ie.key as index_key, ie.primary_key, r.value FROM index_entries ie ' +
-      'JOIN records r ON r.object_store_id = ? AND r.key = ie.primary_key ' +
-      'WHERE ' + conditions.join(' AND ') + ` ORDER BY ${order}`;
-    return db.prepare(sql).all(...params) as Array<{ index_key: Buffer; primary_key: Buffer; value: Buffer }>;
-  }
-
-  /** Get a single record by exact primary key (returns key + value) */
-  getRecordWithKey(dbName: string, storeId: number, key: Buffer | Uint8Array): { key: Buffer; value: Buffer } | null {
-    const row = this._stmts(dbName)
-      .get('SELECT key, value FROM records WHERE object_store_id = ? AND key = ?')
-      .get(storeId, asBuffer(key)) as { key: Buffer; value: Buffer } | undefined;
+    sql += ' LIMIT 1 OFFSET ?';
+    params.push(skip);
+    const row = this._stmts(dbName).get(sql).get(...params) as
+      | { index_key: Buffer; primary_key: Buffer; value: Buffer }
+      | undefined;
     return row ?? null;
   }
 
@@ -566,7 +481,7 @@ export class SQLiteBackend {
     direction: 'next' | 'prev' | 'nextunique' | 'prevunique',
     maxCount?: number
   ): Array<{ key: Buffer; value: Buffer }> {
-    const db = this.getDatabase(dbName);
+    const db = this._connection(dbName);
     const { sql, params } = this._buildRangeQuery(
       'SELECT key, value FROM records',
       storeId, lower, upper, lowerOpen, upperOpen
@@ -591,7 +506,7 @@ export class SQLiteBackend {
     direction: 'next' | 'prev' | 'nextunique' | 'prevunique',
     maxCount?: number
   ): Array<{ index_key: Buffer; primary_key: Buffer; value: Buffer }> {
-    const db = this.getDatabase(dbName);
+    const db = this._connection(dbName);
     const conditions: string[] = ['ie.index_id = ?'];
     const params: any[] = [storeId, indexId];
     if (lower !== null) {
@@ -623,6 +538,742 @@ export class SQLiteBackend {
     return db.prepare(sql).all(...params) as Array<{ index_key: Buffer; primary_key: Buffer; value: Buffer }>;
   }
 
+  /** What PRAGMA integrity_check finds wrong with a database's file (empty if nothing) */
+  checkStorage(dbName: string): string[] {
+    const rows = this._connection(dbName).pragma('integrity_check') as Array<{ integrity_check: string }>;
+    const messages = rows.map((r) => r.integrity_check);
+    return messages.length === 1 && messages[0] === 'ok' ? [] : messages;
+  }
+
+  /** Every record of a store in key order, read as iterated */
+  iterateRecords(dbName: string, storeId: number): IterableIterator<{ key: Buffer; value: Buffer }> {
+    return this._stmts(dbName)
+      .get('SELECT key, value FROM records WHERE object_store_id = ? ORDER BY key')
+      .iterate(storeId) as IterableIterator<{ key: Buffer; value: Buffer }>;
+  }
+
+  /** Every entry of an index, whether or not its record exists, read as iterated */
+  iterateIndexEntries(dbName: string, indexId: number): IterableIterator<{ key: Buffer; primaryKey: Buffer }> {
+    return this._stmts(dbName)
+      .get('SELECT key, primary_key AS primaryKey FROM index_entries WHERE index_id = ?')
+      .iterate(indexId) as IterableIterator<{ key: Buffer; primaryKey: Buffer }>;
+  }
+}
+
+export class SQLiteBackend extends SQLiteReads implements StorageBackend {
+  private _storagePath: string;
+  // In-memory mode: nothing touches the filesystem, and a database's
+  // connection is its only copy of the data
+  private _inMemory: boolean;
+  private _metaDb: Database.Database;
+  private _metaStmts: StmtCache;
+  // Map of open database connections: dbName -> Database.Database
+  private _openDbs: Map<string, Database.Database> = new Map();
+  // Map of per-database statement caches
+  private _stmtCaches: Map<string, StmtCache> = new Map();
+  // Current `synchronous` level of each open connection
+  private _syncLevels: Map<string, SyncLevel> = new Map();
+  // What 'default' transaction durability maps to
+  private _defaultDurability: 'strict' | 'relaxed';
+  // Coordinators sharing the metadata connection
+  private _coordinators: Set<SQLiteCoordinator> = new Set();
+  // Read connections of each database, for snapshots
+  private _readers: Map<string, ReadConnection[]> = new Map();
+  // Transactions with uncommitted changes on each connection, oldest first
+  private _writers: Map<string, Map<string, Writer>> = new Map();
+  // Unlogged writes on each connection whose writer runs alone
+  private _touched: Map<string, TouchedRows> = new Map();
+  // Opened by an inspection tool: nothing is created or written
+  private _readonly: boolean;
+  // Read-only on a directory whose metadata predates the `file` column
+  private _legacyFileNames: boolean = false;
+
+  /**
+   * `readonly` opens an existing storage directory for reading only, for
+   * inspection tools: no database is created or changed, and writes throw.
+   */
+  constructor(storagePath: string, defaultDurability: 'strict' | 'relaxed' = 'strict', readonly: boolean = false) {
+    super();
+    this._storagePath = storagePath;
+    this._defaultDurability = defaultDurability;
+    this._inMemory = storagePath === IN_MEMORY_STORAGE;
+    this._readonly = readonly;
+    if (readonly) {
+      this._metaDb = new Database(join(storagePath, METADATA_DB), { readonly: true, fileMustExist: true });
+      const columns = this._metaDb.pragma('table_info(databases)') as Array<{ name: string }>;
+      this._legacyFileNames = !columns.some((c) => c.name === 'file');
+      this._metaStmts = new StmtCache(this._metaDb);
+      return;
+    }
+    if (this._inMemory) {
+      this._metaDb = new Database(':memory:');
+    } else {
+      mkdirSync(storagePath, { recursive: true });
+      this._metaDb = new Database(join(storagePath, METADATA_DB));
+      this._metaDb.pragma('journal_mode = WAL');
+    }
+    this._metaDb.exec(
+      'CREATE TABLE IF NOT EXISTS databases (name TEXT PRIMARY KEY, version INTEGER NOT NULL, file TEXT NOT NULL)'
+    );
+    this._migrateFileNames();
+    this._metaStmts = new StmtCache(this._metaDb);
+  }
+
+  /**
+   * Storage directories from before the `file` column named each database's
+   * file after its sanitized name. Record those names so existing databases
+   * keep their files; new databases get hashed file names.
+   */
+  private _migrateFileNames(): void {
+    const columns = this._metaDb.pragma('table_info(databases)') as Array<{ name: string }>;
+    if (columns.some((c) => c.name === 'file')) return;
+    this._metaDb.transaction(() => {
+      this._metaDb.exec("ALTER TABLE databases ADD COLUMN file TEXT NOT NULL DEFAULT ''");
+      const rows = this._metaDb.prepare('SELECT name FROM databases').all() as Array<{ name: string }>;
+      const update = this._metaDb.prepare('UPDATE databases SET file = ? WHERE name = ?');
+      for (const { name } of rows) {
+        update.run(legacyFileNameForDb(name), name);
+      }
+    })();
+  }
+
+  /** Get or create a database connection for a named IDB database */
+  getDatabase(name: string): Database.Database {
+    let db = this._openDbs.get(name);
+    if (!db) {
+      if (this._readonly) {
+        db = new Database(join(this._storagePath, this._fileNameForDb(name)), { readonly: true, fileMustExist: true });
+        this._openDbs.set(name, db);
+        this._stmtCaches.set(name, new StmtCache(db));
+        return db;
+      }
+      if (this._inMemory) {
+        db = new Database(':memory:');
+      } else {
+        db = new Database(join(this._storagePath, this._fileNameForDb(name)), { timeout: BUSY_TIMEOUT_MS });
+        db.pragma('journal_mode = WAL');
+      }
+      this._addConnection(name, db);
+    }
+    return db;
+  }
+
+  private _addConnection(name: string, db: Database.Database): void {
+    db.exec(DB_SCHEMA);
+    db.exec(UNDO_SCHEMA);
+    this._openDbs.set(name, db);
+    this._stmtCaches.set(name, new StmtCache(db));
+  }
+
+  /** Create (if needed) and open the SQLite file for a named IDB database */
+  openDatabase(name: string): void {
+    this.getDatabase(name);
+  }
+
+  protected _connection(dbName: string): Database.Database {
+    return this.getDatabase(dbName);
+  }
+
+  /** Get the statement cache for a database (creates connection if needed) */
+  protected _stmts(dbName: string): StmtCache {
+    this.getDatabase(dbName); // ensure connection + cache exist
+    return this._stmtCaches.get(dbName)!;
+  }
+
+  /** Close a specific database connection */
+  closeDatabase(name: string): void {
+    // Closing an in-memory connection would throw its data away
+    if (this._inMemory) return;
+    // Still in use by a transaction (e.g. from a served worker)
+    if (this._openDbs.get(name)?.inTransaction) return;
+    if (this._readers.get(name)?.some((reader) => reader.busy)) return;
+    this._closeConnection(name);
+  }
+
+  private _closeConnection(name: string): void {
+    for (const reader of this._readers.get(name) ?? []) {
+      reader.db.close();
+    }
+    this._readers.delete(name);
+    const db = this._openDbs.get(name);
+    if (db) {
+      this._stmtCaches.delete(name);
+      this._syncLevels.delete(name);
+      this._writers.delete(name);
+      this._touched.delete(name);
+      db.close();
+      this._openDbs.delete(name);
+    }
+  }
+
+  /** Get the stored version of a database, or 0 if it doesn't exist */
+  getDatabaseVersion(name: string): number {
+    const row = this._metaStmts
+      .get('SELECT version FROM databases WHERE name = ?')
+      .get(name) as { version: number } | undefined;
+    return row ? row.version : 0;
+  }
+
+  /** Check if a database exists in metadata */
+  databaseExists(name: string): boolean {
+    const row = this._metaStmts
+      .get('SELECT 1 FROM databases WHERE name = ?')
+      .get(name);
+    return !!row;
+  }
+
+  /** Set the version of a database in metadata */
+  setDatabaseVersion(name: string, version: number): void {
+    this._metaStmts
+      .get('INSERT INTO databases (name, version, file) VALUES (?, ?, ?) ON CONFLICT(name) DO UPDATE SET version = ?')
+      .run(name, version, this._fileNameForDb(name), version);
+  }
+
+  /** Delete database metadata and SQLite file */
+  deleteDatabaseRecord(name: string): void {
+    this._closeConnection(name);
+    const file = this._fileNameForDb(name);
+    this._metaStmts.get('DELETE FROM databases WHERE name = ?').run(name);
+    if (this._inMemory) return;
+    // Legacy databases whose names collided share one file; keep it for the others
+    if (this._metaStmts.get('SELECT 1 FROM databases WHERE file = ?').get(file)) return;
+    removeDatabaseFile(join(this._storagePath, file));
+  }
+
+  /** List all databases */
+  listDatabases(): Array<{ name: string; version: number }> {
+    return this._metaStmts
+      .get('SELECT name, version FROM databases')
+      .all() as Array<{ name: string; version: number }>;
+  }
+
+  /** Create an object store */
+  createObjectStore(
+    dbName: string,
+    storeName: string,
+    keyPath: string | string[] | null,
+    autoIncrement: boolean
+  ): number {
+    const result = this._stmts(dbName)
+      .get('INSERT INTO object_stores (name, key_path, auto_increment) VALUES (?, ?, ?)')
+      .run(storeName, keyPath === null ? null : JSON.stringify(keyPath), autoIncrement ? 1 : 0);
+    return Number(result.lastInsertRowid);
+  }
+
+  /** Delete an object store and its records/indexes */
+  deleteObjectStore(dbName: string, storeName: string): void {
+    const stmts = this._stmts(dbName);
+    const store = stmts
+      .get('SELECT id FROM object_stores WHERE name = ?')
+      .get(storeName) as { id: number } | undefined;
+    if (!store) return;
+    stmts.get('DELETE FROM index_entries WHERE index_id IN (SELECT id FROM indexes WHERE object_store_id = ?)').run(store.id);
+    stmts.get('DELETE FROM indexes WHERE object_store_id = ?').run(store.id);
+    stmts.get('DELETE FROM records WHERE object_store_id = ?').run(store.id);
+    stmts.get('DELETE FROM object_stores WHERE id = ?').run(store.id);
+  }
+
+  /** Put a record into an object store */
+  putRecord(dbName: string, storeId: number, key: Buffer | Uint8Array, value: Buffer | Uint8Array): void {
+    this._saveRecord(dbName, storeId, key);
+    this._stmts(dbName)
+      .get('INSERT OR REPLACE INTO records (object_store_id, key, value) VALUES (?, ?, ?)')
+      .run(storeId, asBuffer(key), asBuffer(value));
+  }
+
+  /** Put records and their index entries, in one pass through the cached statements */
+  putRecords(dbName: string, storeId: number, records: RecordWrite[]): void {
+    const hasIndexes = !!this._stmts(dbName)
+      .get('SELECT 1 FROM indexes WHERE object_store_id = ? LIMIT 1')
+      .get(storeId);
+    for (const record of records) {
+      if (hasIndexes) this.deleteIndexEntriesForRecord(dbName, storeId, record.key);
+      this.putRecord(dbName, storeId, record.key, record.value);
+      for (const entry of record.indexEntries) {
+        this.addIndexEntry(dbName, entry.indexId, entry.key, record.key);
+      }
+    }
+  }
+
+  /** Delete a record by exact key */
+  deleteRecord(dbName: string, storeId: number, key: Buffer | Uint8Array): void {
+    this._saveRecord(dbName, storeId, key);
+    this._stmts(dbName)
+      .get('DELETE FROM records WHERE object_store_id = ? AND key = ?')
+      .run(storeId, asBuffer(key));
+  }
+
+  /** Delete records within a key range */
+  deleteRecordsInRange(dbName: string, storeId: number, lower: Buffer | Uint8Array | null, upper: Buffer | Uint8Array | null, lowerOpen: boolean, upperOpen: boolean): void {
+    const db = this.getDatabase(dbName);
+    if (this._isLogging(dbName)) {
+      const save = this._buildRangeQuery(
+        "INSERT OR IGNORE INTO temp.undo_log SELECT object_store_id, 0, object_store_id, key, X'', value FROM records",
+        storeId, lower, upper, lowerOpen, upperOpen
+      );
+      db.prepare(save.sql).run(...save.params);
+    } else {
+      this._touchRecord(dbName, storeId, null);
+    }
+    const { sql, params } = this._buildRangeQuery(
+      'DELETE FROM records',
+      storeId, lower, upper, lowerOpen, upperOpen
+    );
+    db.prepare(sql).run(...params);
+  }
+
+  /** Clear all records from an object store */
+  clearRecords(dbName: string, storeId: number): void {
+    if (this._isLogging(dbName)) {
+      this._stmts(dbName)
+        .get("INSERT OR IGNORE INTO temp.undo_log SELECT object_store_id, 0, object_store_id, key, X'', value FROM records WHERE object_store_id = ?")
+        .run(storeId);
+    } else {
+      this._touchRecord(dbName, storeId, null);
+    }
+    this._stmts(dbName)
+      .get('DELETE FROM records WHERE object_store_id = ?')
+      .run(storeId);
+  }
+
+  /** Check if a unique index constraint would be violated */
+  checkUniqueIndexConstraint(dbName: string, indexId: number, indexKey: Buffer | Uint8Array, excludePrimaryKey?: Buffer | Uint8Array): boolean {
+    const stmts = this._stmts(dbName);
+    if (excludePrimaryKey) {
+      const row = stmts.get(
+        'SELECT 1 FROM index_entries WHERE index_id = ? AND key = ? AND primary_key != ? LIMIT 1'
+      ).get(indexId, asBuffer(indexKey), asBuffer(excludePrimaryKey));
+      return !!row;
+    }
+    const row = stmts.get(
+      'SELECT 1 FROM index_entries WHERE index_id = ? AND key = ? LIMIT 1'
+    ).get(indexId, asBuffer(indexKey));
+    return !!row;
+  }
+
+  /** Delete index entries for a primary key */
+  deleteIndexEntriesForRecord(dbName: string, storeId: number, primaryKey: Buffer | Uint8Array): void {
+    if (this._isLogging(dbName)) {
+      this._stmts(dbName).get(
+        "INSERT OR IGNORE INTO temp.undo_log SELECT @store, 1, index_id, key, primary_key, X'' FROM index_entries " +
+          'WHERE primary_key = @pk AND index_id IN (SELECT id FROM indexes WHERE object_store_id = @store)'
+      ).run({ store: storeId, pk: asBuffer(primaryKey) });
+    } else {
+      this._touchRecord(dbName, storeId, primaryKey);
+    }
+    this._stmts(dbName).get(
+      'DELETE FROM index_entries WHERE primary_key = ? AND index_id IN (SELECT id FROM indexes WHERE object_store_id = ?)'
+    ).run(asBuffer(primaryKey), storeId);
+  }
+
+  /** Update auto-increment counter */
+  updateCurrentKey(dbName: string, storeId: number, currentKey: number): void {
+    if (this._isLogging(dbName)) {
+      this._stmts(dbName)
+        .get("INSERT OR IGNORE INTO temp.undo_log SELECT id, 2, id, X'', X'', current_key FROM object_stores WHERE id = ?")
+        .run(storeId);
+    } else {
+      this._touchedRows(dbName)?.currentKeys.add(storeId);
+    }
+    this._stmts(dbName)
+      .get('UPDATE object_stores SET current_key = ? WHERE id = ?')
+      .run(currentKey, storeId);
+  }
+
+  /**
+   * Start a transaction's changes. Every transaction writing to a database
+   * shares one SQLite transaction on its connection; SQLite savepoints would
+   * nest, so that one transaction's rollback or commit took the others'
+   * changes with it. Instead, while writers run side by side, each write
+   * first saves the rows it touches in undo_log (a writer running alone only
+   * notes which rows it wrote). Scopes don't overlap, so a
+   * store's saved rows belong to the one transaction that has it in scope.
+   * A writer joining others also shares their sync level, raised to its own
+   * if that is stricter (see _restart).
+   */
+  beginSavepoint(
+    dbName: string,
+    savepointName: string,
+    durability: IDBTransactionDurability = 'default',
+    scope?: string[]
+  ): void {
+    const db = this.getDatabase(dbName);
+    const level = SYNCHRONOUS_LEVELS[durability === 'default' ? this._defaultDurability : durability];
+    let writers = this._writers.get(dbName);
+    if (!writers) {
+      writers = new Map();
+      this._writers.set(dbName, writers);
+    }
+    if (!db.inTransaction) {
+      // Writes to an unlinked file would succeed and then vanish
+      if (!this._inMemory && !existsSync(db.name)) {
+        throw new Database.SqliteError('The database file has been deleted.', 'SQLITE_READONLY_DBMOVED');
+      }
+      // One without a scope runs alone: it takes the write lock at once, so
+      // what it reads can't change under it before it writes
+      this._begin(dbName, level, scope === undefined);
+    } else if (writers.size === 1) {
+      // Joining a writer that has run alone, without logging
+      this._startLogging(dbName, level === 'FULL' ? level : this._syncLevels.get(dbName)!);
+    } else if (level === 'FULL' && this._syncLevels.get(dbName) !== 'FULL') {
+      // Joining writers begun at a lower level: commit at ours from now on
+      this._restart(dbName, level);
+    }
+    const storeIds = scope
+      ? (this._stmts(dbName)
+          .get('SELECT id FROM object_stores WHERE name IN (SELECT value FROM json_each(?))')
+          .pluck()
+          .all(JSON.stringify(scope)) as number[])
+      : null;
+    writers.set(savepointName, { storeIds, level });
+  }
+
+  /**
+   * Commit a transaction's changes. If others are still running, their
+   * changes are set aside (undone, with their current images kept in
+   * redo_log) for the commit and then put back in a new SQLite transaction.
+   */
+  releaseSavepoint(dbName: string, savepointName: string): void {
+    const writers = this._writers.get(dbName);
+    const writer = writers?.get(savepointName);
+    if (!writers || !writer) return;
+    writers.delete(savepointName);
+    const stmts = this._stmts(dbName);
+    if (writers.size === 0) {
+      stmts.get('DELETE FROM temp.undo_log').run();
+      this._touched.delete(dbName);
+      this.getDatabase(dbName).exec('COMMIT');
+      return;
+    }
+    this._forgetImages(dbName, 'undo_log', writer.storeIds);
+    // What's left in undo_log is the running transactions'
+    const levels = [...writers.values()].map((w) => w.level);
+    this._restart(dbName, levels.includes('FULL') ? 'FULL' : 'NORMAL');
+  }
+
+  /**
+   * Commit the SQLite transaction without the running writers' changes, and
+   * put them back in a new one begun at `level`. The sync level can't change
+   * inside a transaction, so the SQLite transaction is always at the
+   * strictest level of the writers in it: no commit is synced less than its
+   * writer's durability asks.
+   */
+  private _restart(dbName: string, level: SyncLevel): void {
+    const db = this.getDatabase(dbName);
+    const stmts = this._stmts(dbName);
+    stmts.get('DELETE FROM temp.redo_log').run();
+    stmts.get(
+      'INSERT INTO temp.redo_log SELECT u.store_id, 0, u.id, u.key, u.primary_key, r.value FROM temp.undo_log u ' +
+        'LEFT JOIN records r ON r.object_store_id = u.id AND r.key = u.key WHERE u.kind = 0'
+    ).run();
+    stmts.get(
+      "INSERT INTO temp.redo_log SELECT u.store_id, 1, u.id, u.key, u.primary_key, CASE WHEN e.index_id IS NULL THEN NULL ELSE X'' END " +
+        'FROM temp.undo_log u LEFT JOIN index_entries e ' +
+        'ON e.index_id = u.id AND e.key = u.key AND e.primary_key = u.primary_key WHERE u.kind = 1'
+    ).run();
+    stmts.get(
+      'INSERT INTO temp.redo_log SELECT u.store_id, 2, u.id, u.key, u.primary_key, s.current_key FROM temp.undo_log u ' +
+        'JOIN object_stores s ON s.id = u.id WHERE u.kind = 2'
+    ).run();
+    this._applyImages(dbName, 'undo_log', null);
+    db.exec('COMMIT');
+    this._begin(dbName, level);
+    this._applyImages(dbName, 'redo_log', null);
+    stmts.get('DELETE FROM temp.redo_log').run();
+  }
+
+  /** Undo a transaction's changes, leaving any others' alone */
+  rollbackSavepoint(dbName: string, savepointName: string): void {
+    const db = this.getDatabase(dbName);
+    const writers = this._writers.get(dbName);
+    const writer = writers?.get(savepointName);
+    if (!writers || !writer) return;
+    writers.delete(savepointName);
+    if (writers.size === 0 || writer.storeIds === null) {
+      writers.clear();
+      this._touched.delete(dbName);
+      if (db.inTransaction) db.exec('ROLLBACK');
+      this._stmts(dbName).get('DELETE FROM temp.undo_log').run();
+      return;
+    }
+    if (!db.inTransaction) return;
+    this._applyImages(dbName, 'undo_log', writer.storeIds);
+    this._forgetImages(dbName, 'undo_log', writer.storeIds);
+  }
+
+  private _begin(dbName: string, level: SyncLevel, immediate: boolean = false): void {
+    const db = this.getDatabase(dbName);
+    if (this._syncLevels.get(dbName) !== level) {
+      db.pragma(`synchronous = ${level}`);
+      this._syncLevels.set(dbName, level);
+    }
+    db.exec(immediate ? 'BEGIN IMMEDIATE' : 'BEGIN');
+  }
+
+  /**
+   * Whether writes must save what they overwrite: only while writers run
+   * side by side. One running alone notes what it writes instead (see
+   * _startLogging); a versionchange transaction always runs alone.
+   */
+  private _isLogging(dbName: string): boolean {
+    const writers = this._writers.get(dbName);
+    if (!writers || writers.size < 2) return false;
+    for (const writer of writers.values()) {
+      if (writer.storeIds === null) return false;
+    }
+    return true;
+  }
+
+  /** Save a record's current value, if this is the first write to it */
+  private _saveRecord(dbName: string, storeId: number, key: Buffer | Uint8Array): void {
+    if (!this._isLogging(dbName)) {
+      this._touchRecord(dbName, storeId, key);
+      return;
+    }
+    this._stmts(dbName).get(
+      "INSERT OR IGNORE INTO temp.undo_log SELECT @store, 0, @store, @key, X'', " +
+        '(SELECT value FROM records WHERE object_store_id = @store AND key = @key)'
+    ).run({ store: storeId, key: asBuffer(key) });
+  }
+
+  /** Where to note an unlogged write: while one writer with a scope runs alone */
+  private _touchedRows(dbName: string): TouchedRows | null {
+    const writers = this._writers.get(dbName);
+    if (!writers || writers.size !== 1 || writers.values().next().value!.storeIds === null) return null;
+    let touched = this._touched.get(dbName);
+    if (!touched) {
+      touched = { records: new Map(), indexEntries: new Map(), currentKeys: new Set() };
+      this._touched.set(dbName, touched);
+    }
+    return touched;
+  }
+
+  /** Note an unlogged write to a record and its index entries (key null: to any record of the store) */
+  private _touchRecord(dbName: string, storeId: number, key: Buffer | Uint8Array | null): void {
+    const touched = this._touchedRows(dbName);
+    if (!touched) return;
+    if (key === null) {
+      touched.records.set(storeId, null);
+      return;
+    }
+    let keys = touched.records.get(storeId);
+    if (keys === null) return;
+    if (!keys) {
+      keys = new Map();
+      touched.records.set(storeId, keys);
+    }
+    keys.set(Buffer.from(key).toString('hex'), Buffer.from(key));
+  }
+
+  /**
+   * Start logging when a second writer joins one that has run alone. What
+   * the lone writer wrote is read out (into memory) as it is now, the SQLite
+   * transaction is rolled back so that what it replaced can be logged, and
+   * it is written again in a new transaction begun at `level`. Rows still
+   * logged from an earlier overlap are set aside the same way.
+   */
+  private _startLogging(dbName: string, level: SyncLevel): void {
+    const db = this.getDatabase(dbName);
+    const stmts = this._stmts(dbName);
+    const touched = this._touched.get(dbName);
+    this._touched.delete(dbName);
+
+    const records = new Map(touched?.records);
+    const addKey = (storeId: number, key: Buffer): void => {
+      let keys = records.get(storeId);
+      if (keys === null) return;
+      if (!keys) {
+        keys = new Map();
+        records.set(storeId, keys);
+      }
+      keys.set(key.toString('hex'), key);
+    };
+    for (const [indexId, keys] of touched?.indexEntries ?? []) {
+      const row = stmts.get('SELECT object_store_id FROM indexes WHERE id = ?').get(indexId) as { object_store_id: number };
+      for (const key of keys.values()) addKey(row.object_store_id, key);
+    }
+    const logged = stmts.get('SELECT store_id, kind, id, key, primary_key FROM temp.undo_log').all() as Array<{
+      store_id: number; kind: number; id: number; key: Buffer; primary_key: Buffer;
+    }>;
+    const generators = new Set(touched?.currentKeys);
+    for (const row of logged) {
+      if (row.kind === 2) generators.add(row.id);
+      else addKey(row.store_id, row.kind === 0 ? row.key : row.primary_key);
+    }
+    if (records.size === 0 && generators.size === 0) {
+      if (level !== this._syncLevels.get(dbName)) {
+        db.exec('ROLLBACK');
+        this._begin(dbName, level);
+      }
+      return;
+    }
+
+    // Current images: records (value null if deleted) and index entries
+    type Entry = { index_id: number; key: Buffer; primary_key: Buffer };
+    const images = [...records].map(([storeId, keys]) => ({
+      storeId,
+      keys: keys && [...keys.values()],
+      records: keys === null
+        ? (stmts.get('SELECT key, value FROM records WHERE object_store_id = ?').all(storeId) as Array<{ key: Buffer; value: Buffer | null }>)
+        : [...keys.values()].map((key) => ({ key, value: this.getRecord(dbName, storeId, key) })),
+      entries: keys === null
+        ? (stmts.get(
+            'SELECT index_id, key, primary_key FROM index_entries WHERE index_id IN (SELECT id FROM indexes WHERE object_store_id = ?)'
+          ).all(storeId) as Entry[])
+        : [...keys.values()].flatMap((key) => stmts.get(
+            'SELECT index_id, key, primary_key FROM index_entries ' +
+              'WHERE primary_key = ? AND index_id IN (SELECT id FROM indexes WHERE object_store_id = ?)'
+          ).all(key, storeId) as Entry[]),
+    }));
+    const currentKeys = [...generators].map((id) => ({
+      id,
+      currentKey: (stmts.get('SELECT current_key FROM object_stores WHERE id = ?').get(id) as { current_key: number }).current_key,
+    }));
+
+    db.exec('ROLLBACK');
+    stmts.get('DELETE FROM temp.undo_log').run();
+    this._begin(dbName, level);
+    for (const image of images) {
+      const store = image.storeId;
+      if (image.keys === null) {
+        stmts.get(
+          "INSERT OR IGNORE INTO temp.undo_log SELECT object_store_id, 0, object_store_id, key, X'', value FROM records WHERE object_store_id = ?"
+        ).run(store);
+        stmts.get(
+          "INSERT OR IGNORE INTO temp.undo_log SELECT i.object_store_id, 1, e.index_id, e.key, e.primary_key, X'' " +
+            'FROM index_entries e JOIN indexes i ON i.id = e.index_id WHERE i.object_store_id = ?'
+        ).run(store);
+        stmts.get('DELETE FROM records WHERE object_store_id = ?').run(store);
+        stmts.get('DELETE FROM index_entries WHERE index_id IN (SELECT id FROM indexes WHERE object_store_id = ?)').run(store);
+      } else {
+        for (const key of image.keys) {
+          stmts.get(
+            "INSERT OR IGNORE INTO temp.undo_log SELECT @store, 0, @store, @key, X'', " +
+              '(SELECT value FROM records WHERE object_store_id = @store AND key = @key)'
+          ).run({ store, key });
+          stmts.get(
+            "INSERT OR IGNORE INTO temp.undo_log SELECT @store, 1, index_id, key, primary_key, X'' FROM index_entries " +
+              'WHERE primary_key = @pk AND index_id IN (SELECT id FROM indexes WHERE object_store_id = @store)'
+          ).run({ store, pk: key });
+          stmts.get('DELETE FROM records WHERE object_store_id = ? AND key = ?').run(store, key);
+          stmts.get(
+            'DELETE FROM index_entries WHERE primary_key = ? AND index_id IN (SELECT id FROM indexes WHERE object_store_id = ?)'
+          ).run(key, store);
+        }
+      }
+      // Rows the lone writer added were absent before
+      for (const record of image.records) {
+        if (record.value === null) continue;
+        stmts.get("INSERT OR IGNORE INTO temp.undo_log VALUES (?, 0, ?, ?, X'', NULL)").run(store, store, record.key);
+        stmts.get('INSERT INTO records (object_store_id, key, value) VALUES (?, ?, ?)').run(store, record.key, record.value);
+      }
+      for (const entry of image.entries) {
+        stmts.get('INSERT OR IGNORE INTO temp.undo_log VALUES (?, 1, ?, ?, ?, NULL)')
+          .run(store, entry.index_id, entry.key, entry.primary_key);
+        stmts.get('INSERT INTO index_entries (index_id, key, primary_key) VALUES (?, ?, ?)')
+          .run(entry.index_id, entry.key, entry.primary_key);
+      }
+    }
+    for (const { id, currentKey } of currentKeys) {
+      stmts.get("INSERT OR IGNORE INTO temp.undo_log SELECT id, 2, id, X'', X'', current_key FROM object_stores WHERE id = ?").run(id);
+      stmts.get('UPDATE object_stores SET current_key = ? WHERE id = ?').run(currentKey, id);
+    }
+  }
+
+  /** Write back the images saved in `table`, for the given stores (null = all) */
+  private _applyImages(dbName: string, table: 'undo_log' | 'redo_log', storeIds: number[] | null): void {
+    const filter = storeIds ? ' AND store_id IN (SELECT value FROM json_each(@stores))' : '';
+    const params = storeIds ? { stores: JSON.stringify(storeIds) } : {};
+    const stmts = this._stmts(dbName);
+    stmts.get(
+      `DELETE FROM records WHERE (object_store_id, key) IN (SELECT id, key FROM temp.${table} WHERE kind = 0${filter})`
+    ).run(params);
+    stmts.get(
+      `INSERT INTO records (object_store_id, key, value) SELECT id, key, value FROM temp.${table} ` +
+        `WHERE kind = 0 AND value IS NOT NULL${filter}`
+    ).run(params);
+    stmts.get(
+      'DELETE FROM index_entries WHERE (index_id, key, primary_key) IN ' +
+        `(SELECT id, key, primary_key FROM temp.${table} WHERE kind = 1${filter})`
+    ).run(params);
+    stmts.get(
+      `INSERT INTO index_entries (index_id, key, primary_key) SELECT id, key, primary_key FROM temp.${table} ` +
+        `WHERE kind = 1 AND value IS NOT NULL${filter}`
+    ).run(params);
+    stmts.get(
+      `UPDATE object_stores SET current_key = (SELECT value FROM temp.${table} WHERE kind = 2 AND id = object_stores.id) ` +
+        `WHERE id IN (SELECT id FROM temp.${table} WHERE kind = 2${filter})`
+    ).run(params);
+  }
+
+  private _forgetImages(dbName: string, table: 'undo_log' | 'redo_log', storeIds: number[] | null): void {
+    if (!storeIds) {
+      this._stmts(dbName).get(`DELETE FROM temp.${table}`).run();
+      return;
+    }
+    this._stmts(dbName)
+      .get(`DELETE FROM temp.${table} WHERE store_id IN (SELECT value FROM json_each(?))`)
+      .run(JSON.stringify(storeIds));
+  }
+
+  /** Create an index */
+  createIndex(
+    dbName: string,
+    storeId: number,
+    indexName: string,
+    keyPath: string | string[],
+    unique: boolean,
+    multiEntry: boolean
+  ): number {
+    const result = this._stmts(dbName)
+      .get('INSERT INTO indexes (object_store_id, name, key_path, unique_index, multi_entry) VALUES (?, ?, ?, ?, ?)')
+      .run(storeId, indexName, JSON.stringify(keyPath), unique ? 1 : 0, multiEntry ? 1 : 0);
+    return Number(result.lastInsertRowid);
+  }
+
+  /** Delete an index */
+  deleteIndex(dbName: string, storeId: number, indexName: string): void {
+    const stmts = this._stmts(dbName);
+    const idx = stmts
+      .get('SELECT id FROM indexes WHERE object_store_id = ? AND name = ?')
+      .get(storeId, indexName) as { id: number } | undefined;
+    if (!idx) return;
+    stmts.get('DELETE FROM index_entries WHERE index_id = ?').run(idx.id);
+    stmts.get('DELETE FROM indexes WHERE id = ?').run(idx.id);
+  }
+
+  /** Add an index entry */
+  addIndexEntry(dbName: string, indexId: number, key: Buffer | Uint8Array, primaryKey: Buffer | Uint8Array): void {
+    if (this._isLogging(dbName)) {
+      this._stmts(dbName).get(
+        "INSERT OR IGNORE INTO temp.undo_log SELECT object_store_id, 1, @index, @key, @pk, " +
+          "(SELECT X'' FROM index_entries WHERE index_id = @index AND key = @key AND primary_key = @pk) " +
+          'FROM indexes WHERE id = @index'
+      ).run({ index: indexId, key: asBuffer(key), pk: asBuffer(primaryKey) });
+    } else {
+      const touched = this._touchedRows(dbName);
+      if (touched) {
+        let keys = touched.indexEntries.get(indexId);
+        if (!keys) {
+          keys = new Map();
+          touched.indexEntries.set(indexId, keys);
+        }
+        keys.set(Buffer.from(primaryKey).toString('hex'), Buffer.from(primaryKey));
+      }
+    }
+    this._stmts(dbName).get(
+      'INSERT OR REPLACE INTO index_entries (index_id, key, primary_key) VALUES (?, ?, ?)'
+    ).run(indexId, asBuffer(key), asBuffer(primaryKey));
+  }
+
+  /** Get a single record by exact primary key (returns key + value) */
+  getRecordWithKey(dbName: string, storeId: number, key: Buffer | Uint8Array): { key: Buffer; value: Buffer } | null {
+    const row = this._stmts(dbName)
+      .get('SELECT key, value FROM records WHERE object_store_id = ? AND key = ?')
+      .get(storeId, asBuffer(key)) as { key: Buffer; value: Buffer } | undefined;
+    return row ?? null;
+  }
+
   /** Rename an object store */
   renameObjectStore(dbName: string, oldName: string, newName: string): void {
     this._stmts(dbName)
@@ -637,23 +1288,528 @@ export class SQLiteBackend {
       .run(newName, storeId, oldName);
   }
 
+  /**
+   * Coordinator over the metadata database. Besides other processes, it
+   * coordinates with the other coordinators of this backend (workers served
+   * by the factory), which also works in memory.
+   */
+  createCoordinator(): ConnectionCoordinator {
+    return new SQLiteCoordinator(this._metaDb, this._coordinators);
+  }
+
+  isFatalError(err: unknown): boolean {
+    if (!(err instanceof Database.SqliteError)) return false;
+    const code = err.code;
+    return FATAL_ERROR_CODES.some((c) => code === c || code.startsWith(c + '_'));
+  }
+
+  isBusyError(err: unknown): boolean {
+    return err instanceof Database.SqliteError && (err.code === 'SQLITE_BUSY' || err.code.startsWith('SQLITE_BUSY_'));
+  }
+
+  /**
+   * Snapshot on a read connection of its own. In WAL mode a read transaction
+   * keeps seeing the database as of its first read while the main connection
+   * goes on writing. Not available in memory, where a database has only one
+   * connection.
+   */
+  openSnapshot(dbName: string): StorageSnapshot | null {
+    if (this._inMemory) return null;
+    const main = this.getDatabase(dbName);
+    let readers = this._readers.get(dbName);
+    if (!readers) {
+      readers = [];
+      this._readers.set(dbName, readers);
+    }
+    let reader = readers.find((r) => !r.busy);
+    if (!reader) {
+      const db = new Database(main.name, { readonly: true, fileMustExist: true });
+      reader = { db, stmts: new StmtCache(db), busy: false };
+      readers.push(reader);
+    }
+    try {
+      reader.db.exec('BEGIN');
+      // Pin the snapshot now rather than at the transaction's first request
+      reader.stmts.get('SELECT 1 FROM object_stores LIMIT 1').get();
+    } catch (e) {
+      this._dropReader(dbName, reader);
+      throw e;
+    }
+    reader.busy = true;
+    return new SQLiteSnapshot(dbName, reader, () => this._releaseReader(dbName, reader));
+  }
+
+  private _releaseReader(dbName: string, reader: ReadConnection): void {
+    reader.busy = false;
+    if (!reader.db.open) return;
+    try {
+      reader.db.exec('COMMIT');
+    } catch {
+      this._dropReader(dbName, reader);
+      return;
+    }
+    const idle = this._readers.get(dbName)?.filter((r) => !r.busy).length ?? 0;
+    if (idle > MAX_IDLE_READERS) {
+      this._dropReader(dbName, reader);
+    }
+  }
+
+  private _dropReader(dbName: string, reader: ReadConnection): void {
+    const readers = this._readers.get(dbName);
+    const idx = readers ? readers.indexOf(reader) : -1;
+    if (idx !== -1) readers!.splice(idx, 1);
+    if (reader.db.open) reader.db.close();
+  }
+
+  /**
+   * Remove every entry of an index, to rebuild it. Not undo-logged: only for
+   * a transaction running alone (begun without a scope).
+   */
+  clearIndexEntries(dbName: string, indexId: number): void {
+    this._stmts(dbName).get('DELETE FROM index_entries WHERE index_id = ?').run(indexId);
+  }
+
+  /**
+   * Copy a database and its version to a backup file with SQLite's online
+   * backup API. The copy is of what is committed at the time of the call;
+   * writers carry on meanwhile. In memory there is no second connection to
+   * read from, so the database is serialized first: the caller makes sure no
+   * transaction is writing to it then.
+   */
+  backupDatabase(name: string, destPath: string, onProgress?: (progress: BackupProgress) => void): Promise<void> {
+    const version = this.getDatabaseVersion(name);
+    const main = this.getDatabase(name);
+    let source: Database.Database;
+    if (this._inMemory) {
+      source = new Database(main.serialize());
+    } else {
+      source = new Database(main.name, { readonly: true, fileMustExist: true });
+      // The backup reads within this transaction, so later commits don't
+      // make it start over
+      source.exec('BEGIN');
+      source.prepare('SELECT 1 FROM object_stores LIMIT 1').get();
+    }
+    const partPath = `${destPath}.partial`;
+    return copyToFile(source, partPath, onProgress, (db) => {
+      db.exec(BACKUP_INFO_SCHEMA);
+      db.prepare('INSERT INTO backup_info (name, version) VALUES (?, ?)').run(name, version);
+    }).then(
+      () => {
+        source.close();
+        renameSync(partPath, destPath);
+      },
+      (err) => {
+        source.close();
+        throw err;
+      }
+    );
+  }
+
+  /** Name and version of the database in a backup file, or null if it isn't one */
+  readBackupInfo(srcPath: string): { name: string; version: number } | null {
+    let db: Database.Database;
+    try {
+      db = new Database(srcPath, { readonly: true, fileMustExist: true });
+    } catch {
+      if (!existsSync(srcPath)) {
+        throw new DOMException(`No backup was found at '${srcPath}'.`, 'NotFoundError');
+      }
+      throw new DOMException(`The backup at '${srcPath}' could not be read.`, 'DataError');
+    }
+    try {
+      return db.prepare('SELECT name, version FROM backup_info').get() as { name: string; version: number } ?? null;
+    } catch {
+      return null;
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Replace a database (or create it) from a backup file. Nothing may be
+   * connected to it. The current data is kept until the copy is complete.
+   */
+  async restoreDatabase(name: string, srcPath: string, onProgress?: (progress: BackupProgress) => void): Promise<void> {
+    const info = this.readBackupInfo(srcPath);
+    if (!info) {
+      throw new Error(`Not a database backup: ${srcPath}`);
+    }
+    const source = new Database(srcPath, { readonly: true, fileMustExist: true });
+    try {
+      // Into a file of its own: a legacy file may be shared with other databases
+      const file = hashedFileName(name);
+      const oldFile = this._fileNameForDb(name);
+      if (this._inMemory) {
+        const db = new Database(source.serialize());
+        db.exec('DROP TABLE backup_info');
+        const totalPages = db.pragma('page_count', { simple: true }) as number;
+        this._closeConnection(name);
+        this._addConnection(name, db);
+        onProgress?.({ totalPages, remainingPages: 0 });
+      } else {
+        const dbPath = join(this._storagePath, file);
+        await copyToFile(source, `${dbPath}.partial`, onProgress, (db) => {
+          db.exec('DROP TABLE backup_info');
+        });
+        this._closeConnection(name);
+        // A WAL left behind would be applied to the new file
+        removeDatabaseFile(dbPath);
+        renameSync(`${dbPath}.partial`, dbPath);
+      }
+      this._metaStmts
+        .get('INSERT INTO databases (name, version, file) VALUES (?, ?, ?) ON CONFLICT(name) DO UPDATE SET version = excluded.version, file = excluded.file')
+        .run(name, info.version, file);
+      if (!this._inMemory && oldFile !== file && !this._metaStmts.get('SELECT 1 FROM databases WHERE file = ?').get(oldFile)) {
+        removeDatabaseFile(join(this._storagePath, oldFile));
+      }
+    } finally {
+      source.close();
+    }
+  }
+
   /** Close all connections */
   closeAll(): void {
+    if (!this._metaDb.open) return;
+    for (const readers of this._readers.values()) {
+      for (const reader of readers) {
+        reader.db.close();
+      }
+    }
+    this._readers.clear();
     for (const [name, db] of this._openDbs) {
+      checkpoint(db);
       db.close();
     }
     this._openDbs.clear();
     this._stmtCaches.clear();
+    this._syncLevels.clear();
+    checkpoint(this._metaDb);
     this._metaDb.close();
   }
 
+  /** File name for a database: the recorded one, or a hash of the name for new databases */
   private _fileNameForDb(name: string): string {
-    // Sanitize database name for filesystem
-    const safe = name.replace(/[^a-zA-Z0-9_-]/g, '_');
-    return `db_${safe}.sqlite`;
+    if (this._legacyFileNames) return legacyFileNameForDb(name);
+    const row = this._metaStmts
+      .get('SELECT file FROM databases WHERE name = ?')
+      .get(name) as { file: string } | undefined;
+    return row ? row.file : hashedFileName(name);
+  }
+}
+
+/** A readonly transaction's view of one database, on a read connection of its own */
+class SQLiteSnapshot extends SQLiteReads implements StorageSnapshot {
+  private _dbName: string;
+  private _reader: ReadConnection;
+  private _onRelease: (() => void) | null;
+
+  constructor(dbName: string, reader: ReadConnection, onRelease: () => void) {
+    super();
+    this._dbName = dbName;
+    this._reader = reader;
+    this._onRelease = onRelease;
+  }
+
+  protected _connection(dbName: string): Database.Database {
+    this._checkUsable(dbName);
+    return this._reader.db;
+  }
+
+  protected _stmts(dbName: string): StmtCache {
+    this._checkUsable(dbName);
+    return this._reader.stmts;
+  }
+
+  /** Stop reading and hand the connection back */
+  release(): void {
+    const onRelease = this._onRelease;
+    this._onRelease = null;
+    onRelease?.();
+  }
+
+  private _checkUsable(dbName: string): void {
+    if (!this._onRelease) throw new Error('The snapshot has been released.');
+    if (dbName !== this._dbName) throw new Error(`The snapshot is of '${this._dbName}', not '${dbName}'.`);
+  }
+}
+
+/**
+ * Connection coordination through tables in the metadata database. Each
+ * coordinator (one per factory) is an owner; rows left behind by processes
+ * that have exited are cleaned up as they are found. Other processes are
+ * noticed by polling, skipped while nothing in the file has changed.
+ * Coordinators on the same connection (siblings) flag each other instead,
+ * since their writes don't change data_version for one another.
+ *
+ * Transactions are not coordinated across processes: readwrite ones in two
+ * processes meet at SQLite's write lock, which the first to write holds until
+ * it commits. The other's write waits BUSY_TIMEOUT_MS for it, then fails, and
+ * its transaction is aborted with an UnknownError.
+ */
+class SQLiteCoordinator implements ConnectionCoordinator {
+  private _db: Database.Database;
+  private _stmts: StmtCache;
+  private _owner: string = randomUUID();
+  // Version-change callbacks of this owner's connections, by connection id
+  private _connections: Map<string, (newVersion: number | null) => void> = new Map();
+  private _waiters: Array<() => boolean> = [];
+  private _timer: ReturnType<typeof setInterval> | null = null;
+  private _dataVersion: number;
+  private _siblings: Set<SQLiteCoordinator>;
+  // Set by a sibling that queued versionchange events
+  private _changed: boolean = false;
+
+  constructor(db: Database.Database, siblings: Set<SQLiteCoordinator>) {
+    this._db = db;
+    db.exec(COORDINATION_SCHEMA);
+    this._stmts = new StmtCache(db);
+    this._dataVersion = this._readDataVersion();
+    this._siblings = siblings;
+    siblings.add(this);
+  }
+
+  tryAcquire(name: string): boolean {
+    this._purgeExitedProcesses();
+    const result = this._stmts
+      .get('INSERT INTO connection_locks (name, owner, pid) VALUES (?, ?, ?) ON CONFLICT(name) DO NOTHING')
+      .run(name, this._owner, process.pid);
+    return result.changes === 1;
+  }
+
+  release(name: string): void {
+    this._stmts
+      .get('DELETE FROM connection_locks WHERE name = ? AND owner = ?')
+      .run(name, this._owner);
+  }
+
+  addConnection(name: string, onVersionChange: (newVersion: number | null) => void): string {
+    const id = randomUUID();
+    this._stmts
+      .get('INSERT INTO connections (id, owner, pid, name) VALUES (?, ?, ?, ?)')
+      .run(id, this._owner, process.pid, name);
+    this._connections.set(id, onVersionChange);
+    this._updateTimer();
+    return id;
+  }
+
+  removeConnection(id: string): void {
+    this._stmts.get('DELETE FROM connections WHERE id = ?').run(id);
+    this._stmts.get('DELETE FROM versionchange_events WHERE connection_id = ?').run(id);
+    this._connections.delete(id);
+    this._updateTimer();
+  }
+
+  requestVersionChange(name: string, newVersion: number | null): void {
+    this._purgeExitedProcesses();
+    this._stmts
+      .get(
+        'INSERT INTO versionchange_events (connection_id, new_version) ' +
+          'SELECT id, ? FROM connections WHERE name = ? AND owner != ?'
+      )
+      .run(newVersion, name, this._owner);
+    for (const sibling of this._siblings) {
+      if (sibling !== this) sibling._changed = true;
+    }
+  }
+
+  hasOtherConnections(name: string): boolean {
+    this._purgeExitedProcesses();
+    return !!this._stmts
+      .get('SELECT 1 FROM connections WHERE name = ? AND owner != ? LIMIT 1')
+      .get(name, this._owner);
+  }
+
+  waitUntil(check: () => boolean): void {
+    this._waiters.push(check);
+    this._updateTimer();
+  }
+
+  markChanged(name: string): void {
+    this._stmts
+      .get('INSERT INTO database_changes (name, count) VALUES (?, 1) ON CONFLICT(name) DO UPDATE SET count = count + 1')
+      .run(name);
+  }
+
+  changeCount(name: string): number {
+    const row = this._stmts
+      .get('SELECT count FROM database_changes WHERE name = ?')
+      .get(name) as { count: number } | undefined;
+    return row ? row.count : 0;
+  }
+
+  close(): void {
+    this._siblings.delete(this);
+    this._waiters = [];
+    this._connections.clear();
+    this._updateTimer();
+    if (!this._db.open) return;
+    this._db.transaction(() => {
+      this._stmts
+        .get('DELETE FROM versionchange_events WHERE connection_id IN (SELECT id FROM connections WHERE owner = ?)')
+        .run(this._owner);
+      this._stmts.get('DELETE FROM connections WHERE owner = ?').run(this._owner);
+      this._stmts.get('DELETE FROM connection_locks WHERE owner = ?').run(this._owner);
+    })();
+  }
+
+  /** Remove locks and connections held by processes that no longer exist */
+  private _purgeExitedProcesses(): void {
+    const rows = this._stmts
+      .get('SELECT pid FROM connections WHERE pid != ? UNION SELECT pid FROM connection_locks WHERE pid != ?')
+      .all(process.pid, process.pid) as Array<{ pid: number }>;
+    for (const { pid } of rows) {
+      if (isProcessAlive(pid)) continue;
+      this._db.transaction(() => {
+        this._stmts
+          .get('DELETE FROM versionchange_events WHERE connection_id IN (SELECT id FROM connections WHERE pid = ?)')
+          .run(pid);
+        this._stmts.get('DELETE FROM connections WHERE pid = ?').run(pid);
+        this._stmts.get('DELETE FROM connection_locks WHERE pid = ?').run(pid);
+      })();
+    }
+  }
+
+  private _poll(): void {
+    if (!this._db.open) return;
+    if (this._connections.size > 0) {
+      // Only another connection's commit changes data_version
+      const dataVersion = this._readDataVersion();
+      if (dataVersion !== this._dataVersion || this._changed) {
+        this._dataVersion = dataVersion;
+        this._changed = false;
+        this._deliverVersionChanges();
+      }
+    }
+    if (this._waiters.length > 0) {
+      const waiters = this._waiters;
+      this._waiters = [];
+      for (const check of waiters) {
+        if (!check()) this._waiters.push(check);
+      }
+    }
+    this._updateTimer();
+  }
+
+  private _deliverVersionChanges(): void {
+    const events = this._stmts
+      .get(
+        'SELECT e.id, e.connection_id, e.new_version FROM versionchange_events e ' +
+          'JOIN connections c ON c.id = e.connection_id WHERE c.owner = ? ORDER BY e.id'
+      )
+      .all(this._owner) as Array<{ id: number; connection_id: string; new_version: number | null }>;
+    for (const event of events) {
+      this._stmts.get('DELETE FROM versionchange_events WHERE id = ?').run(event.id);
+      this._connections.get(event.connection_id)?.(event.new_version);
+    }
+  }
+
+  private _readDataVersion(): number {
+    return this._db.pragma('data_version', { simple: true }) as number;
+  }
+
+  /** Poll while there is something to watch; only waiters keep the process alive */
+  private _updateTimer(): void {
+    const needed = this._connections.size > 0 || this._waiters.length > 0;
+    if (!needed) {
+      if (this._timer) {
+        clearInterval(this._timer);
+        this._timer = null;
+      }
+      return;
+    }
+    if (!this._timer) {
+      this._timer = setInterval(() => this._poll(), COORDINATION_POLL_MS);
+    }
+    if (this._waiters.length > 0) {
+      this._timer.ref();
+    } else {
+      this._timer.unref();
+    }
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e: any) {
+    // EPERM: it exists but belongs to someone else
+    return e.code === 'EPERM';
   }
 }
 
+/** File name for a new database */
+function hashedFileName(name: string): string {
+  // Hash the UTF-16 code units so names differing only in lone surrogates
+  // don't collide. The 'idb_' prefix can't clash with legacy 'db_' names.
+  const hash = createHash('sha256').update(Buffer.from(name, 'utf16le')).digest('hex');
+  return `idb_${hash}.sqlite`;
+}
+
+/** File name used before the `file` column existed (lossy: names could collide) */
+function legacyFileNameForDb(name: string): string {
+  const safe = name.replace(/[^a-zA-Z0-9_-]/g, '_');
+  return `db_${safe}.sqlite`;
+}
+
+/** Remove a database file along with its WAL and shared-memory files */
+function removeDatabaseFile(dbPath: string): void {
+  for (const suffix of ['', '-wal', '-shm']) {
+    const p = dbPath + suffix;
+    if (existsSync(p)) {
+      try { unlinkSync(p); } catch { /* ignore */ }
+    }
+  }
+}
+
+/**
+ * Copy a database to a new file at `path` with the online backup API, then
+ * let `finish` adjust the copy. The file is left in rollback journal mode,
+ * so it is complete on its own.
+ */
+async function copyToFile(
+  source: Database.Database,
+  path: string,
+  onProgress: ((progress: BackupProgress) => void) | undefined,
+  finish: (db: Database.Database) => void
+): Promise<void> {
+  removeDatabaseFile(path);
+  try {
+    const result = await source.backup(path, {
+      progress: ({ totalPages, remainingPages }) => {
+        onProgress?.({ totalPages, remainingPages });
+        return BACKUP_STEP_PAGES;
+      },
+    });
+    const db = new Database(path);
+    try {
+      finish(db);
+      db.pragma('journal_mode = DELETE');
+    } finally {
+      db.close();
+    }
+    onProgress?.({ totalPages: result.totalPages, remainingPages: 0 });
+  } catch (e) {
+    removeDatabaseFile(path);
+    throw e;
+  }
+}
+
+/** Fold the WAL back into the database file before closing */
+function checkpoint(db: Database.Database): void {
+  try {
+    db.pragma('wal_checkpoint(TRUNCATE)');
+  } catch {
+    // ignore: SQLite also checkpoints when the last connection closes
+  }
+}
+
+/** Comparison operator that moves past (or onto, if inclusive) a cursor seek key */
+function seekOperator(isReverse: boolean, inclusive: boolean): string {
+  if (isReverse) return inclusive ? '<=' : '<';
+  return inclusive ? '>=' : '>';
+}
+
 /** Convert Uint8Array to Buffer only if needed (avoids unnecessary copy) */
 function asBuffer(data: Buffer | Uint8Array): Buffer {
   return Buffer.isBuffer(data) ? data : Buffer.from(data);
@@ -0,0 +1,256 @@
+// Storage backend interface - everything the IDB layer needs from an engine.
+// SQLiteBackend is the default implementation; a custom one can be passed
+// through IDBFactoryOptions.backend.
+//
+// Keys are passed in their encoded form (see keys.ts encodeKey): byte strings
+// whose memcmp order is the IndexedDB key order. Values are opaque serialized
+// buffers. Range arguments are encoded bounds (null = unbounded).
+
+import type { IDBTransactionDurability } from './types.ts';
+
+export type KeyBytes = Buffer | Uint8Array;
+
+export type CursorDirection = 'next' | 'prev' | 'nextunique' | 'prevunique';
+
+/**
+ * Where a cursor step resumes. Rows strictly past `key` (or at it, when
+ * `inclusive`) in cursor direction are eligible. For index cursors a non-null
+ * `primaryKey` makes the comparison on the (index key, primary key) pair.
+ */
+export interface CursorSeek {
+  key: KeyBytes;
+  primaryKey: KeyBytes | null;
+  inclusive: boolean;
+}
+
+export interface ObjectStoreMetadata {
+  id: number;
+  keyPath: string | string[] | null;
+  autoIncrement: boolean;
+  currentKey: number;
+}
+
+export interface IndexMetadata {
+  id: number;
+  keyPath: string | string[];
+  unique: boolean;
+  multiEntry: boolean;
+}
+
+export interface StoredRecord {
+  key: Buffer;
+  value: Buffer;
+}
+
+/** A record to put, with the entries it gets in its store's indexes */
+export interface RecordWrite {
+  key: KeyBytes;
+  value: KeyBytes;
+  indexEntries: Array<{ indexId: number; key: KeyBytes }>;
+}
+
+export interface StoredIndexEntry {
+  index_key: Buffer;
+  primary_key: Buffer;
+  value: Buffer;
+}
+
+/**
+ * Coordinates connections between factories sharing one storage location,
+ * possibly in different processes: open/delete requests for a name take
+ * turns, and `versionchange` reaches connections owned by other factories.
+ */
+export interface ConnectionCoordinator {
+  /** Take the lock for a database name if it is free */
+  tryAcquire(name: string): boolean;
+  release(name: string): void;
+  /**
+   * Announce an open connection. `onVersionChange` runs when another factory
+   * asks it to close. Returns an id for removeConnection().
+   */
+  addConnection(name: string, onVersionChange: (newVersion: number | null) => void): string;
+  removeConnection(id: string): void;
+  /** Send versionchange to other factories' connections to `name` */
+  requestVersionChange(name: string, newVersion: number | null): void;
+  /** Whether other factories still have connections to `name` */
+  hasOtherConnections(name: string): boolean;
+  /** Call `check` periodically until it returns true */
+  waitUntil(check: () => boolean): void;
+  /** Record that `name` was deleted, upgraded or restored */
+  markChanged(name: string): void;
+  /**
+   * How many times `name` has been changed (see markChanged), so a factory
+   * can tell whether a storage handle it kept idle is still current
+   */
+  changeCount(name: string): number;
+  /** Drop this factory's locks and connections */
+  close(): void;
+}
+
+/** How far a backup or restore has got, in SQLite pages (or the engine's own units) */
+export interface BackupProgress {
+  totalPages: number;
+  remainingPages: number;
+}
+
+/** The methods that only read: what readonly transactions and integrity checks use */
+export type StorageReadMethod =
+  | 'getObjectStoreNames'
+  | 'getObjectStoreMetadata'
+  | 'getRecord'
+  | 'getRecordInRange'
+  | 'countRecords'
+  | 'getAllRecords'
+  | 'iterateRecords'
+  | 'getNextRecordForCursor'
+  | 'getIndexNames'
+  | 'getIndexesForStore'
+  | 'getIndexMetadata'
+  | 'getRecordByIndexKey'
+  | 'getRecordByIndexRange'
+  | 'countIndexEntries'
+  | 'getAllIndexEntries'
+  | 'getNextIndexEntryForCursor'
+  | 'checkStorage'
+  | 'iterateIndexEntries';
+
+export type StorageReader = Pick<StorageBackend, StorageReadMethod>;
+
+/** A readonly view of one database; see StorageBackend.openSnapshot */
+export interface StorageSnapshot extends StorageReader {
+  /** Stop reading; the view is not used afterwards */
+  release(): void;
+}
+
+export interface StorageBackend {
+  // Databases
+
+  /** Create (if needed) and open the storage for a database */
+  openDatabase(name: string): void;
+  /** Close the storage for a database; it is reopened on next use */
+  closeDatabase(name: string): void;
+  /** Close everything; the backend is not used afterwards */
+  closeAll(): void;
+  /**
+   * True if `err` (thrown by one of these methods) means the database's
+   * storage is gone or unusable. Its connections are then closed forcibly.
+   */
+  isFatalError(err: unknown): boolean;
+  /**
+   * True if `err` means the storage was locked by someone else (another
+   * process) for longer than the backend waits. The transaction is aborted,
+   * and the connection kept.
+   */
+  isBusyError?(err: unknown): boolean;
+  /** Coordinator for factories sharing this storage; omit if it can't be shared */
+  createCoordinator?(): ConnectionCoordinator | null;
+  /**
+   * Open a view of a database for a readonly transaction that keeps reading
+   * what was committed when it was opened, so writers needn't wait for it.
+   * Return null (or omit) if the engine can't; readonly transactions then
+   * read the live data and writers wait for them.
+   */
+  openSnapshot?(dbName: string): StorageSnapshot | null;
+  /** Stored version of a database, or 0 if it doesn't exist */
+  getDatabaseVersion(name: string): number;
+  databaseExists(name: string): boolean;
+  setDatabaseVersion(name: string, version: number): void;
+  /** Delete a database and all of its data */
+  deleteDatabaseRecord(name: string): void;
+  listDatabases(): Array<{ name: string; version: number }>;
+
+  // Backups (optional: IDBFactory.backup() and restore() need them)
+
+  /**
+   * Copy a database, with its version, to a backup file at `destPath`. What
+   * is committed when this is called is what gets copied, while writers
+   * carry on. Runs alone among the database's transactions until it returns.
+   */
+  backupDatabase?(name: string, destPath: string, onProgress?: (progress: BackupProgress) => void): Promise<void>;
+  /**
+   * Name and version of the database in a backup file, or null if it isn't
+   * one. Throws NotFoundError if there is no file, DataError if it can't be read.
+   */
+  readBackupInfo?(srcPath: string): { name: string; version: number } | null;
+  /** Replace (or create) a database from a backup file; nothing is connected to it */
+  restoreDatabase?(name: string, srcPath: string, onProgress?: (progress: BackupProgress) => void): Promise<void>;
+
+  // Integrity checks (optional: IDBFactory.checkIntegrity() needs the first
+  // two, and the third to repair)
+
+  /** What the engine's own consistency check finds wrong with a database's storage (empty if nothing) */
+  checkStorage?(dbName: string): string[];
+  /** Every entry of an index, whether or not its record exists */
+  iterateIndexEntries?(dbName: string, indexId: number): Iterable<{ key: Buffer; primaryKey: Buffer }>;
+  /**
+   * Remove every entry of an index, to rebuild it. Only called in a
+   * transaction begun without a scope, which runs alone.
+   */
+  clearIndexEntries?(dbName: string, indexId: number): void;
+
+  // Transactions. Readwrite transactions with disjoint scopes may run at the
+  // same time; ending one must keep or undo its own changes only.
+
+  /**
+   * Start a transaction's changes. `scope` names the stores it may write;
+   * it is omitted for a versionchange transaction, which runs alone.
+   */
+  beginSavepoint(dbName: string, savepointName: string, durability?: IDBTransactionDurability, scope?: string[]): void;
+  /** Commit the transaction's changes */
+  releaseSavepoint(dbName: string, savepointName: string): void;
+  /** Undo the transaction's changes */
+  rollbackSavepoint(dbName: string, savepointName: string): void;
+
+  // Object stores
+
+  getObjectStoreNames(dbName: string): string[];
+  /** Returns the new store's id */
+  createObjectStore(dbName: string, storeName: string, keyPath: string | string[] | null, autoIncrement: boolean): number;
+  deleteObjectStore(dbName: string, storeName: string): void;
+  renameObjectStore(dbName: string, oldName: string, newName: string): void;
+  getObjectStoreMetadata(dbName: string, storeName: string): ObjectStoreMetadata | null;
+  /** Update the key generator's current number */
+  updateCurrentKey(dbName: string, storeId: number, currentKey: number): void;
+
+  // Records
+
+  putRecord(dbName: string, storeId: number, key: KeyBytes, value: KeyBytes): void;
+  /**
+   * Put records with their index entries, in order, replacing the index
+   * entries of records they overwrite (putAll/addAll)
+   */
+  putRecords(dbName: string, storeId: number, records: RecordWrite[]): void;
+  getRecord(dbName: string, storeId: number, key: KeyBytes): Buffer | null;
+  /** First record in the range */
+  getRecordInRange(dbName: string, storeId: number, lower: KeyBytes | null, upper: KeyBytes | null, lowerOpen: boolean, upperOpen: boolean): StoredRecord | null;
+  deleteRecord(dbName: string, storeId: number, key: KeyBytes): void;
+  deleteRecordsInRange(dbName: string, storeId: number, lower: KeyBytes | null, upper: KeyBytes | null, lowerOpen: boolean, upperOpen: boolean): void;
+  countRecords(dbName: string, storeId: number, lower?: KeyBytes | null, upper?: KeyBytes | null, lowerOpen?: boolean, upperOpen?: boolean): number;
+  clearRecords(dbName: string, storeId: number): void;
+  getAllRecords(dbName: string, storeId: number, lower: KeyBytes | null, upper: KeyBytes | null, lowerOpen: boolean, upperOpen: boolean, direction: CursorDirection, maxCount?: number): StoredRecord[];
+  /** Every record of a store in key order, to build a new index from */
+  iterateRecords(dbName: string, storeId: number): Iterable<StoredRecord>;
+  /** Next record for a cursor step, `skip` records past the seek position */
+  getNextRecordForCursor(dbName: string, storeId: number, lower: KeyBytes | null, upper: KeyBytes | null, lowerOpen: boolean, upperOpen: boolean, direction: CursorDirection, seek: CursorSeek | null, skip?: number): StoredRecord | null;
+
+  // Indexes
+
+  getIndexNames(dbName: string, storeId: number): string[];
+  getIndexesForStore(dbName: string, storeId: number): IndexMetadata[];
+  /** Returns the new index's id */
+  createIndex(dbName: string, storeId: number, indexName: string, keyPath: string | string[], unique: boolean, multiEntry: boolean): number;
+  deleteIndex(dbName: string, storeId: number, indexName: string): void;
+  renameIndex(dbName: string, storeId: number, oldName: string, newName: string): void;
+  getIndexMetadata(dbName: string, storeId: number, indexName: string): IndexMetadata | null;
+  addIndexEntry(dbName: string, indexId: number, key: KeyBytes, primaryKey: KeyBytes): void;
+  /** Remove the record's entries from every index of the store */
+  deleteIndexEntriesForRecord(dbName: string, storeId: number, primaryKey: KeyBytes): void;
+  /** True if the key is already used by a record other than `excludePrimaryKey` */
+  checkUniqueIndexConstraint(dbName: string, indexId: number, indexKey: KeyBytes, excludePrimaryKey?: KeyBytes): boolean;
+  getRecordByIndexKey(dbName: string, indexId: number, indexKey: KeyBytes): { primaryKey: Buffer; value: Buffer } | null;
+  getRecordByIndexRange(dbName: string, indexId: number, lower: KeyBytes | null, upper: KeyBytes | null, lowerOpen: boolean, upperOpen: boolean): { primaryKey: Buffer; value: Buffer; indexKey: Buffer } | null;
+  countIndexEntries(dbName: string, indexId: number, lower?: KeyBytes | null, upper?: KeyBytes | null, lowerOpen?: boolean, upperOpen?: boolean): number;
+  getAllIndexEntries(dbName: string, indexId: number, storeId: number, lower: KeyBytes | null, upper: KeyBytes | null, lowerOpen: boolean, upperOpen: boolean, direction: CursorDirection, maxCount?: number): StoredIndexEntry[];
+  /** Next index entry for a cursor step, `skip` entries past the seek position */
+  getNextIndexEntryForCursor(dbName: string, indexId: number, storeId: number, lower: KeyBytes | null, upper: KeyBytes | null, lowerOpen: boolean, upperOpen: boolean, direction: CursorDirection, seek: CursorSeek | null, skip?: number): StoredIndexEntry | null;
+}
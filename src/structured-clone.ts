@@ -2,6 +2,10 @@
 // This is the only file besides sqlite-backend.ts that uses Node-specific APIs.
 
 import * as v8 from 'node:v8';
+import { types } from 'node:util';
+
+/** Bytes of the Blobs in a value, read ahead with readBlobs() */
+export type BlobBytes = Map<Blob, Uint8Array>;
 
 /**
  * Serialize a value using the structured clone algorithm.
@@ -9,21 +13,32 @@ import * as v8 from 'node:v8';
  * - Primitives (undefined, null, boolean, number, BigInt, string)
  * - Primitive wrapper objects (Object(true), Object(42), Object(1n), Object("str"))
  * - Date, RegExp
- * - ArrayBuffer, SharedArrayBuffer, all TypedArray variants
+ * - ArrayBuffer, all TypedArray variants
  * - Map, Set
  * - Error subtypes (Error, TypeError, RangeError, etc.)
  * - Arrays (including sparse arrays and non-index properties)
  * - Plain objects
  * - Circular/recursive references
- * - Blob, File (serialized as special wrapper)
+ * - Blob, File (written as host objects carrying their bytes and metadata)
  *
+ * A value holding Blobs needs their bytes, read into `blobBytes` first;
+ * without them it throws DataCloneError.
  * Throws DataCloneError for non-serializable types (functions, Symbols, DOM objects).
  */
-export function serialize(value: any): Buffer {
+export function serialize(value: any, blobBytes?: BlobBytes): Buffer {
   try {
-    // Handle Blob/File specially since v8.serialize may not handle them natively
-    const prepared = prepareBlobsForSerialization(value, new Map());
-    return v8.serialize(prepared);
+    // V8 doesn't see Blobs as host objects (as of Node 22), and would write
+    // them as empty objects. So in a copy, an empty view stands in for each:
+    // views can be made host objects
+    const blobs = new Map<object, { blob: Blob; bytes: Uint8Array }>();
+    const copy = cloneGraph(value, new Map(), (blob) => {
+      const marker = new Uint8Array(0);
+      const bytes = blob.size === 0 ? new Uint8Array(0) : blobBytes?.get(blob);
+      if (!bytes) throw new DOMException('The Blob has not been read.', 'DataCloneError');
+      blobs.set(marker, { blob, bytes });
+      return marker;
+    });
+    return writeValue(copy, new IDBSerializer(blobs.size === 0 ? null : blobs));
   } catch (e: any) {
     // V8 serializer throws for non-cloneable types
     throw new DOMException(
@@ -38,8 +53,14 @@ export function serialize(value: any): Buffer {
  */
 export function deserialize(buffer: Buffer | Uint8Array): any {
   try {
-    const result = v8.deserialize(Buffer.from(buffer));
-    return restoreBlobsFromDeserialization(result, new Map());
+    const data = Buffer.from(buffer);
+    if (data[0] === FORMAT_TAG) {
+      const deserializer = new IDBDeserializer(data.subarray(1));
+      deserializer.readHeader();
+      return deserializer.readValue();
+    }
+    // Values written before Blob support used Node's default serializer
+    return v8.deserialize(data);
   } catch (e: any) {
     // Fallback: if deserialization fails, try JSON parse for legacy data
     try {
@@ -53,59 +74,228 @@ export function deserialize(buffer: Buffer | Uint8Array): any {
 /**
  * Clone a value using the structured clone algorithm.
  * Used for clone-before-keypath-eval.
- * Throws DataCloneError for non-cloneable types.
+ * Walks the value in JS, as V8's serializer would, because V8 can't tell
+ * Blobs from plain objects: File objects keep their name and lastModified
+ * (Node's structuredClone() turns them into plain Blobs). Blobs can't
+ * change, so the clone shares them with the value; they are added to
+ * `blobs`, for their bytes to be read before serializing.
+ * Throws DataCloneError for non-cloneable types; errors thrown by getters
+ * during the clone are re-thrown as-is.
  */
-export function cloneValue(value: any): any {
-  try {
-    return structuredClone(value);
-  } catch (e: any) {
-    // structuredClone throws DOMException with name "DataCloneError" for non-cloneable types.
-    // Any other error (e.g., from a getter) should be re-thrown as-is.
-    if (e instanceof DOMException && e.name === 'DataCloneError') {
-      throw e;
+export function cloneValue(value: any, blobs: Blob[] = []): any {
+  return cloneGraph(value, new Map(), (blob) => {
+    blobs.push(blob);
+    return blob;
+  });
+}
+
+/** Read the bytes of Blobs, for serialize() */
+export async function readBlobs(blobs: Blob[]): Promise<BlobBytes> {
+  const bytes: BlobBytes = new Map();
+  await Promise.all(blobs.map(async (blob) => {
+    bytes.set(blob, new Uint8Array(await blob.arrayBuffer()));
+  }));
+  return bytes;
+}
+
+// Serialized values start with this byte so they can be told apart from
+// values written by v8.serialize() (which always start with 0xFF).
+const FORMAT_TAG = 0x01;
+
+// Host object tags for Blob/File, and for the views written next to them
+const HOST_TAG_BLOB = 1;
+const HOST_TAG_FILE = 2;
+const HOST_TAG_VIEW = 3;
+
+// Views by number, for HOST_TAG_VIEW
+const VIEW_TYPES = [
+  'Int8Array', 'Uint8Array', 'Uint8ClampedArray', 'Int16Array', 'Uint16Array', 'Int32Array', 'Uint32Array',
+  'Float32Array', 'Float64Array', 'BigInt64Array', 'BigUint64Array', 'DataView', 'Float16Array',
+];
+
+// The type of a typed array ('Uint8Array', ...), or undefined for a DataView
+const typedArrayName = Object.getOwnPropertyDescriptor(
+  Object.getPrototypeOf(Uint8Array.prototype),
+  Symbol.toStringTag
+)!.get as (this: ArrayBufferView) => string | undefined;
+
+function writeValue(value: any, serializer: IDBSerializer): Buffer {
+  serializer.writeHeader();
+  serializer.writeValue(value);
+  return Buffer.concat([Buffer.of(FORMAT_TAG), serializer.releaseBuffer()]);
+}
+
+/**
+ * Copy a value as the structured clone algorithm does, with each Blob
+ * replaced by what `onBlob` returns. `memory` maps objects copied so far to
+ * their copies. Objects other than plain ones, arrays, Maps, Sets and
+ * buffers (Errors, say) are cloned by V8, and refuse it if they can't be.
+ */
+function cloneGraph(value: any, memory: Map<object, any>, onBlob: (blob: Blob) => unknown): any {
+  if (typeof value === 'symbol' || typeof value === 'function') {
+    throw new DOMException(`${String(value)} could not be cloned.`, 'DataCloneError');
+  }
+  if (value === null || typeof value !== 'object') return value;
+  if (memory.has(value)) return memory.get(value);
+
+  let copy: any;
+  if (types.isProxy(value)) {
+    throw new DOMException('#<Object> could not be cloned.', 'DataCloneError');
+  } else if (value instanceof Blob) {
+    copy = onBlob(value);
+  } else if (Array.isArray(value)) {
+    copy = new Array(value.length);
+  } else if (types.isArrayBuffer(value)) {
+    copy = value.slice(0);
+  } else if (types.isArrayBufferView(value)) {
+    const buffer = cloneGraph(value.buffer, memory, onBlob);
+    const name = typedArrayName.call(value);
+    copy = name === undefined
+      ? new DataView(buffer, value.byteOffset, value.byteLength)
+      : new (globalThis as any)[name](buffer, value.byteOffset, (value as Uint8Array).length);
+  } else if (types.isMap(value)) {
+    copy = new Map();
+    memory.set(value, copy);
+    for (const [k, v] of [...Map.prototype.entries.call(value)]) {
+      copy.set(cloneGraph(k, memory, onBlob), cloneGraph(v, memory, onBlob));
+    }
+    return copy;
+  } else if (types.isSet(value)) {
+    copy = new Set();
+    memory.set(value, copy);
+    for (const v of [...Set.prototype.values.call(value)]) {
+      copy.add(cloneGraph(v, memory, onBlob));
+    }
+    return copy;
+  } else if (isPlainObject(value)) {
+    copy = {};
+  } else {
+    // Date, RegExp, Error, wrapper objects, or something that can't be cloned
+    try {
+      copy = v8.deserialize(v8.serialize(value));
+    } catch {
+      throw new DOMException(`${Object.prototype.toString.call(value)} could not be cloned.`, 'DataCloneError');
+    }
+  }
+  memory.set(value, copy);
+  if (typeof copy === 'object' && (Array.isArray(copy) || Object.getPrototypeOf(copy) === Object.prototype)) {
+    // Own enumerable properties, each read once (getters included)
+    for (const key of Object.keys(value)) {
+      const property = cloneGraph(value[key], memory, onBlob);
+      if (key === '__proto__') {
+        Object.defineProperty(copy, key, { value: property, writable: true, enumerable: true, configurable: true });
+      } else {
+        copy[key] = property;
+      }
     }
-    // Re-throw original error (e.g., from enumerable getters)
-    throw e;
   }
+  return copy;
 }
 
-// Blob/File serialization helpers
-// V8 serialize doesn't handle Blob/File natively, so we wrap them
-
-const BLOB_MARKER = '__idb_blob__';
-const FILE_MARKER = '__idb_file__';
-
-function prepareBlobsForSerialization(value: any, seen: Map<any, any>): any {
-  if (value === null || value === undefined) return value;
-  if (typeof value !== 'object' && typeof value !== 'function') return value;
-
-  // Check for circular references
-  if (seen.has(value)) return seen.get(value);
-
-  if (typeof File !== 'undefined' && value instanceof File) {
-    // Convert File to a serializable representation
-    // Note: We need to read the file synchronously, but Blob.arrayBuffer() is async
-    // For now, we store the metadata and use a marker
-    const wrapper = {
-      [FILE_MARKER]: true,
-      name: value.name,
-      type: value.type,
-      lastModified: value.lastModified,
-      // Store raw bytes - we'll need to extract them
-      // Since we can't do async here, we serialize using v8 which handles Blob internally in Node 20+
-    };
-    return value; // Let v8.serialize handle it natively if possible
+/**
+ * Whether V8 writes an object as a plain one: one that Object.prototype.toString
+ * calls an Object, or that has no built-in constructor's prototype on its
+ * chain but says it is something else through Symbol.toStringTag.
+ */
+function isPlainObject(value: object): boolean {
+  if (Object.prototype.toString.call(value) === '[object Object]') return true;
+  for (let proto = Object.getPrototypeOf(value); proto !== null && proto !== Object.prototype; proto = Object.getPrototypeOf(proto)) {
+    const constructor = Object.getOwnPropertyDescriptor(proto, 'constructor')?.value;
+    if (typeof constructor === 'function' && /\{\s*\[native code\]\s*\}$/.test(Function.prototype.toString.call(constructor))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * V8 serializer that writes Blob and File host objects with their bytes.
+ * Extends the base Serializer (not DefaultSerializer) so ArrayBuffer views
+ * go through V8's native handling, except next to Blobs: the views standing
+ * in for them are host objects, which makes every view one.
+ */
+class IDBSerializer extends v8.Serializer {
+  // The Blobs each stand-in view is for (see serialize())
+  private _blobs: Map<object, { blob: Blob; bytes: Uint8Array }> | null;
+
+  constructor(blobs: Map<object, { blob: Blob; bytes: Uint8Array }> | null) {
+    super();
+    this._blobs = blobs;
+    // (Documented, but missing from Node's type definitions)
+    if (blobs) (this as any)._setTreatArrayBufferViewsAsHostObjects(true);
+  }
+
+  _writeHostObject(object: object): void {
+    const standIn = this._blobs?.get(object);
+    if (standIn) {
+      this._writeBlob(standIn.blob, standIn.bytes);
+    } else if (this._blobs && ArrayBuffer.isView(object)) {
+      const name = typedArrayName.call(object);
+      this.writeUint32(HOST_TAG_VIEW);
+      this.writeUint32(VIEW_TYPES.indexOf(name ?? 'DataView'));
+      // Written as a value of its own, so views of one buffer still share it
+      this.writeValue(object.buffer);
+      this.writeUint32(object.byteOffset);
+      this.writeUint32(name === undefined ? object.byteLength : (object as Uint8Array).length);
+    } else {
+      throw this._getDataCloneError(`${Object.prototype.toString.call(object)} could not be cloned.`);
+    }
   }
 
-  if (typeof Blob !== 'undefined' && value instanceof Blob) {
-    return value; // Let v8.serialize handle it natively if possible
+  _getDataCloneError(message: string): Error {
+    return new DOMException(message, 'DataCloneError') as unknown as Error;
   }
 
-  // For arrays and objects, recurse (not needed if v8.serialize handles everything)
-  return value;
+  private _writeBlob(blob: Blob, bytes: Uint8Array): void {
+    const isFile = typeof File !== 'undefined' && blob instanceof File;
+    this.writeUint32(isFile ? HOST_TAG_FILE : HOST_TAG_BLOB);
+    this._writeString(blob.type);
+    if (isFile) {
+      this._writeString((blob as File).name);
+      this.writeDouble((blob as File).lastModified);
+    }
+    this.writeUint32(bytes.byteLength);
+    this.writeRawBytes(bytes);
+  }
+
+  private _writeString(value: string): void {
+    const bytes = Buffer.from(value, 'utf8');
+    this.writeUint32(bytes.byteLength);
+    this.writeRawBytes(bytes);
+  }
 }
 
-function restoreBlobsFromDeserialization(value: any, seen: Map<any, any>): any {
-  // v8.deserialize should handle Blob/File natively in Node 20+
-  return value;
+class IDBDeserializer extends v8.Deserializer {
+  _readHostObject(): any {
+    const tag = this.readUint32();
+    if (tag === HOST_TAG_VIEW) {
+      const name = VIEW_TYPES[this.readUint32()];
+      const buffer = this.readValue();
+      const byteOffset = this.readUint32();
+      const length = this.readUint32();
+      return name === 'DataView'
+        ? new DataView(buffer, byteOffset, length)
+        : new (globalThis as any)[name](buffer, byteOffset, length);
+    }
+    if (tag !== HOST_TAG_BLOB && tag !== HOST_TAG_FILE) {
+      throw new Error(`Unknown host object tag: ${tag}`);
+    }
+    const type = this._readString();
+    if (tag === HOST_TAG_FILE) {
+      const name = this._readString();
+      const lastModified = this.readDouble();
+      const bytes = this._readBytes();
+      return new File([bytes], name, { type, lastModified });
+    }
+    return new Blob([this._readBytes()], { type });
+  }
+
+  private _readString(): string {
+    return Buffer.from(this._readBytes()).toString('utf8');
+  }
+
+  private _readBytes(): Uint8Array<ArrayBuffer> {
+    // Copy out: readRawBytes() returns a view into the source buffer
+    return new Uint8Array(this.readRawBytes(this.readUint32()));
+  }
 }
@@ -5,19 +5,33 @@
 // - Multiple readonly transactions with non-overlapping or overlapping scopes can run in parallel
 // - A readwrite transaction blocks other readwrite transactions with overlapping scopes
 // - A readwrite transaction blocks readonly transactions with overlapping scopes
+// - A readonly transaction reading a snapshot (see StorageBackend.openSnapshot)
+//   doesn't block readwrite transactions, even ones created after it
 // - Transactions execute in creation order when they have overlapping scopes
 // - Transactions on different databases are independent
+//
+// Each IDBFactory owns one DatabaseScheduler per database name, so factories
+// (e.g. with different storage paths) never block each other.
+
+/** What a connection needs from its scheduler (local, or a served worker's remote one) */
+export interface TransactionScheduler {
+  addTransaction(transaction: any, scope: string[], mode: IDBTransactionMode, onStart: () => void): void;
+  transactionFinished(transaction: any): void;
+  /** The started (readonly) transaction now reads a snapshot */
+  snapshotOpened(transaction: any): void;
+}
 
 interface PendingTransaction {
   transaction: any; // IDBTransaction
   scope: string[];
   mode: IDBTransactionMode;
   started: boolean;
+  snapshot: boolean;
   onStart: () => void;
 }
 
 // Per-database scheduler
-class DatabaseScheduler {
+export class DatabaseScheduler implements TransactionScheduler {
   // Queue of all transactions (pending + active), in creation order
   _queue: PendingTransaction[] = [];
 
@@ -27,6 +41,7 @@ class DatabaseScheduler {
       scope,
       mode,
       started: false,
+      snapshot: false,
       onStart,
     };
     this._queue.push(entry);
@@ -41,6 +56,14 @@ class DatabaseScheduler {
     this._processQueue();
   }
 
+  snapshotOpened(transaction: any): void {
+    const entry = this._queue.find(e => e.transaction === transaction);
+    if (entry) {
+      entry.snapshot = true;
+      this._processQueue();
+    }
+  }
+
   _processQueue(): void {
     for (const entry of this._queue) {
       if (entry.started) continue;
@@ -58,6 +81,7 @@ class DatabaseScheduler {
     for (const other of this._queue) {
       if (other === entry) break; // Only check transactions created before this one
       if (!other.started) continue; // Not started yet, can't block
+      if (other.snapshot) continue; // Doesn't see later writes anyway
       if (!this._scopesOverlap(entry.scope, other.scope)) continue;
 
       // Overlapping scopes:
@@ -90,15 +114,3 @@ class DatabaseScheduler {
     return false;
   }
 }
-
-// Global scheduler map: dbName -> DatabaseScheduler
-const schedulers = new Map<string, DatabaseScheduler>();
-
-export function getScheduler(dbName: string): DatabaseScheduler {
-  let scheduler = schedulers.get(dbName);
-  if (!scheduler) {
-    scheduler = new DatabaseScheduler();
-    schedulers.set(dbName, scheduler);
-  }
-  return scheduler;
-}
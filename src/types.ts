@@ -5,6 +5,9 @@ export type IDBKey = number | string | Date | ArrayBuffer | IDBKey[];
 // Valid key as stored internally (ArrayBuffer views are converted to ArrayBuffer)
 export type IDBValidKey = number | string | Date | ArrayBuffer | IDBValidKey[];
 
+// Transaction durability hint (IDBTransactionOptions.durability)
+export type IDBTransactionDurability = 'default' | 'strict' | 'relaxed';
+
 // Transaction mode type (not available in Node's type system)
 declare global {
   type IDBTransactionMode = 'readonly' | 'readwrite' | 'versionchange';
@@ -0,0 +1,654 @@
+// Sharing one factory's storage with worker threads.
+//
+// The owning IDBFactory serves a MessagePort (IDBFactory.serve()); a factory
+// created with that port in another thread (IDBFactoryOptions.port) runs
+// every storage call through the owner. Storage calls are synchronous in the
+// IDB layer, so the client posts each call and blocks on a shared signal
+// until the owner has replied. Transactions are scheduled by the owner's
+// schedulers and connections are coordinated by an owner-side coordinator
+// per client, so ordering and versionchange work across threads as they do
+// within one.
+
+import { MessageChannel, receiveMessageOnPort } from 'node:worker_threads';
+import type { MessagePort } from 'node:worker_threads';
+import type { StorageBackend, StorageSnapshot, ConnectionCoordinator } from './storage-backend.ts';
+import type { TransactionScheduler } from './transaction-scheduler.ts';
+
+// How long a client waits for the owner to answer a storage call
+const CALL_TIMEOUT_MS = 30_000;
+
+// How often a client re-runs its coordination waiters
+const WAIT_POLL_MS = 25;
+
+// Signal states, shared between client and owner
+const SIGNAL_WAITING = 0;
+const SIGNAL_REPLIED = 1;
+const SIGNAL_DISCONNECTED = 2;
+
+// Backend methods a client may call, on the backend or on one of its
+// snapshots. Closing stays with the owner; openSnapshot is handled apart.
+const BACKEND_METHODS = [
+  'openDatabase',
+  'getDatabaseVersion',
+  'databaseExists',
+  'setDatabaseVersion',
+  'deleteDatabaseRecord',
+  'listDatabases',
+  'beginSavepoint',
+  'releaseSavepoint',
+  'rollbackSavepoint',
+  'getObjectStoreNames',
+  'createObjectStore',
+  'deleteObjectStore',
+  'renameObjectStore',
+  'getObjectStoreMetadata',
+  'updateCurrentKey',
+  'putRecord',
+  'putRecords',
+  'getRecord',
+  'getRecordInRange',
+  'deleteRecord',
+  'deleteRecordsInRange',
+  'countRecords',
+  'clearRecords',
+  'getAllRecords',
+  'iterateRecords',
+  'getNextRecordForCursor',
+  'getIndexNames',
+  'getIndexesForStore',
+  'createIndex',
+  'deleteIndex',
+  'renameIndex',
+  'getIndexMetadata',
+  'addIndexEntry',
+  'deleteIndexEntriesForRecord',
+  'checkUniqueIndexConstraint',
+  'getRecordByIndexKey',
+  'getRecordByIndexRange',
+  'countIndexEntries',
+  'getAllIndexEntries',
+  'getNextIndexEntryForCursor',
+] as const;
+
+type BackendMethod = (typeof BACKEND_METHODS)[number];
+
+// Coordinator methods a client may call (addConnection is handled apart)
+const COORDINATOR_METHODS = [
+  'tryAcquire',
+  'release',
+  'removeConnection',
+  'requestVersionChange',
+  'hasOtherConnections',
+  'markChanged',
+  'changeCount',
+] as const;
+
+/** What a call runs on: the backend, the coordinator or a snapshot (by id) */
+type CallTarget = 'backend' | 'coordinator' | number;
+
+/** Messages from a client to the owner */
+type ClientMessage =
+  | { type: 'hello'; replyPort: MessagePort; signal: SharedArrayBuffer }
+  | { type: 'call'; target: CallTarget; method: string; args: any[] }
+  | { type: 'schedule'; name: string; id: number; scope: string[]; mode: IDBTransactionMode }
+  | { type: 'snapshot'; id: number }
+  | { type: 'finished'; id: number }
+  | { type: 'disconnect' };
+
+/** Messages from the owner to a client, besides call replies */
+type OwnerMessage =
+  | { type: 'start'; id: number }
+  | { type: 'versionchange'; id: string; newVersion: number | null };
+
+type CallReply =
+  | { result: any }
+  | { error: { name: string; message: string; code?: string; fatal: boolean; busy: boolean } };
+
+/**
+ * A storage call that failed in the owning thread. `fatal` and `busy` are
+ * the owner's isFatalError() and isBusyError() verdicts; losing the owner is
+ * fatal too.
+ */
+export class RemoteStorageError extends Error {
+  code: string | undefined;
+  fatal: boolean;
+  busy: boolean;
+
+  constructor(message: string, code: string | undefined, fatal: boolean, busy: boolean = false) {
+    super(message);
+    this.name = 'RemoteStorageError';
+    this.code = code;
+    this.fatal = fatal;
+    this.busy = busy;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Owner side
+
+/** What the owning factory lends to the clients it serves */
+export interface StorageHost {
+  backend: StorageBackend;
+  getScheduler(name: string): TransactionScheduler;
+}
+
+interface ServedClient {
+  replyPort: MessagePort | null;
+  signal: Int32Array | null;
+  coordinator: ConnectionCoordinator | null;
+  // Scheduler entries of the client's transactions, by id
+  transactions: Map<number, { name: string; token: object }>;
+  // Savepoints the client has begun and not yet ended, in order
+  savepoints: Array<{ dbName: string; savepointName: string }>;
+  // Snapshots the client has open, by id
+  snapshots: Map<number, StorageSnapshot>;
+  nextSnapshotId: number;
+}
+
+/**
+ * Serve storage to the client factory at the other end of `port`. Returns a
+ * function that cuts the client off; this also happens when the client
+ * disconnects or its thread exits. Either way, whatever the client left
+ * unfinished is rolled back.
+ */
+export function serveStorage(port: MessagePort, host: StorageHost): () => void {
+  const client: ServedClient = {
+    replyPort: null,
+    signal: null,
+    coordinator: null,
+    transactions: new Map(),
+    savepoints: [],
+    snapshots: new Map(),
+    nextSnapshotId: 1,
+  };
+  let done = false;
+
+  const reply = (message: CallReply) => {
+    if (!client.replyPort || !client.signal) return;
+    client.replyPort.postMessage(message);
+    Atomics.compareExchange(client.signal, 0, SIGNAL_WAITING, SIGNAL_REPLIED);
+    Atomics.notify(client.signal, 0);
+  };
+
+  const shutdown = () => {
+    if (done) return;
+    done = true;
+    for (const { name, token } of client.transactions.values()) {
+      host.getScheduler(name).transactionFinished(token);
+    }
+    client.transactions.clear();
+    for (const { dbName, savepointName } of client.savepoints.reverse()) {
+      try {
+        host.backend.rollbackSavepoint(dbName, savepointName);
+      } catch {
+        // ignore: the storage may be gone already
+      }
+    }
+    client.savepoints = [];
+    for (const snapshot of client.snapshots.values()) {
+      try {
+        snapshot.release();
+      } catch {
+        // ignore
+      }
+    }
+    client.snapshots.clear();
+    client.coordinator?.close();
+    if (client.signal) {
+      Atomics.store(client.signal, 0, SIGNAL_DISCONNECTED);
+      Atomics.notify(client.signal, 0);
+    }
+    client.replyPort?.close();
+    port.close();
+  };
+
+  port.on('message', (message: ClientMessage) => {
+    if (done) return;
+    switch (message.type) {
+      case 'hello':
+        client.replyPort = message.replyPort;
+        client.signal = new Int32Array(message.signal);
+        client.coordinator = host.backend.createCoordinator?.() ?? null;
+        reply({ result: { coordinator: client.coordinator !== null } });
+        break;
+      case 'call':
+        reply(runCall(client, host.backend, port, message.target, message.method, message.args));
+        break;
+      case 'schedule': {
+        const token = {};
+        client.transactions.set(message.id, { name: message.name, token });
+        host.getScheduler(message.name).addTransaction(token, message.scope, message.mode, () => {
+          if (!done) port.postMessage({ type: 'start', id: message.id } satisfies OwnerMessage);
+        });
+        break;
+      }
+      case 'snapshot': {
+        const entry = client.transactions.get(message.id);
+        if (entry) {
+          host.getScheduler(entry.name).snapshotOpened(entry.token);
+        }
+        break;
+      }
+      case 'finished': {
+        const entry = client.transactions.get(message.id);
+        if (entry) {
+          client.transactions.delete(message.id);
+          host.getScheduler(entry.name).transactionFinished(entry.token);
+        }
+        break;
+      }
+      case 'disconnect':
+        shutdown();
+        break;
+    }
+  });
+  port.on('close', shutdown);
+  // The client's thread keeps itself alive; don't keep the owner alive for it
+  port.unref();
+
+  return shutdown;
+}
+
+function runCall(
+  client: ServedClient,
+  backend: StorageBackend,
+  port: MessagePort,
+  target: CallTarget,
+  method: string,
+  args: any[]
+): CallReply {
+  args = toBuffers(args);
+  try {
+    if (typeof target === 'number') {
+      const snapshot = client.snapshots.get(target);
+      if (!snapshot) throw new TypeError(`Unknown snapshot: ${target}`);
+      if (method === 'release') {
+        client.snapshots.delete(target);
+        snapshot.release();
+        return { result: undefined };
+      }
+      if (!(BACKEND_METHODS as readonly string[]).includes(method) || typeof (snapshot as any)[method] !== 'function') {
+        throw new TypeError(`Unknown snapshot method: ${method}`);
+      }
+      return { result: toPostable((snapshot as any)[method](...args)) };
+    }
+    if (target === 'coordinator') {
+      const coordinator = client.coordinator;
+      if (!coordinator) throw new TypeError('No coordinator is shared with this client.');
+      if (method === 'addConnection') {
+        const id: string = coordinator.addConnection(args[0], (newVersion) => {
+          port.postMessage({ type: 'versionchange', id, newVersion } satisfies OwnerMessage);
+        });
+        return { result: id };
+      }
+      if (!(COORDINATOR_METHODS as readonly string[]).includes(method)) {
+        throw new TypeError(`Unknown coordinator method: ${method}`);
+      }
+      return { result: (coordinator as any)[method](...args) };
+    }
+    if (method === 'openSnapshot') {
+      const snapshot = backend.openSnapshot?.(args[0]) ?? null;
+      if (!snapshot) return { result: null };
+      const id = client.nextSnapshotId++;
+      client.snapshots.set(id, snapshot);
+      return { result: id };
+    }
+    if (!(BACKEND_METHODS as readonly string[]).includes(method)) {
+      throw new TypeError(`Unknown backend method: ${method}`);
+    }
+    const result = toPostable((backend as any)[method](...args));
+    trackSavepoint(client, method, args[0], args[1]);
+    return { result };
+  } catch (err: any) {
+    // Whatever happened, a savepoint that was being ended is gone
+    if (method === 'rollbackSavepoint') trackSavepoint(client, method, args[0], args[1]);
+    return {
+      error: {
+        name: err?.name ?? 'Error',
+        message: err?.message ?? String(err),
+        code: typeof err?.code === 'string' ? err.code : undefined,
+        fatal: target !== 'coordinator' && backend.isFatalError(err),
+        busy: target !== 'coordinator' && (backend.isBusyError?.(err) ?? false),
+      },
+    };
+  }
+}
+
+function trackSavepoint(client: ServedClient, method: string, dbName: string, savepointName: string): void {
+  if (method === 'beginSavepoint') {
+    client.savepoints.push({ dbName, savepointName });
+  } else if (method === 'releaseSavepoint' || method === 'rollbackSavepoint') {
+    const idx = client.savepoints.findIndex(
+      (sp) => sp.dbName === dbName && sp.savepointName === savepointName
+    );
+    if (idx !== -1) client.savepoints.splice(idx, 1);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Client side
+
+/**
+ * Backend that runs every call in the owning thread. Databases are opened
+ * and closed by the owner, so closeDatabase() is a no-op here.
+ */
+export interface RemoteBackend extends Pick<StorageBackend, BackendMethod> {}
+
+export class RemoteBackend implements StorageBackend {
+  private _port: MessagePort;
+  private _replyPort: MessagePort;
+  private _signal: Int32Array;
+  private _hasCoordinator: boolean;
+  private _coordinator: RemoteCoordinator | null = null;
+  // Start callbacks of transactions waiting on the owner's scheduler
+  private _pendingStarts: Map<number, () => void> = new Map();
+  private _nextTransactionId: number = 1;
+  // Set by closeAll() or once the owner is lost
+  private _disconnected: boolean = false;
+  private _lost: boolean = false;
+  /** Called once the owner has gone away (or this side disconnected) */
+  onDisconnect: (() => void) | null = null;
+
+  constructor(port: MessagePort) {
+    this._port = port;
+    const channel = new MessageChannel();
+    this._replyPort = channel.port1;
+    this._signal = new Int32Array(new SharedArrayBuffer(4));
+    port.on('message', (message: OwnerMessage) => this._handleMessage(message));
+    port.on('close', () => this._handleDisconnect());
+    this._updateRef();
+    this._post(
+      { type: 'hello', replyPort: channel.port2, signal: this._signal.buffer as SharedArrayBuffer },
+      [channel.port2]
+    );
+    this._hasCoordinator = this._awaitReply().coordinator;
+  }
+
+  closeDatabase(_name: string): void {
+    // The owner's handle is shared by every thread
+  }
+
+  closeAll(): void {
+    if (this._disconnected) return;
+    this._disconnected = true;
+    this._post({ type: 'disconnect' });
+    this._port.close();
+    this._replyPort.close();
+  }
+
+  isFatalError(err: unknown): boolean {
+    return err instanceof RemoteStorageError && err.fatal;
+  }
+
+  isBusyError(err: unknown): boolean {
+    return err instanceof RemoteStorageError && err.busy;
+  }
+
+  createCoordinator(): ConnectionCoordinator | null {
+    if (!this._hasCoordinator) return null;
+    if (!this._coordinator) {
+      this._coordinator = new RemoteCoordinator(this);
+    }
+    return this._coordinator;
+  }
+
+  openSnapshot(dbName: string): StorageSnapshot | null {
+    const id: number | null = this._call('backend', 'openSnapshot', [dbName]);
+    return id === null ? null : new RemoteSnapshot(this, id);
+  }
+
+  /** Scheduler that queues this thread's transactions in the owner's scheduler for `name` */
+  createScheduler(name: string): TransactionScheduler {
+    return new RemoteScheduler(this, name);
+  }
+
+  _call(target: CallTarget, method: string, args: any[]): any {
+    this._post({ type: 'call', target, method, args });
+    return this._awaitReply();
+  }
+
+  _schedule(name: string, scope: string[], mode: IDBTransactionMode, onStart: () => void): number {
+    const id = this._nextTransactionId++;
+    if (this._disconnected) return id;
+    this._pendingStarts.set(id, onStart);
+    this._updateRef();
+    this._post({ type: 'schedule', name, id, scope, mode });
+    return id;
+  }
+
+  _snapshotOpened(id: number): void {
+    this._post({ type: 'snapshot', id });
+  }
+
+  _finished(id: number): void {
+    if (this._pendingStarts.delete(id)) this._updateRef();
+    this._post({ type: 'finished', id });
+  }
+
+  private _post(message: ClientMessage, transfer?: MessagePort[]): void {
+    if (this._disconnected) return;
+    this._port.postMessage(message, transfer ?? []);
+  }
+
+  /** Block until the owner has answered the last call */
+  private _awaitReply(): any {
+    if (this._disconnected) throw this._disconnectedError();
+    Atomics.wait(this._signal, 0, SIGNAL_WAITING, CALL_TIMEOUT_MS);
+    const received = receiveMessageOnPort(this._replyPort);
+    if (!received) {
+      if (Atomics.load(this._signal, 0) === SIGNAL_DISCONNECTED) throw this._disconnectedError();
+      // A late reply would be taken for the next call's; give up on the owner
+      this.closeAll();
+      this._handleDisconnect();
+      throw new RemoteStorageError('The owning thread did not answer in time.', undefined, true);
+    }
+    Atomics.compareExchange(this._signal, 0, SIGNAL_REPLIED, SIGNAL_WAITING);
+    const reply = received.message as CallReply;
+    if ('error' in reply) {
+      throw new RemoteStorageError(reply.error.message, reply.error.code, reply.error.fatal, reply.error.busy);
+    }
+    return toBuffers(reply.result);
+  }
+
+  private _disconnectedError(): RemoteStorageError {
+    return new RemoteStorageError('The owning factory has gone away.', undefined, true);
+  }
+
+  private _handleMessage(message: OwnerMessage): void {
+    if (message.type === 'start') {
+      const onStart = this._pendingStarts.get(message.id);
+      if (onStart) {
+        this._pendingStarts.delete(message.id);
+        this._updateRef();
+        onStart();
+      }
+    } else if (message.type === 'versionchange') {
+      this._coordinator?._versionChange(message.id, message.newVersion);
+    }
+  }
+
+  private _handleDisconnect(): void {
+    if (this._lost) return;
+    this._lost = true;
+    this._disconnected = true;
+    this._pendingStarts.clear();
+    this._replyPort.close();
+    this._coordinator?.close();
+    this.onDisconnect?.();
+  }
+
+  /** Keep the thread alive only while transactions wait to start */
+  private _updateRef(): void {
+    if (this._pendingStarts.size > 0) {
+      this._port.ref();
+    } else {
+      this._port.unref();
+    }
+  }
+}
+
+/** A snapshot open in the owning thread */
+interface RemoteSnapshot extends Pick<StorageBackend, BackendMethod> {}
+
+class RemoteSnapshot implements StorageSnapshot {
+  _backend: RemoteBackend;
+  _id: number;
+
+  constructor(backend: RemoteBackend, id: number) {
+    this._backend = backend;
+    this._id = id;
+  }
+
+  release(): void {
+    this._backend._call(this._id, 'release', []);
+  }
+}
+
+for (const method of BACKEND_METHODS) {
+  (RemoteBackend.prototype as any)[method] = function (this: RemoteBackend, ...args: any[]) {
+    return this._call('backend', method, args);
+  };
+  (RemoteSnapshot.prototype as any)[method] = function (this: RemoteSnapshot, ...args: any[]) {
+    return this._backend._call(this._id, method, args);
+  };
+}
+
+/**
+ * Client end of the owner-side coordinator; waiters are polled locally.
+ * Once closed (the owner drops the client's rows on disconnect), calls that
+ * only clean up are no-ops.
+ */
+class RemoteCoordinator implements ConnectionCoordinator {
+  private _backend: RemoteBackend;
+  private _connections: Map<string, (newVersion: number | null) => void> = new Map();
+  private _waiters: Array<() => boolean> = [];
+  private _timer: ReturnType<typeof setInterval> | null = null;
+  private _closed: boolean = false;
+
+  constructor(backend: RemoteBackend) {
+    this._backend = backend;
+  }
+
+  tryAcquire(name: string): boolean {
+    return this._backend._call('coordinator', 'tryAcquire', [name]);
+  }
+
+  release(name: string): void {
+    if (this._closed) return;
+    this._backend._call('coordinator', 'release', [name]);
+  }
+
+  addConnection(name: string, onVersionChange: (newVersion: number | null) => void): string {
+    const id: string = this._backend._call('coordinator', 'addConnection', [name]);
+    this._connections.set(id, onVersionChange);
+    return id;
+  }
+
+  removeConnection(id: string): void {
+    this._connections.delete(id);
+    if (this._closed) return;
+    this._backend._call('coordinator', 'removeConnection', [id]);
+  }
+
+  requestVersionChange(name: string, newVersion: number | null): void {
+    this._backend._call('coordinator', 'requestVersionChange', [name, newVersion]);
+  }
+
+  hasOtherConnections(name: string): boolean {
+    return this._backend._call('coordinator', 'hasOtherConnections', [name]);
+  }
+
+  markChanged(name: string): void {
+    this._backend._call('coordinator', 'markChanged', [name]);
+  }
+
+  changeCount(name: string): number {
+    return this._backend._call('coordinator', 'changeCount', [name]);
+  }
+
+  waitUntil(check: () => boolean): void {
+    this._waiters.push(check);
+    if (!this._timer) {
+      this._timer = setInterval(() => this._poll(), WAIT_POLL_MS);
+    }
+  }
+
+  close(): void {
+    this._closed = true;
+    this._waiters = [];
+    this._connections.clear();
+    if (this._timer) {
+      clearInterval(this._timer);
+      this._timer = null;
+    }
+  }
+
+  _versionChange(id: string, newVersion: number | null): void {
+    this._connections.get(id)?.(newVersion);
+  }
+
+  private _poll(): void {
+    const waiters = this._waiters;
+    this._waiters = [];
+    for (const check of waiters) {
+      if (!check()) this._waiters.push(check);
+    }
+    if (this._waiters.length === 0 && this._timer) {
+      clearInterval(this._timer);
+      this._timer = null;
+    }
+  }
+}
+
+/** Queues transactions in the owner's scheduler for one database name */
+class RemoteScheduler implements TransactionScheduler {
+  private _backend: RemoteBackend;
+  private _name: string;
+  private _ids: Map<any, number> = new Map();
+
+  constructor(backend: RemoteBackend, name: string) {
+    this._backend = backend;
+    this._name = name;
+  }
+
+  addTransaction(transaction: any, scope: string[], mode: IDBTransactionMode, onStart: () => void): void {
+    this._ids.set(transaction, this._backend._schedule(this._name, scope, mode, onStart));
+  }
+
+  transactionFinished(transaction: any): void {
+    const id = this._ids.get(transaction);
+    if (id === undefined) return;
+    this._ids.delete(transaction);
+    this._backend._finished(id);
+  }
+
+  snapshotOpened(transaction: any): void {
+    const id = this._ids.get(transaction);
+    if (id !== undefined) this._backend._snapshotOpened(id);
+  }
+}
+
+/** Iterators (iterateRecords) can't be posted: the client gets every item at once */
+function toPostable(result: any): any {
+  if (result !== null && typeof result === 'object' && typeof result.next === 'function' &&
+      typeof result[Symbol.iterator] === 'function') {
+    return Array.from(result);
+  }
+  return result;
+}
+
+/** Turn the Uint8Arrays a message arrives with back into Buffers */
+function toBuffers(value: any): any {
+  if (value instanceof Uint8Array) {
+    return Buffer.isBuffer(value) ? value : Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+  }
+  if (Array.isArray(value)) return value.map(toBuffers);
+  if (value !== null && typeof value === 'object') {
+    const out: any = {};
+    for (const key of Object.keys(value)) {
+      out[key] = toBuffers(value[key]);
+    }
+    return out;
+  }
+  return value;
+}
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { IDBFactory } from '../../src/index.ts';
+import { createFactory, openDatabase, requestResult, tempDir, transactionDone } from './helpers.ts';
+
+async function write(factory: IDBFactory, values: string[]): Promise<void> {
+  const db = await openDatabase(factory, 'db', 2, (upgradeDb) => {
+    if (!upgradeDb.objectStoreNames.contains('items')) upgradeDb.createObjectStore('items');
+  });
+  const tx = db.transaction('items', 'readwrite');
+  tx.objectStore('items').clear();
+  values.forEach((value, i) => tx.objectStore('items').put(value, i));
+  await transactionDone(tx);
+  db.close();
+}
+
+async function read(factory: IDBFactory, name: string): Promise<{ version: number; items: string[] }> {
+  const db = await openDatabase(factory, name);
+  const items = await requestResult(db.transaction('items').objectStore('items').getAll());
+  db.close();
+  return { version: db.version, items };
+}
+
+test('restore brings back what was committed when the backup was taken', async (t) => {
+  const factory = createFactory(t, { storagePath: tempDir(t) });
+  const backupPath = join(tempDir(t), 'db.backup');
+  await write(factory, ['a', 'b']);
+  const progress: number[] = [];
+  await factory.backup('db', backupPath, { onProgress: (p) => progress.push(p.remainingPages) });
+  assert.equal(progress.at(-1), 0);
+  await write(factory, ['changed']);
+
+  await factory.restore('db', backupPath);
+  assert.deepEqual(await read(factory, 'db'), { version: 2, items: ['a', 'b'] });
+  await factory.restore('copy', backupPath);
+  assert.deepEqual(await read(factory, 'copy'), { version: 2, items: ['a', 'b'] });
+});
+
+test('restore waits for open connections to close after versionchange', async (t) => {
+  const factory = createFactory(t, { storagePath: tempDir(t) });
+  const backupPath = join(tempDir(t), 'db.backup');
+  await write(factory, ['a']);
+  await factory.backup('db', backupPath);
+  const db = await openDatabase(factory, 'db');
+  const order: string[] = [];
+  db.onversionchange = () => order.push('versionchange');
+
+  const restored = factory.restore('db', backupPath, {
+    onBlocked: () => {
+      order.push('blocked');
+      db.close();
+    },
+  });
+  await restored;
+  assert.deepEqual(order, ['versionchange', 'blocked']);
+});
+
+test('a backup that is missing or not one is rejected with NotFoundError or DataError', async (t) => {
+  const factory = createFactory(t, { storagePath: tempDir(t) });
+  const dir = tempDir(t);
+  await assert.rejects(factory.restore('db', join(dir, 'missing')), { name: 'NotFoundError' });
+  writeFileSync(join(dir, 'text'), 'not a database');
+  await assert.rejects(factory.restore('db', join(dir, 'text')), { name: 'DataError' });
+  mkdirSync(join(dir, 'directory'));
+  await assert.rejects(factory.restore('db', join(dir, 'directory')), { name: 'DataError' });
+  assert.deepEqual(await factory.databases(), []);
+});
+
+test('backing up a database that does not exist is rejected with NotFoundError', async (t) => {
+  const factory = createFactory(t, { storagePath: tempDir(t) });
+  await assert.rejects(factory.backup('db', join(tempDir(t), 'db.backup')), { name: 'NotFoundError' });
+});
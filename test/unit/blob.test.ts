@@ -0,0 +1,116 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { openAsBlob, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { deserialize, readBlobs, serialize } from '../../src/structured-clone.ts';
+import { createFactory, openDatabase, requestResult, tempDir, transactionDone, transactionOutcome } from './helpers.ts';
+
+async function setup(t: Parameters<typeof tempDir>[0]) {
+  const factory = createFactory(t);
+  const db = await openDatabase(factory, 'db', 1, (upgradeDb) => {
+    upgradeDb.createObjectStore('files');
+    upgradeDb.createObjectStore('auto', { keyPath: 'id', autoIncrement: true }).createIndex('type', 'blob.type');
+  });
+  t.after(() => db.close());
+  return db;
+}
+
+test('Blobs and Files are stored with their bytes and metadata', async (t) => {
+  const db = await setup(t);
+  const file = new File(['file contents'], 'notes.txt', { type: 'text/plain', lastModified: 1234 });
+  const tx = db.transaction('files', 'readwrite');
+  const store = tx.objectStore('files');
+  store.put({ blob: new Blob([new Uint8Array([1, 2, 3])], { type: 'application/x-test' }), file }, 1);
+  store.put(new Blob([]), 2);
+  const [record, empty] = await Promise.all([requestResult(store.get(1)), requestResult(store.get(2))]);
+  await transactionDone(tx);
+
+  assert.ok(record.blob instanceof Blob);
+  assert.equal(record.blob.type, 'application/x-test');
+  assert.deepEqual(new Uint8Array(await record.blob.arrayBuffer()), new Uint8Array([1, 2, 3]));
+  assert.ok(record.file instanceof File);
+  assert.equal(record.file.name, 'notes.txt');
+  assert.equal(record.file.lastModified, 1234);
+  assert.equal(await record.file.text(), 'file contents');
+  assert.equal(empty.size, 0);
+});
+
+test('requests after a Blob put wait for it, and run in order', async (t) => {
+  const db = await setup(t);
+  const tx = db.transaction(['files', 'auto'], 'readwrite');
+  const files = tx.objectStore('files');
+  const order: string[] = [];
+  files.put('before', 1).onsuccess = () => order.push('put 1');
+  files.put(new Blob(['x']), 1).onsuccess = () => order.push('put blob 1');
+  const get = files.get(1);
+  get.onsuccess = () => order.push('get 1');
+  const key = requestResult(tx.objectStore('auto').add({ blob: new Blob(['y'], { type: 'text/y' }) }));
+  await transactionDone(tx);
+
+  assert.deepEqual(order, ['put 1', 'put blob 1', 'get 1']);
+  assert.equal(await get.result.text(), 'x');
+  assert.equal(await key, 1);
+  const read = db.transaction('auto');
+  const stored = await requestResult(read.objectStore('auto').index('type').get('text/y'));
+  assert.equal(stored.id, 1);
+  assert.equal(await stored.blob.text(), 'y');
+});
+
+test('a Blob that cannot be read fails its request', async (t) => {
+  const db = await setup(t);
+  const path = join(tempDir(t), 'data');
+  writeFileSync(path, 'original');
+  const blob = await openAsBlob(path);
+  // A file's Blob can't be read once the file has changed
+  writeFileSync(path, 'changed contents');
+
+  const tx = db.transaction('files', 'readwrite');
+  const outcome = transactionOutcome(tx);
+  const request = tx.objectStore('files').put(blob, 1);
+  await assert.rejects(requestResult(request), { name: 'NotReadableError' });
+  assert.equal(await outcome, 'abort');
+});
+
+test('abort drops writes still waiting for their Blobs', async (t) => {
+  const db = await setup(t);
+  const tx = db.transaction('files', 'readwrite');
+  const request = tx.objectStore('files').put(new Blob(['x']), 1);
+  tx.abort();
+  await assert.rejects(requestResult(request), { name: 'AbortError' });
+
+  const read = db.transaction('files');
+  assert.equal(await requestResult(read.objectStore('files').count()), 0);
+});
+
+test('an object tagged as something else is cloned as a plain one, Blobs and all', async (t) => {
+  const db = await setup(t);
+  let reads = 0;
+  class Tagged {
+    blob = new Blob(['inner'], { type: 'text/inner' });
+    get [Symbol.toStringTag]() {
+      return 'Tagged';
+    }
+  }
+  const value = Object.defineProperty(new Tagged(), 'counted', {
+    get: () => ++reads,
+    enumerable: true,
+  });
+  const tx = db.transaction('files', 'readwrite');
+  tx.objectStore('files').put(value, 1);
+  await transactionDone(tx);
+
+  const stored = await requestResult(db.transaction('files').objectStore('files').get(1));
+  assert.equal(Object.getPrototypeOf(stored), Object.prototype);
+  assert.equal(await stored.blob.text(), 'inner');
+  assert.equal(stored.blob.type, 'text/inner');
+  assert.equal(stored.counted, 1);
+  assert.equal(reads, 1);
+});
+
+test('serializing a Blob whose bytes were not read throws DataCloneError', async () => {
+  const blob = new Blob(['x']);
+  assert.throws(() => serialize({ blob }), { name: 'DataCloneError' });
+  assert.throws(() => serialize([blob], new Map()), { name: 'DataCloneError' });
+  const bytes = await readBlobs([blob]);
+  assert.equal(await deserialize(serialize({ blob }, bytes)).blob.text(), 'x');
+});
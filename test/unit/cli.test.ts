@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import { join } from 'node:path';
+import Database from 'better-sqlite3';
+import { createFactory, openDatabase, tempDir, transactionDone } from './helpers.ts';
+
+const CLI = join(import.meta.dirname, '../../src/cli.ts');
+
+async function createStorage(t: Parameters<typeof tempDir>[0]): Promise<string> {
+  const storagePath = tempDir(t);
+  const factory = createFactory(t, { storagePath });
+  const db = await openDatabase(factory, 'app', 3, (upgradeDb) => {
+    const people = upgradeDb.createObjectStore('people', { keyPath: 'id', autoIncrement: true });
+    people.createIndex('name', 'name', { unique: true });
+    people.createIndex('tags', 'tags', { multiEntry: true });
+    upgradeDb.createObjectStore('settings');
+  });
+  const tx = db.transaction(['people', 'settings'], 'readwrite');
+  tx.objectStore('people').put({ name: 'ann', tags: ['a', 'b'] });
+  tx.objectStore('people').put({ name: 'bob', tags: ['b'] });
+  tx.objectStore('people').put({ name: 'cy', tags: [] });
+  tx.objectStore('settings').put(new Map([['theme', 'dark']]), ['ui', 1]);
+  await transactionDone(tx);
+  db.close();
+  return storagePath;
+}
+
+function run(...args: string[]): { status: number | null; stdout: string; stderr: string } {
+  const result = spawnSync(process.execPath, ['--experimental-strip-types', '--no-warnings', CLI, ...args], {
+    encoding: 'utf8',
+    timeout: 60_000,
+  });
+  return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+test('list and stores describe the databases and their schema', async (t) => {
+  const storagePath = await createStorage(t);
+  assert.deepEqual(run(storagePath, 'list'), { status: 0, stdout: "'app'\tversion 3\n", stderr: '' });
+  assert.equal(run(storagePath, 'stores', 'app').stdout, [
+    "'people'\tkeyPath 'id', autoIncrement (current key 3), 3 records",
+    "  index 'name'\tkeyPath 'name', unique",
+    "  index 'tags'\tkeyPath 'tags', multiEntry",
+    "'settings'\tkeyPath null, 1 records",
+    '',
+  ].join('\n'));
+});
+
+test('count and dump read records and index entries within a range', async (t) => {
+  const storagePath = await createStorage(t);
+  assert.equal(run(storagePath, 'count', 'app', 'people').stdout, '3\n');
+  assert.equal(run(storagePath, 'count', 'app', 'people', '--index', 'tags', '"b"').stdout, '2\n');
+  assert.equal(
+    run(storagePath, 'dump', 'app', 'people', 'lowerBound(2)', '--reverse', '--limit', '1').stdout,
+    "3\t{ name: 'cy', tags: [], id: 3 }\n"
+  );
+  assert.equal(
+    run(storagePath, 'dump', 'app', 'people', '--index', 'tags', 'bound("a", "b", false, true)').stdout,
+    "'a'\t1\t{ name: 'ann', tags: [ 'a', 'b' ], id: 1 }\n"
+  );
+  assert.equal(run(storagePath, 'dump', 'app', 'settings').stdout, "[ 'ui', 1 ]\tMap(1) { 'theme' => 'dark' }\n");
+});
+
+test('check reports index problems with exit code 1, and --repair fixes them', async (t) => {
+  const storagePath = await createStorage(t);
+  assert.deepEqual(run(storagePath, 'check', 'app'), { status: 0, stdout: 'ok\n', stderr: '' });
+  const meta = new Database(join(storagePath, '_metadata.sqlite'), { readonly: true });
+  const dbFile = (meta.prepare("SELECT file FROM databases WHERE name = 'app'").get() as { file: string }).file;
+  meta.close();
+  const storage = new Database(join(storagePath, dbFile));
+  storage.exec("DELETE FROM index_entries WHERE index_id = (SELECT id FROM indexes WHERE name = 'tags')");
+  storage.close();
+
+  const report = run(storagePath, 'check', 'app');
+  assert.equal(report.status, 1);
+  assert.match(report.stdout, /^missing-entry\t'people' index 'tags'\tkey 'a'\tprimary key 1$/m);
+  assert.match(report.stdout, /problems found\n$/);
+  const repaired = run(storagePath, 'check', 'app', '--repair');
+  assert.equal(repaired.status, 0);
+  assert.match(repaired.stdout, /^rebuilt\t'people' index 'tags'\nok\n$/m);
+  assert.deepEqual(run(storagePath, 'check', 'app'), { status: 0, stdout: 'ok\n', stderr: '' });
+});
+
+test('bad arguments print usage with exit code 2; missing data exits with 1', async (t) => {
+  const storagePath = await createStorage(t);
+  const unknown = run(storagePath, 'frobnicate');
+  assert.equal(unknown.status, 2);
+  assert.match(unknown.stderr, /^idb-sqlite: Unknown command: frobnicate\n\nUsage:/);
+  const badRange = run(storagePath, 'count', 'app', 'people', 'bound(1');
+  assert.equal(badRange.status, 2);
+  const missing = run(storagePath, 'stores', 'nope');
+  assert.deepEqual(missing, { status: 1, stdout: '', stderr: "idb-sqlite: No database named 'nope'.\n" });
+});
@@ -0,0 +1,96 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readdirSync, unlinkSync } from 'node:fs';
+import { join } from 'node:path';
+import { IDBFactory } from '../../src/index.ts';
+import type { IDBDatabase } from '../../src/index.ts';
+import { createFactory, openDatabase, requestResult, tempDir, transactionDone, transactionOutcome } from './helpers.ts';
+
+function setup(factory: IDBFactory, name: string = 'db'): Promise<IDBDatabase> {
+  return openDatabase(factory, name, 1, (upgradeDb) => upgradeDb.createObjectStore('s'));
+}
+
+function closed(db: IDBDatabase): Promise<void> {
+  return new Promise((resolve) => db.addEventListener('close', () => resolve()));
+}
+
+test('close() aborts transactions, fires close at connections and fails pending opens', async (t) => {
+  const storagePath = tempDir(t);
+  const factory = new IDBFactory({ storagePath });
+  const db = await setup(factory);
+  const tx = db.transaction('s', 'readwrite');
+  tx.objectStore('s').put('value', 1);
+  const outcome = transactionOutcome(tx);
+  const closeEvent = closed(db);
+  // Queued behind an upgrade that waits for db to close
+  const upgrade = requestResult(factory.open('db', 2));
+  const pending = requestResult(factory.open('db'));
+
+  const done = factory.close();
+  assert.equal(factory.close(), done);
+  await assert.rejects(upgrade, { name: 'AbortError' });
+  await assert.rejects(pending, { name: 'AbortError' });
+  assert.equal(await outcome, 'abort');
+  await closeEvent;
+  await done;
+  assert.throws(() => factory.open('db'), { name: 'InvalidStateError' });
+  await assert.rejects(factory.databases(), { name: 'InvalidStateError' });
+
+  // The aborted write is not there once reopened
+  const reopened = await openDatabase(createFactory(t, { storagePath }), 'db');
+  assert.equal(reopened.version, 1);
+  assert.equal(await requestResult(reopened.transaction('s').objectStore('s').count()), 0);
+  reopened.close();
+});
+
+test('a factory is async-disposable', async (t) => {
+  const storagePath = tempDir(t);
+  const factory = new IDBFactory({ storagePath });
+  (await setup(factory)).close();
+  await factory[Symbol.asyncDispose]();
+  assert.throws(() => factory.open('db'), { name: 'InvalidStateError' });
+  // Files are released: the storage opens afresh
+  const reopened = createFactory(t, { storagePath });
+  assert.deepEqual(await reopened.databases(), [{ name: 'db', version: 1 }]);
+});
+
+test('forceCloseDatabase() closes only that database\'s connections, and keeps its data', async (t) => {
+  const factory = createFactory(t);
+  const db = await setup(factory);
+  const other = await setup(factory, 'other');
+  t.after(() => other.close());
+  const write = db.transaction('s', 'readwrite');
+  write.objectStore('s').put('value', 1);
+  await transactionDone(write);
+  const tx = db.transaction('s');
+  tx.objectStore('s').get(1);
+  const closeEvent = closed(db);
+
+  const txDone = transactionDone(tx);
+  factory.forceCloseDatabase('db');
+  await assert.rejects(txDone, { name: 'AbortError' });
+  await closeEvent;
+  assert.throws(() => db.transaction('s'), { name: 'InvalidStateError' });
+  assert.equal(await requestResult(other.transaction('s').objectStore('s').count()), 0);
+
+  const reopened = await openDatabase(factory, 'db');
+  assert.equal(await requestResult(reopened.transaction('s').objectStore('s').get(1)), 'value');
+  reopened.close();
+});
+
+test('a database whose file is deleted underneath is closed, with UnknownError', async (t) => {
+  const storagePath = tempDir(t);
+  const factory = createFactory(t, { storagePath });
+  const db = await setup(factory);
+  const second = await openDatabase(factory, 'db');
+  const closeEvents = Promise.all([closed(db), closed(second)]);
+  for (const file of readdirSync(storagePath)) {
+    if (file.startsWith('idb_')) unlinkSync(join(storagePath, file));
+  }
+
+  const tx = db.transaction('s', 'readwrite');
+  const request = tx.objectStore('s').put('value', 1);
+  await assert.rejects(transactionDone(tx), { name: 'UnknownError' });
+  await closeEvents;
+  assert.equal(request.error?.name, 'UnknownError');
+});
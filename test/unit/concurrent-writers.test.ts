@@ -0,0 +1,167 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SQLiteBackend } from '../../src/index.ts';
+import type { IDBDatabase, IDBTransaction } from '../../src/index.ts';
+import { createFactory, hold, openDatabase, requestResult, tempDir, transactionDone, transactionOutcome } from './helpers.ts';
+
+// Readwrite transactions with disjoint scopes share one SQLite transaction;
+// each must still commit or abort on its own.
+
+async function setup(t: Parameters<typeof tempDir>[0], inMemory: boolean = false) {
+  const backend = new SQLiteBackend(inMemory ? ':memory:' : tempDir(t));
+  const factory = createFactory(t, { backend });
+  const db = await openDatabase(factory, 'db', 1, (upgradeDb) => {
+    upgradeDb.createObjectStore('a', { autoIncrement: true }).createIndex('v', 'v', { unique: true });
+    upgradeDb.createObjectStore('b');
+  });
+  t.after(() => db.close());
+  const tx = db.transaction(['a', 'b'], 'readwrite');
+  tx.objectStore('a').add({ v: 1 });
+  tx.objectStore('a').add({ v: 2 });
+  tx.objectStore('b').put('x', 1);
+  await transactionDone(tx);
+  return { backend, db };
+}
+
+/** Writes to 'a', begun alone; `range` clears the store instead of deleting one key */
+function writeA(db: IDBDatabase, range: boolean): IDBTransaction {
+  const tx = db.transaction('a', 'readwrite');
+  const store = tx.objectStore('a');
+  if (range) {
+    store.clear();
+    store.add({ v: 5 });
+  } else {
+    store.add({ v: 10 });
+    store.put({ v: 20 }, 1);
+    store.delete(2);
+  }
+  return tx;
+}
+
+async function contents(db: IDBDatabase) {
+  const tx = db.transaction(['a', 'b']);
+  const a = tx.objectStore('a');
+  return {
+    a: await requestResult(a.getAll()),
+    aKeys: await requestResult(a.getAllKeys()),
+    byV: await requestResult(a.index('v').getAllKeys()),
+    b: await requestResult(tx.objectStore('b').getAll()),
+  };
+}
+
+async function nextKey(db: IDBDatabase): Promise<number> {
+  const tx = db.transaction('a', 'readwrite');
+  const key = await requestResult<number>(tx.objectStore('a').add({ v: 99 }));
+  tx.abort();
+  return key;
+}
+
+const unchangedA = { a: [{ v: 1 }, { v: 2 }], aKeys: [1, 2], byV: [1, 2] };
+
+for (const [range, inMemory] of [[false, false], [true, false], [false, true], [true, true]]) {
+  const kind = `${range ? 'range' : 'point'} writes${inMemory ? ' in memory' : ''}`;
+
+  test(`${kind}: the first writer aborts after a second joined, which commits`, async (t) => {
+    const { db } = await setup(t, inMemory);
+    const txA = writeA(db, range);
+    const txB = db.transaction('b', 'readwrite');
+    const outcomes = Promise.all([transactionOutcome(txA), transactionOutcome(txB)]);
+    const joined = requestResult(txB.objectStore('b').put('y', 2));
+    hold(txA, joined, (tx) => tx.abort());
+    assert.deepEqual(await outcomes, ['abort', 'complete']);
+
+    assert.deepEqual(await contents(db), { ...unchangedA, b: ['x', 'y'] });
+    assert.equal(await nextKey(db), 3);
+  });
+
+  test(`${kind}: the second writer commits first, then the first aborts`, async (t) => {
+    const { db } = await setup(t, inMemory);
+    const txA = writeA(db, range);
+    const txB = db.transaction('b', 'readwrite');
+    const aOutcome = transactionOutcome(txA);
+    txB.objectStore('b').put('y', 2);
+    const bDone = transactionDone(txB);
+    hold(txA, bDone, (tx) => tx.abort());
+    await bDone;
+    assert.equal(await aOutcome, 'abort');
+
+    assert.deepEqual(await contents(db), { ...unchangedA, b: ['x', 'y'] });
+  });
+
+  test(`${kind}: both commit, in either order`, async (t) => {
+    const { db } = await setup(t, inMemory);
+    const txA = writeA(db, range);
+    const txB = db.transaction('b', 'readwrite');
+    const aDone = transactionDone(txA);
+    txB.objectStore('b').put('y', 2);
+    const bDone = transactionDone(txB);
+    hold(txA, bDone);
+    await Promise.all([aDone, bDone]);
+
+    const expectedA = range
+      ? { a: [{ v: 5 }], aKeys: [3], byV: [3] }
+      : { a: [{ v: 20 }, { v: 10 }], aKeys: [1, 3], byV: [3, 1] };
+    assert.deepEqual(await contents(db), { ...expectedA, b: ['x', 'y'] });
+    assert.equal(await nextKey(db), 4);
+  });
+
+  test(`${kind}: the first commits while the second aborts`, async (t) => {
+    const { db } = await setup(t, inMemory);
+    const txA = writeA(db, range);
+    const txB = db.transaction('b', 'readwrite');
+    const outcomes = Promise.all([transactionOutcome(txA), transactionOutcome(txB)]);
+    const aDone = transactionDone(txA);
+    const joined = requestResult(txB.objectStore('b').put('y', 2));
+    hold(txB, joined.then(() => aDone), (tx) => tx.abort());
+    assert.deepEqual(await outcomes, ['complete', 'abort']);
+
+    const { b } = await contents(db);
+    assert.deepEqual(b, ['x']);
+  });
+}
+
+test('a writer running alone logs nothing; logging starts when another joins', async (t) => {
+  const { backend, db } = await setup(t);
+  const loggedRows = (): number =>
+    (backend.getDatabase('db').prepare('SELECT COUNT(*) AS n FROM temp.undo_log').get() as { n: number }).n;
+
+  const txA = db.transaction('a', 'readwrite');
+  const aOutcome = transactionOutcome(txA);
+  const rows = await new Promise<number[]>((resolve) => {
+    txA.objectStore('a').put({ v: 30 }, 1).onsuccess = () => {
+      const alone = loggedRows();
+      const txB = db.transaction('b', 'readwrite');
+      const joined = requestResult(txB.objectStore('b').put('y', 2)).then(() => loggedRows());
+      hold(txA, joined, (tx) => tx.abort());
+      joined.then((afterJoin) => transactionDone(txB).then(() => resolve([alone, afterJoin])));
+    };
+  });
+  assert.equal(await aOutcome, 'abort');
+  assert.equal(rows[0], 0);
+  assert.ok(rows[1] > 0);
+
+  assert.deepEqual(await contents(db), { ...unchangedA, b: ['x', 'y'] });
+});
+
+test('a writer left alone after an overlap is set aside again when another joins', async (t) => {
+  const { db } = await setup(t);
+  const txA = writeA(db, false);
+  const aOutcome = transactionOutcome(txA);
+  const txB = db.transaction('b', 'readwrite');
+  txB.objectStore('b').put('y', 2);
+  const bDone = transactionDone(txB);
+  const cDone = new Promise<void>((resolve) => {
+    hold(txA, bDone, (tx) => {
+      tx.objectStore('a').put({ v: 40 }, 2);
+      const txC = db.transaction('b', 'readwrite');
+      txC.objectStore('b').put('z', 3);
+      const done = transactionDone(txC);
+      hold(tx, done, () => tx.abort());
+      done.then(resolve);
+    });
+  });
+  await cDone;
+  assert.equal(await aOutcome, 'abort');
+
+  assert.deepEqual(await contents(db), { ...unchangedA, b: ['x', 'y', 'z'] });
+});
@@ -0,0 +1,141 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import { once } from 'node:events';
+import { createInterface } from 'node:readline';
+import { SQLiteBackend } from '../../src/index.ts';
+import type { IDBVersionChangeEvent } from '../../src/index.ts';
+import { createFactory, openDatabase, requestResult, tempDir, transactionDone, transactionOutcome } from './helpers.ts';
+
+test('versionchange and blocked reach connections of another factory on the storage', async (t) => {
+  const storagePath = tempDir(t);
+  const first = createFactory(t, { storagePath });
+  const second = createFactory(t, { storagePath });
+  const db = await openDatabase(first, 'db', 1);
+  const order: string[] = [];
+  db.onversionchange = (e) => {
+    order.push(`versionchange ${(e as IDBVersionChangeEvent).newVersion}`);
+    setTimeout(() => db.close(), 50);
+  };
+
+  const request = second.open('db', 2);
+  request.onblocked = () => order.push('blocked');
+  request.onupgradeneeded = () => order.push('upgradeneeded');
+  (await requestResult(request)).close();
+  // The other factory learns of it by polling, so blocked may come first
+  assert.deepEqual(order.slice(0, 2).sort(), ['blocked', 'versionchange 2']);
+  assert.equal(order[2], 'upgradeneeded');
+});
+
+test('the storage handle outlives the last connection until another factory changes the database', async (t) => {
+  const storagePath = tempDir(t);
+  const backend = new SQLiteBackend(storagePath);
+  const first = createFactory(t, { backend });
+  const second = createFactory(t, { storagePath });
+  (await openDatabase(first, 'db', 1, (db) => db.createObjectStore('old'))).close();
+  const handle = backend.getDatabase('db');
+
+  (await openDatabase(first, 'db')).close();
+  assert.equal(backend.getDatabase('db'), handle);
+
+  await requestResult(second.deleteDatabase('db'));
+  const db = await openDatabase(first, 'db', 1);
+  assert.deepEqual([...db.objectStoreNames], []);
+  assert.notEqual(backend.getDatabase('db'), handle);
+  db.close();
+});
+
+test('versionchange reaches a connection in another process', async (t) => {
+  const storagePath = tempDir(t);
+  const script = `
+    import { IDBFactory } from 'indexeddb-sqlite';
+    const factory = new IDBFactory({ storagePath: process.env.STORAGE_PATH });
+    // The coordinator's polling doesn't keep the process alive by itself
+    const keepAlive = setInterval(() => {}, 1000);
+    const request = factory.open('db', 1);
+    request.onsuccess = () => {
+      const db = request.result;
+      db.onversionchange = (e) => {
+        console.log('versionchange ' + e.newVersion);
+        db.close();
+        clearInterval(keepAlive);
+        factory.close();
+      };
+      console.log('open');
+    };
+  `;
+  const child = spawn(
+    process.execPath,
+    ['--experimental-strip-types', '--no-warnings', '--input-type=module', '--eval', script],
+    { cwd: import.meta.dirname, env: { ...process.env, STORAGE_PATH: storagePath }, timeout: 60_000 }
+  );
+  const exited = once(child, 'exit');
+  const lines = createInterface({ input: child.stdout })[Symbol.asyncIterator]();
+  assert.equal((await lines.next()).value, 'open');
+
+  const factory = createFactory(t, { storagePath });
+  const db = await openDatabase(factory, 'db', 2);
+  assert.equal((await lines.next()).value, 'versionchange 2');
+  assert.equal(db.version, 2);
+  db.close();
+  assert.deepEqual(await exited, [0, null]);
+});
+
+test('a write while another process holds the write lock aborts with UnknownError, without a long wait', async (t) => {
+  const storagePath = tempDir(t);
+  const factory = createFactory(t, { storagePath });
+  const db = await openDatabase(factory, 'db', 1, (upgradeDb) => upgradeDb.createObjectStore('s'));
+  t.after(() => db.close());
+  const script = `
+    import { createInterface } from 'node:readline';
+    import { IDBFactory } from 'indexeddb-sqlite';
+    const factory = new IDBFactory({ storagePath: process.env.STORAGE_PATH });
+    let released = false;
+    createInterface({ input: process.stdin }).once('line', () => { released = true; });
+    const request = factory.open('db', 1);
+    request.onsuccess = () => {
+      const db = request.result;
+      const tx = db.transaction('s', 'readwrite');
+      const store = tx.objectStore('s');
+      store.put('child', 1).onsuccess = () => console.log('locked');
+      // Keep the transaction, and with it the write lock, until told to let go
+      const spin = () => {
+        if (released) return;
+        store.count().onsuccess = spin;
+      };
+      spin();
+      tx.oncomplete = () => {
+        console.log('committed');
+        db.close();
+        factory.close();
+        process.stdin.destroy();
+      };
+    };
+  `;
+  const child = spawn(
+    process.execPath,
+    ['--experimental-strip-types', '--no-warnings', '--input-type=module', '--eval', script],
+    { cwd: import.meta.dirname, env: { ...process.env, STORAGE_PATH: storagePath }, timeout: 60_000 }
+  );
+  const exited = once(child, 'exit');
+  const lines = createInterface({ input: child.stdout })[Symbol.asyncIterator]();
+  assert.equal((await lines.next()).value, 'locked');
+
+  const started = Date.now();
+  const tx = db.transaction('s', 'readwrite');
+  const outcome = transactionOutcome(tx);
+  const request = tx.objectStore('s').put('parent', 2);
+  await assert.rejects(requestResult(request), { name: 'UnknownError' });
+  assert.equal(await outcome, 'abort');
+  assert.equal(tx.error?.name, 'UnknownError');
+  assert.ok(Date.now() - started < 2000);
+
+  child.stdin.write('release\n');
+  assert.equal((await lines.next()).value, 'committed');
+  assert.deepEqual(await exited, [0, null]);
+  const retry = db.transaction('s', 'readwrite');
+  retry.objectStore('s').put('parent', 2);
+  await transactionDone(retry);
+  const read = db.transaction('s').objectStore('s');
+  assert.deepEqual(await requestResult(read.getAll()), ['child', 'parent']);
+});
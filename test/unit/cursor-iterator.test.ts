@@ -0,0 +1,134 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { IDBKeyRange } from '../../src/index.ts';
+import type { IDBDatabase } from '../../src/index.ts';
+import { createFactory, hold, openDatabase, tick, transactionDone, transactionOutcome } from './helpers.ts';
+
+async function setup(t: Parameters<typeof createFactory>[0], count: number): Promise<IDBDatabase> {
+  const db = await openDatabase(createFactory(t), 'db', 1, (upgradeDb) => {
+    const store = upgradeDb.createObjectStore('s');
+    store.createIndex('byParity', 'parity');
+    for (let i = 0; i < count; i++) store.put({ i, parity: i % 2 }, i);
+  });
+  t.after(() => db.close());
+  return db;
+}
+
+/** Wait long enough for the cursor to fill its read-ahead: it steps once per task */
+async function stall(): Promise<void> {
+  for (let i = 0; i < 200; i++) await tick();
+}
+
+test('iterates a range in order, then ends', async (t) => {
+  const db = await setup(t, 300);
+  const tx = db.transaction('s');
+  const keys: unknown[] = [];
+  for await (const record of tx.objectStore('s').iterate(IDBKeyRange.bound(10, 250))) {
+    keys.push(record.key);
+  }
+  assert.deepEqual(keys, Array.from({ length: 241 }, (_, i) => i + 10));
+  await transactionDone(tx);
+});
+
+test('iterates an index in the given direction', async (t) => {
+  const db = await setup(t, 10);
+  const tx = db.transaction('s');
+  const seen: Array<[unknown, unknown]> = [];
+  for await (const record of tx.objectStore('s').index('byParity').iterate(1, { direction: 'prev' })) {
+    seen.push([record.key, record.primaryKey]);
+  }
+  assert.deepEqual(seen, [[1, 9], [1, 7], [1, 5], [1, 3], [1, 1]]);
+});
+
+test('breaking out stops the cursor', async (t) => {
+  const db = await setup(t, 300);
+  const tx = db.transaction('s');
+  let n = 0;
+  for await (const _ of tx.objectStore('s').iterate()) {
+    if (++n === 5) break;
+  }
+  assert.equal(n, 5);
+  assert.equal(await transactionOutcome(tx), 'complete');
+});
+
+test('a loop body that awaits gets every record, past the read-ahead', async (t) => {
+  const db = await setup(t, 300);
+  const tx = db.transaction('s');
+  let n = 0;
+  for await (const _ of tx.objectStore('s').iterate()) {
+    await tick();
+    n++;
+  }
+  assert.equal(n, 300);
+  assert.equal(await transactionOutcome(tx), 'complete');
+});
+
+test('the transaction stays open while the loop body is held up', async (t) => {
+  const db = await setup(t, 300);
+  const tx = db.transaction('s');
+  let finished = false;
+  const outcome = transactionOutcome(tx).finally(() => {
+    finished = true;
+  });
+  let n = 0;
+  for await (const _ of tx.objectStore('s').iterate()) {
+    if (n === 0) {
+      await stall();
+      assert.equal(finished, false);
+    }
+    n++;
+  }
+  assert.equal(n, 300);
+  assert.equal(await outcome, 'complete');
+});
+
+test('breaking out while the read-ahead is full lets the transaction commit', async (t) => {
+  const db = await setup(t, 300);
+  const tx = db.transaction('s');
+  for await (const _ of tx.objectStore('s').iterate()) {
+    await stall();
+    break;
+  }
+  assert.equal(await transactionOutcome(tx), 'complete');
+});
+
+test('an iterator dropped with a full read-ahead lets the transaction commit', async (t) => {
+  const db = await setup(t, 300);
+  const tx = db.transaction('s');
+  const iterator = tx.objectStore('s').iterate();
+  assert.equal((await iterator.next()).value.key, 0);
+  assert.equal(await transactionOutcome(tx), 'complete');
+});
+
+test('a loop body that stalls past the hold gets TransactionInactiveError', async (t) => {
+  const db = await setup(t, 300);
+  const tx = db.transaction('s');
+  let release!: () => void;
+  hold(tx, new Promise<void>((resolve) => {
+    release = resolve;
+  }));
+  let n = 0;
+  await assert.rejects(async () => {
+    for await (const _ of tx.objectStore('s').iterate()) {
+      if (n++ === 0) {
+        await stall();
+        await tick(1100);
+      }
+    }
+  }, { name: 'TransactionInactiveError' });
+  assert.equal(n, 101);
+  release();
+  assert.equal(await transactionOutcome(tx), 'complete');
+});
+
+test('aborting the transaction mid-loop ends it with AbortError', async (t) => {
+  const db = await setup(t, 300);
+  const tx = db.transaction('s');
+  let n = 0;
+  await assert.rejects(async () => {
+    for await (const _ of tx.objectStore('s').iterate()) {
+      if (++n === 1) tx.abort();
+    }
+  }, { name: 'AbortError' });
+  assert.ok(n < 300, `read ${n} records`);
+});
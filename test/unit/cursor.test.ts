@@ -0,0 +1,104 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { IDBKeyRange } from '../../src/index.ts';
+import type { IDBCursorWithValue, IDBDatabase, IDBRequest } from '../../src/index.ts';
+import { createFactory, openDatabase, transactionDone } from './helpers.ts';
+
+async function setup(t: Parameters<typeof createFactory>[0]): Promise<IDBDatabase> {
+  const db = await openDatabase(createFactory(t), 'db', 1, (upgradeDb) => {
+    const store = upgradeDb.createObjectStore('s');
+    store.createIndex('byGroup', 'group');
+    for (let i = 0; i < 10; i++) store.put({ i, group: Math.floor(i / 3) }, i);
+  });
+  t.after(() => db.close());
+  return db;
+}
+
+/**
+ * Run a cursor to the end. `step` moves it on (continue() by default) and
+ * may write meanwhile; the results are what each step saw.
+ */
+function walk<T>(
+  request: IDBRequest,
+  see: (cursor: IDBCursorWithValue) => T,
+  step: (cursor: IDBCursorWithValue) => void = (cursor) => cursor.continue()
+): Promise<T[]> {
+  const seen: T[] = [];
+  return new Promise((resolve, reject) => {
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result as IDBCursorWithValue | null;
+      if (!cursor) {
+        resolve(seen);
+        return;
+      }
+      seen.push(see(cursor));
+      step(cursor);
+    };
+  });
+}
+
+test('a cursor sees records written ahead of it, and not those deleted ahead of it', async (t) => {
+  const db = await setup(t);
+  const tx = db.transaction('s', 'readwrite');
+  const store = tx.objectStore('s');
+  const keys = await walk(store.openCursor(), (cursor) => cursor.key, (cursor) => {
+    if (cursor.key === 2) {
+      store.put({ i: 4.5 }, 4.5);
+      store.delete(6);
+      store.put({ i: -1 }, -1);
+    }
+    cursor.continue();
+  });
+  await transactionDone(tx);
+  assert.deepEqual(keys, [0, 1, 2, 3, 4, 4.5, 5, 7, 8, 9]);
+});
+
+test('continue(key) and advance() jump ahead within the range', async (t) => {
+  const db = await setup(t);
+  const tx = db.transaction('s');
+  const range = IDBKeyRange.bound(1, 8, false, true);
+  const keys = await walk(tx.objectStore('s').openCursor(range), (cursor) => cursor.key, (cursor) => {
+    if (cursor.key === 1) cursor.continue(4.5);
+    else if (cursor.key === 5) cursor.advance(2);
+    else cursor.continue();
+  });
+  assert.deepEqual(keys, [1, 5, 7]);
+
+  const back = await walk(tx.objectStore('s').openCursor(range, 'prev'), (cursor) => cursor.key, (cursor) => {
+    if (cursor.key === 7) cursor.continue(3);
+    else cursor.continue();
+  });
+  assert.deepEqual(back, [7, 3, 2, 1]);
+});
+
+test('index cursors step by index key, then primary key, in every direction', async (t) => {
+  const db = await setup(t);
+  const tx = db.transaction('s');
+  const index = tx.objectStore('s').index('byGroup');
+  const pair = (cursor: IDBCursorWithValue) => [cursor.key, cursor.primaryKey];
+
+  assert.deepEqual(await walk(index.openCursor(IDBKeyRange.bound(1, 2)), pair), [[1, 3], [1, 4], [1, 5], [2, 6], [2, 7], [2, 8]]);
+  assert.deepEqual(await walk(index.openCursor(null, 'nextunique'), pair), [[0, 0], [1, 3], [2, 6], [3, 9]]);
+  assert.deepEqual(await walk(index.openCursor(null, 'prevunique'), pair), [[3, 9], [2, 6], [1, 3], [0, 0]]);
+  assert.deepEqual(await walk(index.openCursor(IDBKeyRange.upperBound(1), 'prev'), pair), [[1, 5], [1, 4], [1, 3], [0, 2], [0, 1], [0, 0]]);
+  const resumed = await walk(index.openCursor(), pair, (cursor) => {
+    if (cursor.primaryKey === 0) cursor.continuePrimaryKey(2, 7);
+    else cursor.continue();
+  });
+  assert.deepEqual(resumed, [[0, 0], [2, 7], [2, 8], [3, 9]]);
+});
+
+test('update() and delete() through a cursor change the record it is on', async (t) => {
+  const db = await setup(t);
+  const tx = db.transaction('s', 'readwrite');
+  const store = tx.objectStore('s');
+  await walk(store.index('byGroup').openCursor(1), (cursor) => cursor.primaryKey, (cursor) => {
+    if (cursor.primaryKey === 4) cursor.delete();
+    else cursor.update({ ...cursor.value, group: 10 });
+    cursor.continue();
+  });
+  const groups = await walk(store.openCursor(), (cursor) => cursor.value.group);
+  await transactionDone(tx);
+  assert.deepEqual(groups, [0, 0, 0, 10, 10, 2, 2, 2, 3]);
+});
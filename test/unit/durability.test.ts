@@ -0,0 +1,106 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SQLiteBackend } from '../../src/index.ts';
+import type { IDBDatabase, IDBTransaction } from '../../src/index.ts';
+import type { IDBTransactionDurability } from '../../src/types.ts';
+import { createFactory, openDatabase, tempDir, transactionDone } from './helpers.ts';
+
+/** Record the `synchronous` level (2 = FULL, 1 = NORMAL) each SQLite COMMIT of `name` runs at */
+function recordCommitLevels(backend: SQLiteBackend, name: string): number[] {
+  const db = backend.getDatabase(name);
+  const levels: number[] = [];
+  const exec = db.exec.bind(db);
+  db.exec = (sql: string) => {
+    if (sql === 'COMMIT') levels.push(db.pragma('synchronous', { simple: true }) as number);
+    return exec(sql);
+  };
+  return levels;
+}
+
+/** Keep a readwrite transaction busy (and open) until `until` resolves */
+function keepBusy(transaction: IDBTransaction, store: string, until: Promise<void>): void {
+  let done = false;
+  until.then(() => {
+    done = true;
+  });
+  const spin = (): void => {
+    if (done) return;
+    const request = transaction.objectStore(store).get(0);
+    request.onsuccess = spin;
+  };
+  spin();
+}
+
+async function setup(t: Parameters<typeof tempDir>[0], defaultDurability?: 'strict' | 'relaxed') {
+  const backend = new SQLiteBackend(tempDir(t), defaultDurability);
+  const factory = createFactory(t, { backend });
+  const db = await openDatabase(factory, 'db', 1, (upgradeDb) => {
+    upgradeDb.createObjectStore('a');
+    upgradeDb.createObjectStore('b');
+  });
+  t.after(() => db.close());
+  return { backend, db };
+}
+
+function write(db: IDBDatabase, store: string, durability: IDBTransactionDurability): IDBTransaction {
+  const transaction = db.transaction(store, 'readwrite', { durability });
+  transaction.objectStore(store).put('value', 1);
+  return transaction;
+}
+
+test('a strict writer joining a relaxed one commits with a full sync', async (t) => {
+  const { backend, db } = await setup(t);
+  const relaxed = write(db, 'a', 'relaxed');
+  const strict = write(db, 'b', 'strict');
+  const strictDone = transactionDone(strict);
+  keepBusy(relaxed, 'a', strictDone);
+  const levels = recordCommitLevels(backend, 'db');
+
+  await strictDone;
+  // (Joining may first commit, at the old level, with nothing in it)
+  assert.equal(levels.at(-1), 2);
+  await transactionDone(relaxed);
+});
+
+test('after a strict commit, the relaxed writer left goes back to its own level', async (t) => {
+  const { backend, db } = await setup(t);
+  const relaxed = write(db, 'a', 'relaxed');
+  const strict = write(db, 'b', 'strict');
+  const strictDone = transactionDone(strict);
+  keepBusy(relaxed, 'a', strictDone);
+  const levels = recordCommitLevels(backend, 'db');
+
+  await strictDone;
+  await transactionDone(relaxed);
+  assert.deepEqual(levels.slice(-2), [2, 1]);
+});
+
+test('a strict writer left running keeps the full level after a relaxed one commits', async (t) => {
+  const { backend, db } = await setup(t);
+  const strict = write(db, 'a', 'strict');
+  const relaxed = write(db, 'b', 'relaxed');
+  const relaxedDone = transactionDone(relaxed);
+  keepBusy(strict, 'a', relaxedDone);
+  const levels = recordCommitLevels(backend, 'db');
+
+  await relaxedDone;
+  await transactionDone(strict);
+  assert.deepEqual(levels, [2, 2]);
+});
+
+test("'default' durability follows the factory's defaultDurability", async (t) => {
+  for (const [defaultDurability, level] of [['strict', 2], ['relaxed', 1]] as const) {
+    const { backend, db } = await setup(t, defaultDurability);
+    const levels = recordCommitLevels(backend, 'db');
+    await transactionDone(write(db, 'a', 'default'));
+    assert.deepEqual(levels, [level], defaultDurability);
+  }
+});
+
+test('explicit durability overrides the default', async (t) => {
+  const { backend, db } = await setup(t, 'strict');
+  const levels = recordCommitLevels(backend, 'db');
+  await transactionDone(write(db, 'a', 'relaxed'));
+  await transactionDone(write(db, 'a', 'strict'));
+  assert.deepEqual(levels, [1, 2]);
+});
@@ -0,0 +1,165 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { exportDatabase, importDatabase } from '../../src/index.ts';
+import type { IDBDatabase, IDBFactory } from '../../src/index.ts';
+import { createFactory, openDatabase, requestResult, transactionDone } from './helpers.ts';
+
+async function createSource(factory: IDBFactory): Promise<void> {
+  const db = await openDatabase(factory, 'source', 3, (upgradeDb) => {
+    const people = upgradeDb.createObjectStore('people', { keyPath: 'id', autoIncrement: true });
+    people.createIndex('email', 'email', { unique: true });
+    people.createIndex('tags', 'tags', { multiEntry: true });
+    upgradeDb.createObjectStore('misc');
+  });
+  const tx = db.transaction(['people', 'misc'], 'readwrite');
+  const people = tx.objectStore('people');
+  people.add({ email: 'a@example.com', tags: ['x', 'y'], born: new Date(0) });
+  people.add({ email: 'b@example.com', tags: ['y'], born: new Date(1000) });
+  people.delete(2);
+  const cyclic: { self?: unknown; bytes: Uint8Array; lookup: Map<string, number> } = {
+    bytes: new Uint8Array([1, 2, 3]),
+    lookup: new Map([['one', 1]]),
+  };
+  cyclic.self = cyclic;
+  const misc = tx.objectStore('misc');
+  misc.put(cyclic, [1, 'compound']);
+  misc.put(new Set([NaN, -0, 10n]), new Date(5));
+  await transactionDone(tx);
+  db.close();
+}
+
+async function snapshot(db: IDBDatabase) {
+  const tx = db.transaction(['people', 'misc'], 'readwrite');
+  const people = tx.objectStore('people');
+  const result = {
+    version: db.version,
+    people: await requestResult(people.getAll()),
+    byTag: await requestResult(people.index('tags').getAllKeys('y')),
+    indexes: [...people.indexNames].map((name) => {
+      const index = people.index(name);
+      return [name, index.unique, index.multiEntry];
+    }),
+    miscKeys: await requestResult(tx.objectStore('misc').getAllKeys()),
+    misc: await requestResult(tx.objectStore('misc').getAll()),
+    nextId: await requestResult(people.add({ email: 'c@example.com', tags: [] })),
+  };
+  tx.abort();
+  return result;
+}
+
+for (const format of ['json', 'ndjson'] as const) {
+  test(`a ${format} dump imports as the same database`, async (t) => {
+    const factory = createFactory(t);
+    await createSource(factory);
+    const dump = await exportDatabase(factory, 'source', { format });
+    await importDatabase(factory, dump, { name: 'copy' });
+
+    const source = await openDatabase(factory, 'source');
+    const copy = await openDatabase(factory, 'copy');
+    const [expected, actual] = [await snapshot(source), await snapshot(copy)];
+    source.close();
+    copy.close();
+
+    assert.deepEqual(actual, expected);
+    assert.equal(actual.nextId, 3);
+    const cyclic = actual.misc[1] as { self: unknown; bytes: Uint8Array };
+    assert.equal(cyclic.self, cyclic);
+    assert.deepEqual(cyclic.bytes, new Uint8Array([1, 2, 3]));
+  });
+}
+
+test('importing over an existing database fails unless replace is set', async (t) => {
+  const factory = createFactory(t);
+  await createSource(factory);
+  const dump = await exportDatabase(factory, 'source');
+  await assert.rejects(importDatabase(factory, dump), { name: 'ConstraintError' });
+});
+
+test('replace swaps the contents in one upgrade', async (t) => {
+  const factory = createFactory(t);
+  await createSource(factory);
+  const dump = await exportDatabase(factory, 'source');
+  const other = await openDatabase(factory, 'other', 7, (db) => db.createObjectStore('old').put('value', 1));
+  other.close();
+
+  await importDatabase(factory, dump, { name: 'other', replace: true });
+  const db = await openDatabase(factory, 'other');
+  assert.equal(db.version, 8);
+  assert.deepEqual([...db.objectStoreNames], ['misc', 'people']);
+  db.close();
+});
+
+test('replace picks the version when its turn comes, after an upgrade queued before it', async (t) => {
+  const factory = createFactory(t);
+  await createSource(factory);
+  const dump = await exportDatabase(factory, 'source');
+  const upgrading = openDatabase(factory, 'source', 10);
+  const importing = importDatabase(factory, dump, { replace: true });
+  (await upgrading).close();
+  await importing;
+  const db = await openDatabase(factory, 'source');
+  assert.equal(db.version, 11);
+  db.close();
+});
+
+test('an own __proto__ property survives export and import', async (t) => {
+  const factory = createFactory(t);
+  const source = await openDatabase(factory, 'source', 1, (upgradeDb) => upgradeDb.createObjectStore('s'));
+  const tx = source.transaction('s', 'readwrite');
+  tx.objectStore('s').put(JSON.parse('{"__proto__": {"polluted": true}, "a": 1}'), 1);
+  await transactionDone(tx);
+  source.close();
+  await importDatabase(factory, await exportDatabase(factory, 'source'), { name: 'copy' });
+
+  const copy = await openDatabase(factory, 'copy');
+  const value = await requestResult(copy.transaction('s').objectStore('s').get(1));
+  copy.close();
+  assert.equal(Object.getPrototypeOf(value), Object.prototype);
+  assert.deepEqual(Object.keys(value), ['__proto__', 'a']);
+  assert.deepEqual({ ...Object.getOwnPropertyDescriptor(value, '__proto__')!.value }, { polluted: true });
+  assert.equal(({} as any).polluted, undefined);
+});
+
+test('a failed replace leaves the database as it was and reports the request error', async (t) => {
+  const factory = createFactory(t);
+  await createSource(factory);
+  const dump = JSON.parse(await exportDatabase(factory, 'source'));
+  // Two records with the same key in a unique index
+  const people = dump.stores.find((store: { name: string }) => store.name === 'people');
+  people.records.push({ ...people.records[0], key: 5, value: { ...people.records[0].value, id: 5 } });
+
+  await assert.rejects(
+    importDatabase(factory, JSON.stringify(dump), { replace: true }),
+    { name: 'ConstraintError' }
+  );
+  const db = await openDatabase(factory, 'source');
+  assert.equal(db.version, 3);
+  const tx = db.transaction('people');
+  assert.equal(await requestResult(tx.objectStore('people').count()), 1);
+  db.close();
+});
+
+test('a dump that is not one is rejected with DataError', async (t) => {
+  const factory = createFactory(t);
+  await assert.rejects(importDatabase(factory, '{"format":"other"}'), { name: 'DataError' });
+  await assert.rejects(importDatabase(factory, 'not json\n'), { name: 'DataError' });
+  assert.deepEqual(await factory.databases(), []);
+});
+
+test('an array of invalid length in a dump is rejected with DataError', async (t) => {
+  const factory = createFactory(t);
+  const source = await openDatabase(factory, 'source', 1, (upgradeDb) => upgradeDb.createObjectStore('s'));
+  const tx = source.transaction('s', 'readwrite');
+  tx.objectStore('s').put([, 'sparse'], 1);
+  await transactionDone(tx);
+  source.close();
+  const dump = await exportDatabase(factory, 'source');
+  assert.match(dump, /"length":2/);
+  for (const length of ['1.5', '-1', '1e100', '"2"']) {
+    await assert.rejects(
+      importDatabase(factory, dump.replace('"length":2', `"length":${length}`), { name: 'copy' }),
+      { name: 'DataError' }
+    );
+  }
+  assert.deepEqual((await factory.databases()).map((info) => info.name), ['source']);
+});
@@ -0,0 +1,38 @@
+// Worker side of worker-sharing.test.ts: runs the steps named in workerData
+// against the storage served by the main thread, and posts back the results.
+
+import { parentPort, workerData } from 'node:worker_threads';
+import { IDBFactory } from '../../../src/index.ts';
+import { openDatabase, requestResult, transactionDone } from '../helpers.ts';
+
+const factory = new IDBFactory({ port: workerData.port });
+
+async function run(step: string): Promise<unknown> {
+  switch (step) {
+    case 'index-existing-records': {
+      // Version 2 adds an index over the records the main thread wrote
+      const db = await openDatabase(factory, 'db', 2, (upgradeDb, request) => {
+        request.transaction!.objectStore('people').createIndex('byAge', 'age');
+      });
+      const index = db.transaction('people').objectStore('people').index('byAge');
+      const names = await requestResult(index.getAll());
+      db.close();
+      return names.map((person: { name: string }) => person.name);
+    }
+    case 'write': {
+      const db = await openDatabase(factory, 'db');
+      const tx = db.transaction('people', 'readwrite');
+      tx.objectStore('people').put({ name: 'from worker', age: 1 }, 99);
+      await transactionDone(tx);
+      db.close();
+      return 'written';
+    }
+    default:
+      throw new Error(`Unknown step: ${step}`);
+  }
+}
+
+run(workerData.step).then(
+  (result) => parentPort!.postMessage({ result }),
+  (err) => parentPort!.postMessage({ error: `${err?.name}: ${err?.message}` })
+).finally(() => factory.close());
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import { readdirSync } from 'node:fs';
+import { install, uninstall } from 'indexeddb-sqlite/globals';
+import { IDBFactory, IDBKeyRange } from 'indexeddb-sqlite';
+import { tempDir } from './helpers.ts';
+
+test('install() defines indexedDB and the interfaces; uninstall() puts back what was there', async () => {
+  const before = Object.getOwnPropertyDescriptor(globalThis, 'IDBKeyRange');
+  const factory = install();
+  const globals = globalThis as Record<string, unknown>;
+  assert.equal(globals.indexedDB, factory);
+  assert.equal(globals.IDBKeyRange, IDBKeyRange);
+  assert.ok(factory instanceof IDBFactory);
+  assert.equal(Object.keys(globalThis).includes('indexedDB'), false);
+
+  await uninstall();
+  assert.equal('indexedDB' in globalThis, false);
+  assert.deepEqual(Object.getOwnPropertyDescriptor(globalThis, 'IDBKeyRange'), before);
+});
+
+test('importing the auto entry point installs a factory on the storage path given', (t) => {
+  const storagePath = tempDir(t);
+  const script = `
+    await import('indexeddb-sqlite/auto');
+    const request = indexedDB.open('db', 2);
+    request.onsuccess = () => {
+      console.log(request.result.version, indexedDB.constructor === IDBFactory);
+      request.result.close();
+    };
+  `;
+  const output = execFileSync(
+    process.execPath,
+    ['--experimental-strip-types', '--no-warnings', '--input-type=module', '--eval', script],
+    { cwd: import.meta.dirname, env: { ...process.env, INDEXEDDB_SQLITE_PATH: storagePath }, encoding: 'utf8', timeout: 60_000 }
+  );
+  assert.equal(output.trim(), '2 true');
+  assert.notEqual(readdirSync(storagePath).length, 0);
+});
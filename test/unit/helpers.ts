@@ -0,0 +1,82 @@
+// Shared helpers for the unit tests: temporary storage and promises for
+// requests and transactions.
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { TestContext } from 'node:test';
+import { IDBFactory } from '../../src/index.ts';
+import type { IDBFactoryOptions, IDBDatabase, IDBRequest, IDBOpenDBRequest, IDBTransaction } from '../../src/index.ts';
+
+/** A temporary directory, removed when the test ends */
+export function tempDir(t: TestContext): string {
+  const dir = mkdtempSync(join(tmpdir(), 'idb-test-'));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+/** A factory on temporary storage (in memory unless `storagePath` is given), closed when the test ends */
+export function createFactory(t: TestContext, options: IDBFactoryOptions = { inMemory: true }): IDBFactory {
+  const factory = new IDBFactory(options);
+  t.after(() => factory.close());
+  return factory;
+}
+
+/** Result of a request, or its error */
+export function requestResult<T = any>(request: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.addEventListener('success', () => resolve(request.result));
+    request.addEventListener('error', () => reject(request.error));
+  });
+}
+
+/** Resolves on complete; rejects with the transaction's error on abort */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.addEventListener('complete', () => resolve());
+    transaction.addEventListener('abort', () => reject(transaction.error ?? new DOMException('Aborted', 'AbortError')));
+  });
+}
+
+/** How a transaction ended */
+export function transactionOutcome(transaction: IDBTransaction): Promise<'complete' | 'abort'> {
+  return new Promise((resolve) => {
+    transaction.addEventListener('complete', () => resolve('complete'));
+    transaction.addEventListener('abort', () => resolve('abort'));
+  });
+}
+
+/** Open a database, running `upgrade` on upgradeneeded */
+export function openDatabase(
+  factory: IDBFactory,
+  name: string,
+  version?: number,
+  upgrade?: (db: IDBDatabase, request: IDBOpenDBRequest) => void
+): Promise<IDBDatabase> {
+  const request = factory.open(name, version);
+  if (upgrade) {
+    request.addEventListener('upgradeneeded', () => upgrade(request.result, request));
+  }
+  return requestResult<IDBDatabase>(request);
+}
+
+/** Keep a transaction open until `until` resolves, then run `end` on it */
+export function hold(tx: IDBTransaction, until: Promise<unknown>, end?: (tx: IDBTransaction) => void): void {
+  let released = false;
+  until.then(() => {
+    released = true;
+  });
+  const spin = (): void => {
+    if (released) {
+      end?.(tx);
+      return;
+    }
+    tx.objectStore(tx.objectStoreNames[0]).count().onsuccess = spin;
+  };
+  spin();
+}
+
+/** Resolves after pending tasks (queued events) have run */
+export function tick(ms: number = 0): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,128 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import Database from 'better-sqlite3';
+import { SQLiteBackend } from '../../src/index.ts';
+import { encodeKey } from '../../src/keys.ts';
+import { createFactory, openDatabase, tempDir, transactionDone } from './helpers.ts';
+
+async function setup(t: Parameters<typeof tempDir>[0]) {
+  const backend = new SQLiteBackend(tempDir(t));
+  const factory = createFactory(t, { backend });
+  const db = await openDatabase(factory, 'db', 1, (upgradeDb) => {
+    const people = upgradeDb.createObjectStore('people', { keyPath: 'id' });
+    people.createIndex('email', 'email', { unique: true });
+    people.createIndex('tags', 'tags', { multiEntry: true });
+  });
+  const tx = db.transaction('people', 'readwrite');
+  tx.objectStore('people').put({ id: 1, email: 'a', tags: ['x'] });
+  tx.objectStore('people').put({ id: 2, email: 'b', tags: ['x', 'y'] });
+  await transactionDone(tx);
+  db.close();
+  return { backend, factory, storage: backend.getDatabase('db') };
+}
+
+function indexId(storage: Database.Database, name: string): number {
+  return (storage.prepare('SELECT id FROM indexes WHERE name = ?').get(name) as { id: number }).id;
+}
+
+function key(value: string | number): Buffer {
+  return Buffer.from(encodeKey(value));
+}
+
+test('an intact database checks out', async (t) => {
+  const { factory } = await setup(t);
+  assert.deepEqual(await factory.checkIntegrity('db'), { ok: true, storageErrors: [], problems: [], rebuilt: [] });
+});
+
+test('wrong index entries are found, and repair rebuilds their indexes', async (t) => {
+  const { factory, storage } = await setup(t);
+  const email = indexId(storage, 'email');
+  const tags = indexId(storage, 'tags');
+  storage.prepare('DELETE FROM index_entries WHERE index_id = ? AND primary_key = ?').run(email, key(1));
+  storage.prepare('INSERT INTO index_entries VALUES (?, ?, ?)').run(email, key('c'), key(3));
+  storage.prepare('INSERT INTO index_entries VALUES (?, ?, ?)').run(tags, key('z'), key(1));
+
+  const report = await factory.checkIntegrity('db');
+  assert.equal(report.ok, false);
+  const found = report.problems.map((p) => [p.kind, p.index, p.key, p.primaryKey]);
+  assert.deepEqual(found.sort(), [
+    ['dangling-entry', 'email', 'c', 3],
+    ['missing-entry', 'email', 'a', 1],
+    ['stale-entry', 'tags', 'z', 1],
+  ]);
+  assert.deepEqual(report.rebuilt, []);
+
+  const repaired = await factory.checkIntegrity('db', { repair: true });
+  assert.equal(repaired.ok, true);
+  assert.deepEqual(repaired.rebuilt, [{ store: 'people', index: 'email' }, { store: 'people', index: 'tags' }]);
+  assert.deepEqual(await factory.checkIntegrity('db'), { ok: true, storageErrors: [], problems: [], rebuilt: [] });
+});
+
+test('records breaking a unique index are reported, and that index is left alone', async (t) => {
+  const { factory, storage } = await setup(t);
+  const value = storage.prepare('SELECT value FROM records WHERE key = ?').get(key(1)) as { value: Buffer };
+  const storeId = (storage.prepare('SELECT id FROM object_stores').get() as { id: number }).id;
+  // A copy of record 1 under key 3: same email, and no index entries
+  storage.prepare('INSERT INTO records VALUES (?, ?, ?)').run(storeId, key(3), value.value);
+
+  const report = await factory.checkIntegrity('db', { repair: true });
+  assert.equal(report.ok, false);
+  assert.ok(report.problems.some((p) => p.kind === 'unique-violation' && p.index === 'email'));
+  assert.deepEqual(report.rebuilt, [{ store: 'people', index: 'tags' }]);
+});
+
+test('an unreadable record is reported, and its store\'s indexes are not rebuilt', async (t) => {
+  const { factory, storage } = await setup(t);
+  storage.prepare('UPDATE records SET value = ? WHERE key = ?').run(Buffer.from([0xff, 0x0f, 0x99]), key(2));
+  storage.prepare('DELETE FROM index_entries WHERE index_id = ? AND primary_key = ?').run(indexId(storage, 'email'), key(1));
+
+  const report = await factory.checkIntegrity('db', { repair: true });
+  assert.equal(report.ok, false);
+  const found = report.problems.map((p) => [p.kind, p.store, p.index, p.primaryKey]);
+  assert.deepEqual(found, [
+    ['unreadable-record', 'people', null, 2],
+    ['missing-entry', 'people', 'email', 1],
+  ]);
+  assert.deepEqual(report.rebuilt, []);
+});
+
+/** The backend as a custom one, which instanceof doesn't recognize, without the methods named */
+function asCustom(backend: SQLiteBackend, without: string[] = []): SQLiteBackend {
+  return new Proxy(backend, {
+    getPrototypeOf: () => Object.prototype,
+    get: (target, prop) => {
+      if (without.includes(String(prop))) return undefined;
+      const value = Reflect.get(target, prop, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+}
+
+test('a custom backend with the integrity methods can be checked; one without them cannot', async (t) => {
+  const { backend } = await setup(t);
+  const custom = createFactory(t, { backend: asCustom(backend) });
+  assert.equal((await custom.checkIntegrity('db', { repair: true })).ok, true);
+
+  const bare = createFactory(t, { backend: asCustom(backend, ['checkStorage']) });
+  await assert.rejects(bare.checkIntegrity('db'), { name: 'NotSupportedError' });
+});
+
+test('repair holds the write lock from before its scan', async (t) => {
+  const { backend, factory, storage } = await setup(t);
+  const other = new Database(storage.name, { timeout: 0 });
+  t.after(() => other.close());
+  let writeDuringScan: unknown = null;
+  const checkStorage = backend.checkStorage.bind(backend);
+  backend.checkStorage = (dbName: string) => {
+    try {
+      other.exec('DELETE FROM records');
+    } catch (err) {
+      writeDuringScan = err;
+    }
+    return checkStorage(dbName);
+  };
+
+  await factory.checkIntegrity('db', { repair: true });
+  assert.equal((writeDuringScan as { code?: string } | null)?.code, 'SQLITE_BUSY');
+  assert.equal((other.prepare('SELECT COUNT(*) AS n FROM records').get() as { n: number }).n, 2);
+});
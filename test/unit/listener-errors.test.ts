@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { IDBDatabase, IDBFactory } from '../../src/index.ts';
+import { createFactory, openDatabase, requestResult, transactionOutcome } from './helpers.ts';
+
+function setup(factory: IDBFactory): Promise<IDBDatabase> {
+  return openDatabase(factory, 'db', 1, (upgradeDb) => upgradeDb.createObjectStore('s'));
+}
+
+test('an exception in a success handler is reported, and aborts the transaction', async (t) => {
+  const reported: Array<[unknown, string, unknown, unknown]> = [];
+  const factory = createFactory(t, {
+    inMemory: true,
+    onListenerError: (error, event, listenerTarget) => reported.push([error, event.type, event.target, listenerTarget]),
+  });
+  const db = await setup(factory);
+  t.after(() => db.close());
+  const tx = db.transaction('s', 'readwrite');
+  const outcome = transactionOutcome(tx);
+  const failure = new Error('listener failed');
+  const request = tx.objectStore('s').put('value', 1);
+  request.onsuccess = () => {
+    throw failure;
+  };
+
+  assert.equal(await outcome, 'abort');
+  assert.equal(tx.error?.name, 'AbortError');
+  assert.deepEqual(reported, [[failure, 'success', request, request]]);
+  assert.equal(await requestResult(db.transaction('s').objectStore('s').count()), 0);
+});
+
+test('an exception in a listener an error event bubbled to names that listener\'s target', async (t) => {
+  const reported: Array<[string, unknown, unknown]> = [];
+  const factory = createFactory(t, {
+    inMemory: true,
+    onListenerError: (_error, event, listenerTarget) => reported.push([event.type, event.target, listenerTarget]),
+  });
+  const db = await setup(factory);
+  t.after(() => db.close());
+  const tx = db.transaction('s', 'readwrite');
+  tx.objectStore('s').add('value', 1);
+  const request = tx.objectStore('s').add('again', 1);
+  db.addEventListener('error', (event) => {
+    event.preventDefault();
+    throw new Error('from the connection');
+  });
+
+  assert.equal(await transactionOutcome(tx), 'abort');
+  assert.deepEqual(reported, [['error', request, db]]);
+});
+
+test('without onListenerError the exception is dropped, and the transaction still aborts', async (t) => {
+  const db = await setup(createFactory(t));
+  t.after(() => db.close());
+  const tx = db.transaction('s', 'readwrite');
+  tx.objectStore('s').put('value', 1).onsuccess = () => {
+    throw new Error('dropped');
+  };
+  assert.equal(await transactionOutcome(tx), 'abort');
+});
@@ -0,0 +1,117 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { deleteDB, openDB } from '../../src/promise.ts';
+import type { PromiseDatabase } from '../../src/promise.ts';
+import { createFactory, tick } from './helpers.ts';
+
+async function setup(t: Parameters<typeof createFactory>[0]): Promise<PromiseDatabase> {
+  const db = await openDB(createFactory(t), 'db', 1, {
+    upgrade(upgradeDb) {
+      upgradeDb.createObjectStore('items', { keyPath: 'id' }).createIndex('kind', 'kind');
+    },
+  });
+  t.after(() => db.close());
+  return db;
+}
+
+test('awaited requests run one after another in the same transaction', async (t) => {
+  const db = await setup(t);
+  const tx = db.transaction('items', 'readwrite');
+  const items = tx.objectStore('items');
+  await items.put({ id: 1, kind: 'a' });
+  const first = await items.get(1);
+  await items.put({ ...first, kind: 'b' });
+  assert.deepEqual(await items.putAll([{ id: 2, kind: 'b' }, { id: 3, kind: 'c' }]), [2, 3]);
+  assert.deepEqual(await items.index('kind').getAllKeys('b'), [1, 2]);
+  await tx.done;
+
+  const read = db.transaction('items');
+  assert.equal(await read.objectStore('items').count(), 3);
+});
+
+test('cursors step through promises', async (t) => {
+  const db = await setup(t);
+  const tx = db.transaction('items', 'readwrite');
+  const items = tx.objectStore('items');
+  await items.putAll([1, 2, 3, 4].map((id) => ({ id, kind: id % 2 ? 'odd' : 'even' })));
+  const seen: unknown[] = [];
+  let cursor = await items.index('kind').openCursor('odd');
+  while (cursor) {
+    seen.push(cursor.primaryKey);
+    await cursor.update({ ...cursor.value, seen: true });
+    cursor = await cursor.continue();
+  }
+  assert.deepEqual(seen, [1, 3]);
+  assert.deepEqual((await items.getAll()).map((item) => !!item.seen), [true, false, true, false]);
+  await tx.done;
+});
+
+test('a failed request rejects, and so does done once the transaction aborts', async (t) => {
+  const db = await setup(t);
+  const tx = db.transaction('items', 'readwrite');
+  const items = tx.objectStore('items');
+  await items.add({ id: 1 });
+  await assert.rejects(items.add({ id: 1 }), { name: 'ConstraintError' });
+  await assert.rejects(tx.done, { name: 'ConstraintError' });
+  assert.equal(await db.transaction('items').objectStore('items').count(), 0);
+});
+
+test('awaiting something else lets the transaction commit', async (t) => {
+  const db = await setup(t);
+  const tx = db.transaction('items', 'readwrite');
+  const items = tx.objectStore('items');
+  await items.put({ id: 1 });
+  await tick(10);
+  assert.throws(() => items.put({ id: 2 }), { name: 'TransactionInactiveError' });
+  await tx.done;
+});
+
+test('blocking, blocked and deleteDB', async (t) => {
+  const factory = createFactory(t);
+  const events: string[] = [];
+  const db = await openDB(factory, 'db', 1, {
+    blocking(oldVersion, newVersion) {
+      events.push(`blocking ${oldVersion} -> ${newVersion}`);
+      setTimeout(() => db.close(), 10);
+    },
+  });
+  await deleteDB(factory, 'db', {
+    blocked: (oldVersion, newVersion) => events.push(`blocked ${oldVersion} -> ${newVersion}`),
+  });
+  assert.deepEqual(events, ['blocking 1 -> null', 'blocked 1 -> null']);
+  assert.deepEqual(await factory.databases(), []);
+});
+
+test('the transaction stays active through any number of microtask hops', async (t) => {
+  const db = await setup(t);
+  const tx = db.transaction('items', 'readwrite');
+  const items = tx.objectStore('items');
+  const nested = async (depth: number): Promise<unknown> => (depth === 0 ? items.get(1) : nested(depth - 1));
+  for (let i = 0; i < 10; i++) await null;
+  await items.put({ id: 1 });
+  assert.deepEqual(await nested(5), { id: 1 });
+  await nested(5);
+  await items.put({ id: 2 });
+  await tx.done;
+  assert.equal(await db.transaction('items').objectStore('items').count(), 2);
+});
+
+test('a timer callback due along with a request event finds the transaction inactive', async (t) => {
+  const db = await setup(t);
+  const tx = db.transaction('items', 'readwrite');
+  const items = tx.objectStore('items');
+  await items.get(0);
+  const put = items.put({ id: 1 });
+  let late: unknown = null;
+  setTimeout(() => {
+    try {
+      items.put({ id: 2 });
+    } catch (err) {
+      late = err;
+    }
+  }, 0);
+  await put;
+  await tx.done;
+  assert.equal((late as DOMException | null)?.name, 'TransactionInactiveError');
+  assert.equal(await db.transaction('items').objectStore('items').count(), 1);
+});
@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFactory, openDatabase, requestResult, transactionDone, transactionOutcome } from './helpers.ts';
+
+async function setup(t: Parameters<typeof createFactory>[0]) {
+  const factory = createFactory(t);
+  const db = await openDatabase(factory, 'db', 1, (upgradeDb) => {
+    const people = upgradeDb.createObjectStore('people', { keyPath: 'id', autoIncrement: true });
+    people.createIndex('aliases', 'aliases', { unique: true, multiEntry: true });
+    people.createIndex('tags', 'tags', { multiEntry: true });
+  });
+  t.after(() => db.close());
+  const tx = db.transaction('people', 'readwrite');
+  tx.objectStore('people').put({ id: 1, aliases: ['ann', 'annie'], tags: ['x'] });
+  await transactionDone(tx);
+  return db;
+}
+
+test('putAll writes every record with its index entries', async (t) => {
+  const db = await setup(t);
+  const tx = db.transaction('people', 'readwrite');
+  const people = tx.objectStore('people');
+  const keys = await requestResult(people.putAll([
+    { aliases: ['bob', 'rob'], tags: ['x', 'y'] },
+    { id: 1, aliases: ['annie', 'anna'], tags: [] },
+    { aliases: ['ann'], tags: ['y'] },
+  ]));
+  await transactionDone(tx);
+
+  assert.deepEqual(keys, [2, 1, 3]);
+  const read = db.transaction('people').objectStore('people');
+  assert.deepEqual(await requestResult(read.index('aliases').getAllKeys()), [3, 1, 1, 2, 2]);
+  assert.deepEqual(await requestResult(read.index('tags').getAllKeys('y')), [2, 3]);
+  assert.deepEqual(await requestResult(read.index('tags').getAllKeys('x')), [2]);
+});
+
+test('a unique multiEntry key is checked per entry against stored records', async (t) => {
+  const db = await setup(t);
+  const tx = db.transaction('people', 'readwrite');
+  const outcome = transactionOutcome(tx);
+  const request = tx.objectStore('people').putAll([
+    { aliases: ['carl'] },
+    // Not the whole array ['dave', 'annie'], but 'annie' is taken by record 1
+    { aliases: ['dave', 'annie'] },
+  ]);
+  await assert.rejects(requestResult(request), { name: 'ConstraintError' });
+  assert.equal(await outcome, 'abort');
+
+  const read = db.transaction('people').objectStore('people');
+  assert.equal(await requestResult(read.count()), 1);
+});
+
+test('a unique multiEntry key is checked per entry within the batch', async (t) => {
+  const db = await setup(t);
+  const tx = db.transaction('people', 'readwrite');
+  const people = tx.objectStore('people');
+  const request = people.addAll([{ aliases: ['erin', 'fay'] }, { aliases: ['gus', 'fay'] }]);
+  request.onerror = (event: Event) => event.preventDefault();
+  const count = requestResult(people.count());
+  await assert.rejects(requestResult(request), { name: 'ConstraintError' });
+  await transactionDone(tx);
+  assert.equal(await count, 1);
+});
+
+test('a single put checks each key of a unique multiEntry index', async (t) => {
+  const db = await setup(t);
+  const tx = db.transaction('people', 'readwrite');
+  const people = tx.objectStore('people');
+  const request = people.put({ aliases: ['hal', 'ann'] });
+  request.onerror = (event: Event) => event.preventDefault();
+  // A record may keep its own keys
+  const own = requestResult(people.put({ id: 1, aliases: ['ann', 'hal'] }));
+  await assert.rejects(requestResult(request), { name: 'ConstraintError' });
+  assert.equal(await own, 1);
+  await transactionDone(tx);
+});
+
+test('deleteMany removes the records and their index entries; a bad key fails the call', async (t) => {
+  const db = await setup(t);
+  const tx = db.transaction('people', 'readwrite');
+  const people = tx.objectStore('people');
+  people.putAll([{ aliases: ['bob'], tags: ['x'] }, { aliases: ['cy'], tags: ['x'] }]);
+  people.deleteMany([1, 3, 99]);
+  const left = requestResult(people.getAllKeys());
+  const tagged = requestResult(people.index('tags').getAllKeys('x'));
+  assert.throws(() => people.deleteMany([2, {}]), { name: 'DataError' });
+  await transactionDone(tx);
+  assert.deepEqual(await left, [2]);
+  assert.deepEqual(await tagged, [2]);
+  // 'ann' is free again
+  const write = db.transaction('people', 'readwrite');
+  await requestResult(write.objectStore('people').add({ aliases: ['ann'] }));
+});
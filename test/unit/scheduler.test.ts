@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { IDBFactory } from '../../src/index.ts';
+import { createFactory, hold, openDatabase, requestResult, transactionDone } from './helpers.ts';
+
+function setup(factory: IDBFactory) {
+  return openDatabase(factory, 'db', 1, (upgradeDb) => {
+    upgradeDb.createObjectStore('a');
+    upgradeDb.createObjectStore('b');
+  });
+}
+
+test('factories schedule their transactions apart, even for databases of the same name', { timeout: 10_000 }, async (t) => {
+  const [first, second] = [await setup(createFactory(t)), await setup(createFactory(t))];
+  t.after(() => {
+    first.close();
+    second.close();
+  });
+  const held = first.transaction('a', 'readwrite');
+  let release!: () => void;
+  hold(held, new Promise<void>((resolve) => (release = resolve)));
+
+  const other = second.transaction('a', 'readwrite');
+  other.objectStore('a').put('x', 1);
+  await transactionDone(other);
+  release();
+  await transactionDone(held);
+});
+
+test('readwrite transactions over the same store run one after another, in order', async (t) => {
+  const db = await setup(createFactory(t));
+  t.after(() => db.close());
+  const order: string[] = [];
+  const first = db.transaction(['a', 'b'], 'readwrite');
+  first.objectStore('a').put('first', 1).onsuccess = () => order.push('first put');
+  first.oncomplete = () => order.push('first complete');
+  const second = db.transaction('a', 'readwrite');
+  const read = second.objectStore('a').get(1);
+  read.onsuccess = () => order.push('second get');
+  const unrelated = db.transaction('b', 'readwrite');
+  unrelated.objectStore('b').put('b', 1).onsuccess = () => order.push('unrelated put');
+
+  assert.equal(await requestResult(read), 'first');
+  await transactionDone(unrelated);
+  // Store b is in the first transaction's scope too, so its writer waits as well
+  assert.deepEqual(order, ['first put', 'first complete', 'second get', 'unrelated put']);
+});
+
+test('readonly transactions run alongside each other', { timeout: 10_000 }, async (t) => {
+  const db = await setup(createFactory(t));
+  t.after(() => db.close());
+  const held = db.transaction('a');
+  let release!: () => void;
+  hold(held, new Promise<void>((resolve) => (release = resolve)));
+
+  const other = db.transaction(['a', 'b']);
+  assert.equal(await requestResult(other.objectStore('a').count()), 0);
+  await transactionDone(other);
+  release();
+  await transactionDone(held);
+});
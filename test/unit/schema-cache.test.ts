@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SQLiteBackend } from '../../src/index.ts';
+import { createFactory, openDatabase, requestResult, transactionDone, transactionOutcome } from './helpers.ts';
+
+test('a connection reads store and index metadata once', async (t) => {
+  const backend = new SQLiteBackend(':memory:');
+  const factory = createFactory(t, { backend });
+  const db = await openDatabase(factory, 'db', 1, (upgradeDb) => {
+    upgradeDb.createObjectStore('s', { keyPath: 'id' }).createIndex('byName', 'name');
+  });
+  t.after(() => db.close());
+  const calls = { stores: 0, indexes: 0 };
+  const getObjectStoreMetadata = backend.getObjectStoreMetadata.bind(backend);
+  const getIndexesForStore = backend.getIndexesForStore.bind(backend);
+  backend.getObjectStoreMetadata = (...args) => {
+    calls.stores++;
+    return getObjectStoreMetadata(...args);
+  };
+  backend.getIndexesForStore = (...args) => {
+    calls.indexes++;
+    return getIndexesForStore(...args);
+  };
+
+  for (let i = 0; i < 5; i++) {
+    const tx = db.transaction('s', 'readwrite');
+    const store = tx.objectStore('s');
+    store.put({ id: i, name: `n${i}` });
+    store.index('byName').get('n0');
+    await transactionDone(tx);
+  }
+  assert.deepEqual(calls, { stores: 1, indexes: 1 });
+});
+
+test('the metadata follows changes in an upgrade, and its rollback', async (t) => {
+  const factory = createFactory(t);
+  (await openDatabase(factory, 'db', 1, (upgradeDb) => {
+    upgradeDb.createObjectStore('s', { keyPath: 'id' }).createIndex('old', 'name');
+  })).close();
+
+  const request = factory.open('db', 2);
+  request.onupgradeneeded = () => {
+    const tx = request.transaction!;
+    const store = tx.objectStore('s');
+    store.name = 'renamed';
+    store.index('old').name = 'byName';
+    store.createIndex('unique', 'email', { unique: true });
+    store.deleteIndex('byName');
+    request.result.createObjectStore('extra');
+    assert.deepEqual([...request.result.objectStoreNames], ['extra', 'renamed']);
+    assert.deepEqual([...store.indexNames], ['unique']);
+    tx.abort();
+  };
+  await assert.rejects(requestResult(request), { name: 'AbortError' });
+
+  const db = await openDatabase(factory, 'db');
+  assert.equal(db.version, 1);
+  assert.deepEqual([...db.objectStoreNames], ['s']);
+  const tx = db.transaction('s', 'readwrite');
+  const outcome = transactionOutcome(tx);
+  const store = tx.objectStore('s');
+  assert.deepEqual([...store.indexNames], ['old']);
+  store.put({ id: 1, name: 'a', email: 'x' });
+  store.put({ id: 2, name: 'b', email: 'x' });
+  assert.equal(await requestResult(store.index('old').getKey('b')), 2);
+  assert.equal(await outcome, 'complete');
+  db.close();
+});
@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SQLiteBackend } from '../../src/index.ts';
+import type { IDBDatabase } from '../../src/index.ts';
+import { encodeKey } from '../../src/keys.ts';
+import { createFactory, hold, openDatabase, requestResult, tempDir, transactionDone } from './helpers.ts';
+
+async function setup(t: Parameters<typeof tempDir>[0], inMemory: boolean): Promise<IDBDatabase> {
+  const factory = createFactory(t, inMemory ? { inMemory: true } : { storagePath: tempDir(t) });
+  const db = await openDatabase(factory, 'db', 1, (upgradeDb) => {
+    const store = upgradeDb.createObjectStore('s');
+    store.put('before', 1);
+  });
+  t.after(() => db.close());
+  return db;
+}
+
+test('a readonly transaction keeps reading what was committed when it started, while a writer commits', { timeout: 10_000 }, async (t) => {
+  const db = await setup(t, false);
+  const reader = db.transaction('s');
+  const writer = db.transaction('s', 'readwrite');
+  writer.objectStore('s').put('after', 1);
+  writer.objectStore('s').put('new', 2);
+  const written = transactionDone(writer);
+  let seen!: Promise<unknown[]>;
+  // The reader is open throughout the write, and reads once it has committed
+  hold(reader, written, (tx) => {
+    const store = tx.objectStore('s');
+    seen = Promise.all([requestResult(store.get(1)), requestResult(store.count())]);
+  });
+
+  await written;
+  await transactionDone(reader);
+  assert.deepEqual(await seen, ['before', 1]);
+  assert.equal(await requestResult(db.transaction('s').objectStore('s').get(1)), 'after');
+});
+
+test('a readonly transaction reads the key generator as it was when it started', { timeout: 10_000 }, async (t) => {
+  const db = await openDatabase(createFactory(t, { storagePath: tempDir(t) }), 'db', 1, (upgradeDb) => {
+    upgradeDb.createObjectStore('s', { autoIncrement: true }).add('first');
+  });
+  t.after(() => db.close());
+  const reader = db.transaction('s');
+  const writer = db.transaction('s', 'readwrite');
+  writer.objectStore('s').add('second');
+  const written = transactionDone(writer);
+  let seen!: number;
+  hold(reader, written, (tx) => {
+    seen = (tx.objectStore('s') as any)._keyGenerator;
+  });
+
+  await written;
+  await transactionDone(reader);
+  assert.equal(seen, 1);
+  assert.equal((db.transaction('s', 'readwrite').objectStore('s') as any)._keyGenerator, 2);
+});
+
+test('in memory, a writer waits for the readonly transactions before it', async (t) => {
+  const db = await setup(t, true);
+  const order: string[] = [];
+  const reader = db.transaction('s');
+  reader.objectStore('s').get(1).onsuccess = () => order.push('read');
+  reader.oncomplete = () => order.push('reader complete');
+  const writer = db.transaction('s', 'readwrite');
+  writer.objectStore('s').put('after', 1).onsuccess = () => order.push('write');
+  await transactionDone(writer);
+  assert.deepEqual(order, ['read', 'reader complete', 'write']);
+});
+
+test('a snapshot only reads, on a connection of its own, until released', async (t) => {
+  const storagePath = tempDir(t);
+  const db = await openDatabase(createFactory(t, { storagePath }), 'db', 1, (upgradeDb) => {
+    upgradeDb.createObjectStore('s').put('before', 1);
+  });
+  db.close();
+  const backend = new SQLiteBackend(storagePath);
+  t.after(() => backend.closeAll());
+  const storeId = backend.getObjectStoreMetadata('db', 's')!.id;
+  const snapshot = backend.openSnapshot('db')!;
+  assert.ok(!(snapshot instanceof SQLiteBackend));
+  assert.equal('putRecord' in snapshot, false);
+
+  backend.beginSavepoint('db', 'write');
+  backend.putRecord('db', storeId, encodeKey(2), Buffer.from('x'));
+  backend.releaseSavepoint('db', 'write');
+  assert.equal(snapshot.countRecords('db', storeId), 1);
+  assert.equal(backend.countRecords('db', storeId), 2);
+  assert.throws(() => snapshot.countRecords('other', storeId));
+
+  snapshot.release();
+  assert.throws(() => snapshot.countRecords('db', storeId), /released/);
+  assert.equal(backend.countRecords('db', storeId), 2);
+});
@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readdirSync, renameSync } from 'node:fs';
+import { join } from 'node:path';
+import Database from 'better-sqlite3';
+import { IDBFactory, SQLiteBackend } from '../../src/index.ts';
+import { createFactory, openDatabase, requestResult, tempDir, transactionDone } from './helpers.ts';
+
+async function put(factory: IDBFactory, name: string, value: unknown): Promise<void> {
+  const db = await openDatabase(factory, name, 1, (upgradeDb) => upgradeDb.createObjectStore('s'));
+  const tx = db.transaction('s', 'readwrite');
+  tx.objectStore('s').put(value, 1);
+  await transactionDone(tx);
+  db.close();
+}
+
+async function get(factory: IDBFactory, name: string): Promise<unknown> {
+  const db = await openDatabase(factory, name);
+  const value = db.objectStoreNames.contains('s')
+    ? await requestResult(db.transaction('s').objectStore('s').get(1))
+    : undefined;
+  db.close();
+  return value;
+}
+
+test('an in-memory factory keeps its databases between connections, and to itself', async (t) => {
+  const factory = createFactory(t, { inMemory: true });
+  const other = createFactory(t, { inMemory: true });
+  await put(factory, 'db', 'value');
+
+  assert.equal(await get(factory, 'db'), 'value');
+  assert.deepEqual(await factory.databases(), [{ name: 'db', version: 1 }]);
+  assert.deepEqual(await other.databases(), []);
+
+  await requestResult(factory.deleteDatabase('db'));
+  assert.equal(await get(factory, 'db'), undefined);
+});
+
+test('a factory needs a storage path, in-memory mode or a backend', () => {
+  assert.throws(() => new IDBFactory({}), TypeError);
+});
+
+test('names that differ only in characters a file name cannot hold are separate databases', async (t) => {
+  const storagePath = tempDir(t);
+  const factory = createFactory(t, { storagePath });
+  const names = ['a/b', 'a?b', 'a_b', '', '\uD800', '\uDC00', '..'];
+  for (const name of names) await put(factory, name, name);
+
+  for (const name of names) assert.equal(await get(factory, name), name);
+  const files = readdirSync(storagePath).filter((file) => file.endsWith('.sqlite') && file !== '_metadata.sqlite');
+  assert.equal(files.length, names.length);
+  assert.ok(files.every((file) => /^idb_[0-9a-f]{64}\.sqlite$/.test(file)));
+});
+
+test('databases stored under the old file names are still found', async (t) => {
+  const storagePath = tempDir(t);
+  const backend = new SQLiteBackend(storagePath);
+  await put(new IDBFactory({ backend }), 'my db', 'kept');
+  backend.closeAll();
+  // Back to the layout from before file names were recorded
+  const [file] = readdirSync(storagePath).filter((f) => f.startsWith('idb_') && f.endsWith('.sqlite'));
+  renameSync(join(storagePath, file), join(storagePath, 'db_my_db.sqlite'));
+  const meta = new Database(join(storagePath, '_metadata.sqlite'));
+  meta.exec('ALTER TABLE databases DROP COLUMN file');
+  meta.close();
+
+  const reopened = createFactory(t, { storagePath });
+  assert.equal(await get(reopened, 'my db'), 'kept');
+  // New databases get hashed names next to it
+  await put(reopened, 'my_db', 'new');
+  assert.equal(await get(reopened, 'my db'), 'kept');
+  assert.equal(await get(reopened, 'my_db'), 'new');
+});
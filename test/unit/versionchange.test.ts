@@ -0,0 +1,124 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFactory, openDatabase, requestResult } from './helpers.ts';
+import type { IDBVersionChangeEvent } from '../../src/index.ts';
+
+test('open with a higher version fires versionchange at open connections', async (t) => {
+  const factory = createFactory(t);
+  const db = await openDatabase(factory, 'db', 1);
+  const events: Array<[number, number | null]> = [];
+  db.onversionchange = (e) => {
+    const { oldVersion, newVersion } = e as IDBVersionChangeEvent;
+    events.push([oldVersion, newVersion]);
+    db.close();
+  };
+
+  const upgraded = await openDatabase(factory, 'db', 2);
+  assert.deepEqual(events, [[1, 2]]);
+  assert.equal(upgraded.version, 2);
+  upgraded.close();
+});
+
+test('the upgrade waits, blocked, until the other connections close', async (t) => {
+  const factory = createFactory(t);
+  const db = await openDatabase(factory, 'db', 1);
+  const order: string[] = [];
+  db.onversionchange = () => order.push('versionchange');
+
+  const request = factory.open('db', 2);
+  request.onblocked = (e) => {
+    const { oldVersion, newVersion } = e as IDBVersionChangeEvent;
+    order.push(`blocked ${oldVersion} -> ${newVersion}`);
+    setTimeout(() => {
+      order.push('close');
+      db.close();
+    }, 10);
+  };
+  request.onupgradeneeded = () => order.push('upgradeneeded');
+  const upgraded = await requestResult(request);
+
+  assert.deepEqual(order, ['versionchange', 'blocked 1 -> 2', 'close', 'upgradeneeded']);
+  upgraded.close();
+});
+
+test('opens queued behind an upgrade run after it, in request order', async (t) => {
+  const factory = createFactory(t);
+  const db = await openDatabase(factory, 'db', 1);
+  db.onversionchange = () => setTimeout(() => db.close(), 10);
+
+  const order: string[] = [];
+  const upgrade = factory.open('db', 2);
+  upgrade.onsuccess = () => order.push(`upgrade ${upgrade.result.version}`);
+  const plain = factory.open('db');
+  plain.onsuccess = () => order.push(`open ${plain.result.version}`);
+  await Promise.all([requestResult(upgrade), requestResult(plain)]);
+
+  assert.deepEqual(order, ['upgrade 2', 'open 2']);
+  upgrade.result.close();
+  plain.result.close();
+});
+
+test('connections that closed during versionchange do not block', async (t) => {
+  const factory = createFactory(t);
+  const db = await openDatabase(factory, 'db', 1);
+  db.onversionchange = () => db.close();
+
+  const request = factory.open('db', 2);
+  let blocked = false;
+  request.onblocked = () => {
+    blocked = true;
+  };
+  (await requestResult(request)).close();
+  assert.equal(blocked, false);
+});
+
+test('deleteDatabase fires versionchange, is blocked until connections close, then deletes', async (t) => {
+  const factory = createFactory(t);
+  const db = await openDatabase(factory, 'db', 3, (upgradeDb) => upgradeDb.createObjectStore('s'));
+  const order: string[] = [];
+  db.onversionchange = (e) => {
+    const { oldVersion, newVersion } = e as IDBVersionChangeEvent;
+    order.push(`versionchange ${oldVersion} -> ${newVersion}`);
+  };
+
+  const request = factory.deleteDatabase('db');
+  request.onblocked = () => {
+    order.push('blocked');
+    setTimeout(() => {
+      order.push('close');
+      db.close();
+    }, 10);
+  };
+  request.onsuccess = (e) => order.push(`deleted ${(e as IDBVersionChangeEvent).oldVersion}`);
+  await requestResult(request);
+
+  assert.deepEqual(order, ['versionchange 3 -> null', 'blocked', 'close', 'deleted 3']);
+  assert.deepEqual(await factory.databases(), []);
+  const reopened = await openDatabase(factory, 'db');
+  assert.equal(reopened.version, 1);
+  assert.deepEqual([...reopened.objectStoreNames], []);
+  reopened.close();
+});
+
+test('opens queued behind a delete see the database gone', async (t) => {
+  const factory = createFactory(t);
+  const db = await openDatabase(factory, 'db', 5);
+  db.onversionchange = () => db.close();
+
+  const deleted = requestResult(factory.deleteDatabase('db'));
+  const reopened = await openDatabase(factory, 'db');
+  await deleted;
+  assert.equal(reopened.version, 1);
+  reopened.close();
+});
+
+test('deleting a database that does not exist succeeds with oldVersion 0', async (t) => {
+  const factory = createFactory(t);
+  const request = factory.deleteDatabase('missing');
+  let oldVersion: number | null = null;
+  request.onsuccess = (e) => {
+    oldVersion = (e as IDBVersionChangeEvent).oldVersion;
+  };
+  await requestResult(request);
+  assert.equal(oldVersion, 0);
+});
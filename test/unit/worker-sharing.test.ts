@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MessageChannel, Worker } from 'node:worker_threads';
+import { once } from 'node:events';
+import { createFactory, openDatabase, requestResult, tempDir, transactionDone } from './helpers.ts';
+import type { IDBFactory } from '../../src/index.ts';
+
+/** Serve `factory` to a worker running `step` of fixtures/worker-client.ts; resolves with its result */
+async function runInWorker(factory: IDBFactory, step: string): Promise<any> {
+  const { port1, port2 } = new MessageChannel();
+  factory.serve(port1);
+  const worker = new Worker(new URL('./fixtures/worker-client.ts', import.meta.url), {
+    workerData: { port: port2, step },
+    transferList: [port2],
+  });
+  const [message] = await once(worker, 'message');
+  await once(worker, 'exit');
+  if (message.error) throw new Error(message.error);
+  return message.result;
+}
+
+async function seed(factory: IDBFactory): Promise<void> {
+  const db = await openDatabase(factory, 'db', 1, (upgradeDb) => upgradeDb.createObjectStore('people'));
+  const tx = db.transaction('people', 'readwrite');
+  const store = tx.objectStore('people');
+  store.put({ name: 'Carol', age: 40 }, 1);
+  store.put({ name: 'Alice', age: 20 }, 2);
+  store.put({ name: 'Bob', age: 30 }, 3);
+  await transactionDone(tx);
+  db.close();
+}
+
+test('a worker writes through the owning factory', async (t) => {
+  const factory = createFactory(t, { storagePath: tempDir(t) });
+  await seed(factory);
+
+  assert.equal(await runInWorker(factory, 'write'), 'written');
+  const db = await openDatabase(factory, 'db');
+  const value = await requestResult(db.transaction('people').objectStore('people').get(99));
+  assert.deepEqual(value, { name: 'from worker', age: 1 });
+  db.close();
+});
+
+test('a worker creates an index over existing records', async (t) => {
+  const factory = createFactory(t, { storagePath: tempDir(t) });
+  await seed(factory);
+
+  assert.deepEqual(await runInWorker(factory, 'index-existing-records'), ['Alice', 'Bob', 'Carol']);
+  const db = await openDatabase(factory, 'db');
+  assert.equal(db.version, 2);
+  const count = await requestResult(db.transaction('people').objectStore('people').index('byAge').count());
+  assert.equal(count, 3);
+  db.close();
+});
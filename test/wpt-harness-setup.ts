@@ -3,21 +3,7 @@
  * This must be called before loading testharness.js.
  */
 
-import {
-  IDBFactory,
-  IDBKeyRange,
-  IDBRequest,
-  IDBOpenDBRequest,
-  IDBDatabase,
-  IDBTransaction,
-  IDBObjectStore,
-  IDBIndex,
-  IDBCursor,
-  IDBCursorWithValue,
-  IDBRecord,
-  IDBVersionChangeEvent,
-  DOMStringList,
-} from '../src/index.ts';
+import { install } from '../src/globals.ts';
 
 export function setupGlobals(testFile: string): void {
   // self = globalThis (testharness.js expects `self`)
@@ -100,20 +86,5 @@ export function setupGlobals(testFile: string): void {
  * Called after the implementation modules are loaded.
  */
 export function injectIndexedDB(storagePath: string): void {
-  const factory = new IDBFactory({ storagePath });
-
-  (globalThis as any).indexedDB = factory;
-  (globalThis as any).IDBFactory = IDBFactory;
-  (globalThis as any).IDBKeyRange = IDBKeyRange;
-  (globalThis as any).IDBRequest = IDBRequest;
-  (globalThis as any).IDBOpenDBRequest = IDBOpenDBRequest;
-  (globalThis as any).IDBDatabase = IDBDatabase;
-  (globalThis as any).IDBTransaction = IDBTransaction;
-  (globalThis as any).IDBObjectStore = IDBObjectStore;
-  (globalThis as any).IDBIndex = IDBIndex;
-  (globalThis as any).IDBCursor = IDBCursor;
-  (globalThis as any).IDBCursorWithValue = IDBCursorWithValue;
-  (globalThis as any).IDBRecord = IDBRecord;
-  (globalThis as any).IDBVersionChangeEvent = IDBVersionChangeEvent;
-  (globalThis as any).DOMStringList = DOMStringList;
+  install({ storagePath });
 }